@@ -0,0 +1,40 @@
+import { drizzle } from 'drizzle-orm/node-postgres'
+import { Pool } from 'pg'
+import { postcodeCentroids } from '../src/db/schema'
+import 'dotenv/config'
+
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+})
+
+const db = drizzle(pool)
+
+async function createSamplePostcodeCentroids() {
+  try {
+    // Covers the addresses used by the dummy data and sample neighbourhoods
+    const sampleCentroids = [
+      { postcode: '94102', latitude: 37.7793, longitude: -122.4193 }, // San Francisco - Civic Center
+      { postcode: '94110', latitude: 37.7485, longitude: -122.4184 }, // San Francisco - Mission
+      { postcode: '94133', latitude: 37.8002, longitude: -122.4091 }, // San Francisco - North Beach
+      { postcode: 'M5V', latitude: 43.6426, longitude: -79.3871 }, // Toronto - Downtown
+      { postcode: 'M6R', latitude: 43.6469, longitude: -79.4497 }, // Toronto - Roncesvalles
+      { postcode: 'M4E', latitude: 43.6764, longitude: -79.2930 }, // Toronto - The Beaches
+      { postcode: 'M4N', latitude: 43.7280, longitude: -79.3887 }, // Toronto - Lawrence Park
+    ]
+
+    for (const centroid of sampleCentroids) {
+      await db.insert(postcodeCentroids).values(centroid).onConflictDoNothing()
+      console.log(`✅ Added postcode centroid: ${centroid.postcode}`)
+    }
+
+    console.log('\n🎉 Sample postcode centroids created successfully!')
+
+  } catch (error: any) {
+    console.error('❌ Error creating sample postcode centroids:', error.message)
+    console.error('Full error:', error)
+  } finally {
+    await pool.end()
+  }
+}
+
+createSamplePostcodeCentroids()
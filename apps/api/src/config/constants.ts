@@ -1,13 +1,104 @@
 export const MATCHING_CONFIG = {
-  DEFAULT_CIRCLE_SIZE: 6,
+  DEFAULT_MIN_CIRCLE_SIZE: 4, // Per-event defaults; each event can override these
+  DEFAULT_MAX_CIRCLE_SIZE: 6,
+  DEFAULT_MIN_OPT_INS: 6,
   MATCHING_DEADLINE_DAYS: 2, // Days before event
-  ROTATING_HOSTED_SPLIT: 0.5, // 50/50 split
+  PARTNER_INVITATION_DAYS: 7, // Days a partner has to accept, cut short by the matching deadline
+  OPTIMIZER_MAX_PASSES: 50, // Local-search passes over the circles
+  ROTATING_HOUSEHOLDS_PER_CIRCLE: 3, // One partnered household per course
+  ROTATING_CIRCLE_SIZE: 6, // Three households of two
+  UNDERSIZED_CIRCLE_PENALTY: 200, // Score deducted per seat a circle is short of the event's minimum size
+  WAITLIST_PRIORITY_BONUS: 1000, // Optimizer bonus per member waitlisted at their previous event
+  REPEAT_PAIRING_LOOKBACK_EVENTS: 3, // Matched events to look back over for repeat pairings
+  REPEAT_PAIRING_PENALTY: 10, // Score deducted per pair who shared a circle within the lookback
+  ALLERGEN_CONFLICT_PENALTY: 500, // Score deducted per guest whose severe allergy a host cannot cater for safely
+  VENUE_CONFLICT_PENALTY: 500, // Score deducted per guest a venue cannot accommodate (access, pets, smoking)
+  OVER_CAPACITY_PENALTY: 500, // Score deducted per member beyond a venue's seat capacity
+  DISTANCE_PENALTY_PER_KM: 1, // Score deducted per km between two households in the same circle
+  MAX_ROTATING_LEG_KM: 3, // Furthest apart two course venues in a rotating circle may be
+  ROTATING_LEG_PENALTY: 500, // Score deducted per pair of rotating venues beyond the cap
+  BLOCKED_PAIR_PENALTY: 10000, // Score deducted per pair kept apart by a block; such circles are never formed
+  REPEAT_NO_SHOW_PENALTY: 300, // Score deducted per member with repeat no-shows, so they are left over before others
 } as const;
 
+export const COMPATIBILITY_WEIGHTS = {
+  SHARED_INTEREST: 2, // Per interest two members share
+  DIETARY_MATCH: 3, // Two members who share a dietary need
+  DIETARY_COVERAGE: 4, // Circle's host(s) can cook for every guest's dietary needs
+  PERSONALITY_MATCH: 2, // Two members with the same personality type
+  PERSONALITY_MIX: 2, // Per extra distinct personality type in a circle
+  COOKING_SPREAD: 1, // Per distinct cooking experience level in a circle
+  EXPERIENCED_COOK: 3, // Circle has at least one intermediate or advanced cook
+} as const;
+
+export const SCHEDULER_CONFIG = {
+  INTERVAL_MINUTES: 5, // How often the scheduler looks for events past their matching deadline
+  MAX_ATTEMPTS: 3, // Attempts before a run with transient failures is marked failed
+  RETRY_BACKOFF_MINUTES: 10, // Doubled after each failed attempt
+} as const;
+
+export const SCHEDULED_RUN_STATUS = {
+  RETRYING: 'retrying',
+  SUCCEEDED: 'succeeded',
+  SKIPPED: 'skipped', // Pool below the event's minimum opt-ins
+  FAILED: 'failed',
+} as const;
+
+export const ITINERARY_CONFIG = {
+  TRAVEL_BUFFER_MINUTES: 15, // Time to walk between course venues
+  SLOT_ROUNDING_MINUTES: 5, // Course slots are rounded down to this granularity
+} as const;
+
+// An event's lifecycle; EventLifecycleService holds the allowed transitions between these
 export const EVENT_STATUS = {
-  OPEN: 'open',
+  DRAFT: 'draft', // Only admins can see it
+  OPEN: 'open', // Taking opt-ins
   MATCHING: 'matching',
-  CLOSED: 'closed',
+  MATCHED: 'matched', // Circles formed
+  IN_PROGRESS: 'in_progress', // From the event's start time until its end time
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled', // Called off; opt-ins and circles are kept for the record
+  ARCHIVED: 'archived', // Completed or cancelled, and off every dashboard
+} as const;
+
+export type EventStatus = typeof EVENT_STATUS[keyof typeof EVENT_STATUS];
+
+// What dashboards show: events still to come (including one under way), and those that have happened
+export const UPCOMING_EVENT_STATUSES: string[] = [EVENT_STATUS.OPEN, EVENT_STATUS.MATCHING, EVENT_STATUS.MATCHED, EVENT_STATUS.IN_PROGRESS];
+export const PAST_EVENT_STATUSES: string[] = [EVENT_STATUS.COMPLETED, EVENT_STATUS.ARCHIVED];
+
+export const LIFECYCLE_CONFIG = {
+  ARCHIVE_AFTER_DAYS: 30, // Completed and cancelled events are archived this long after their date
+} as const;
+
+// Attendance marked on a circle member, by a host or by self check-in
+export const ATTENDANCE_STATUS = {
+  ATTENDED: 'attended',
+  NO_SHOW: 'no_show',
+} as const;
+
+export const ATTENDANCE_CONFIG = {
+  CHECK_IN_CODE_LENGTH: 6,
+  REPEAT_NO_SHOW_LOOKBACK: 5, // Marked dinners to look back over for repeat no-shows
+  REPEAT_NO_SHOW_THRESHOLD: 2, // No-shows within the lookback that deprioritize a user in matching
+} as const;
+
+// How a series repeats from its first date
+export const SERIES_RECURRENCE = {
+  WEEKLY: 'weekly',
+  BIWEEKLY: 'biweekly',
+  MONTHLY: 'monthly', // Same day of the month
+  NTH_WEEKDAY: 'nth_weekday', // e.g. the second Friday of each month
+} as const;
+
+export const SERIES_CONFIG = {
+  GENERATE_AHEAD_DAYS: 90, // How far ahead a series' occurrences are created
+} as const;
+
+export const MATCHING_STRATEGY = {
+  OPTIMIZER: 'optimizer',
+  GREEDY: 'greedy',
+  RANDOM: 'random', // Control group: ignores compatibility
 } as const;
 
 export const CIRCLE_FORMAT = {
@@ -15,6 +106,13 @@ export const CIRCLE_FORMAT = {
   HOSTED: 'hosted',
 } as const;
 
+// Which circle formats an event's matching may form
+export const CIRCLE_FORMAT_MIX = {
+  MIXED: 'mixed',
+  ROTATING_ONLY: 'rotating_only',
+  HOSTED_ONLY: 'hosted_only',
+} as const;
+
 export const CIRCLE_ROLES = {
   HOST: 'host',
   PARTICIPANT: 'participant',
@@ -23,3 +121,71 @@ export const CIRCLE_ROLES = {
   DESSERT: 'dessert',
 } as const;
 
+// Courses of a rotating dinner, in serving order
+export const ROTATING_COURSES = [CIRCLE_ROLES.STARTER, CIRCLE_ROLES.MAIN, CIRCLE_ROLES.DESSERT] as const;
+
+export const HOUSEHOLD_STATUS = {
+  PENDING: 'pending', // Waiting for the partner to confirm
+  ACTIVE: 'active',
+  DECLINED: 'declined', // Declined by the partner or cancelled by the requester
+  ENDED: 'ended', // One partner left
+} as const;
+
+export const INVITATION_STATUS = {
+  PENDING: 'pending',
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  EXPIRED: 'expired', // Not answered before it expired or matching ran
+  CANCELLED: 'cancelled', // The inviter opted out
+} as const;
+
+export const BLOCK_SOURCE = {
+  USER: 'user', // One user blocked another
+  ADMIN: 'admin', // An admin excluded the pair
+} as const;
+
+export const CHAT_MESSAGE_TYPE = {
+  USER: 'user',
+  SYSTEM: 'system', // Posted on the circle's behalf, e.g. when an admin edits it
+} as const;
+
+
+export const DIETARY_NEEDS = {
+  VEGETARIAN: 'vegetarian',
+  VEGAN: 'vegan',
+  PESCATARIAN: 'pescatarian',
+  GLUTEN_FREE: 'gluten_free',
+  DAIRY_FREE: 'dairy_free',
+  HALAL: 'halal',
+  KOSHER: 'kosher',
+} as const;
+
+export const ALLERGENS = {
+  TREE_NUTS: 'tree_nuts',
+  PEANUTS: 'peanuts',
+  SHELLFISH: 'shellfish',
+  FISH: 'fish',
+  EGGS: 'eggs',
+  DAIRY: 'dairy',
+  GLUTEN: 'gluten',
+  SOY: 'soy',
+  SESAME: 'sesame',
+} as const;
+
+// What a guest needs from every venue they are sent to
+export const VENUE_NEEDS = {
+  STEP_FREE: 'step_free', // Step-free entrance, dining area and bathroom
+  PET_FREE: 'pet_free', // Allergic to pets
+  SMOKE_FREE: 'smoke_free', // Nobody smokes indoors
+} as const;
+
+export const SMOKING_POLICY = {
+  NONE: 'none',
+  OUTDOORS: 'outdoors',
+  INDOORS: 'indoors',
+} as const;
+
+export const ALLERGY_SEVERITY = {
+  MILD: 'mild',
+  SEVERE: 'severe', // Hosts who cannot guarantee an allergen-free kitchen are never assigned
+} as const;
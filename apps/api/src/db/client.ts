@@ -18,17 +18,28 @@ export const db = drizzle(pool, {
     // Explicitly include all relations
     usersRelations: schema.usersRelations,
     neighbourhoodsRelations: schema.neighbourhoodsRelations,
+    eventSeriesRelations: schema.eventSeriesRelations,
+    seriesOptInsRelations: schema.seriesOptInsRelations,
     eventsRelations: schema.eventsRelations,
     eventRatingsRelations: schema.eventRatingsRelations,
     testimonialsRelations: schema.testimonialsRelations,
     userBadgesRelations: schema.userBadgesRelations,
     userPointsRelations: schema.userPointsRelations,
     pointTransactionsRelations: schema.pointTransactionsRelations,
+    eventRewardsRelations: schema.eventRewardsRelations,
     pointRedemptionsRelations: schema.pointRedemptionsRelations,
+    householdsRelations: schema.householdsRelations,
     matchingPoolRelations: schema.matchingPoolRelations,
+    partnerInvitationsRelations: schema.partnerInvitationsRelations,
     circlesRelations: schema.circlesRelations,
     circleMembersRelations: schema.circleMembersRelations,
+    matchingProposalsRelations: schema.matchingProposalsRelations,
+    matchingResetsRelations: schema.matchingResetsRelations,
+    eventStatusChangesRelations: schema.eventStatusChangesRelations,
+    matchingReportsRelations: schema.matchingReportsRelations,
+    scheduledMatchingRunsRelations: schema.scheduledMatchingRunsRelations,
     emailNotificationsRelations: schema.emailNotificationsRelations,
+    userBlocksRelations: schema.userBlocksRelations,
   }
 });
 
@@ -1,11 +0,0 @@
-// Placeholder for matching algorithm; wire later
-export type MatchingInput = {
-  eventId: number
-}
-
-export function runMatching(_input: MatchingInput) {
-  // TODO: implement matching based on interests, personality, dietary, etc.
-  return { ok: true }
-}
-
-
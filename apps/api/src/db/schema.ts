@@ -1,6 +1,9 @@
-import { pgTable, serial, integer, text, boolean, timestamp, date, time, jsonb, varchar, uniqueIndex } from 'drizzle-orm/pg-core';
+import { pgTable, serial, integer, text, boolean, timestamp, date, time, jsonb, varchar, uniqueIndex, doublePrecision } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
-import { EVENT_STATUS, CIRCLE_FORMAT, CIRCLE_ROLES } from '../config/constants';
+import { EVENT_STATUS, CIRCLE_FORMAT, CIRCLE_FORMAT_MIX, CIRCLE_ROLES, MATCHING_CONFIG, MATCHING_STRATEGY, HOUSEHOLD_STATUS, INVITATION_STATUS } from '../config/constants';
+import type { MatchingProposal, CircleReport } from '../services/matching';
+import type { MatchingStrategyParams } from '../services/matchingStrategies';
+import type { VenueProfile } from '../services/venues';
 
 // Users
 export const users = pgTable('users', {
@@ -13,7 +16,13 @@ export const users = pgTable('users', {
   address: text('address'),
   neighbourhood: varchar('neighbourhood', { length: 200 }),
   bio: text('bio'),
-  dietaryRestrictions: text('dietary_restrictions'),
+  dietaryRestrictions: text('dietary_restrictions'), // Free-text notes; matching uses the structured fields below
+  dietaryNeeds: jsonb('dietary_needs').$type<string[]>(),
+  allergies: jsonb('allergies').$type<{ allergen: string; severity: string }[]>(),
+  cuisineCapabilities: jsonb('cuisine_capabilities').$type<string[]>(), // Dietary needs this user can cook for when hosting
+  allergenRisks: jsonb('allergen_risks').$type<string[]>(), // Allergens this user cannot guarantee to keep out of their kitchen
+  venueProfile: jsonb('venue_profile').$type<VenueProfile>(), // The home this user hosts at
+  venueNeeds: jsonb('venue_needs').$type<string[]>(), // What every venue this user is sent to must offer
   interests: jsonb('interests').$type<string[]>(),
   dateOfBirth: date('date_of_birth'),
   personalityType: varchar('personality_type', { length: 50 }),
@@ -33,16 +42,66 @@ export const neighbourhoods = pgTable('neighbourhoods', {
   zip: varchar('zip', { length: 20 }),
 });
 
-// Events (simplified for matching system - only date and time)
+// Event Series (a recurring dinner; its occurrences are generated ahead as events)
+export const eventSeries = pgTable('event_series', {
+  id: serial('id').primaryKey(),
+  title: varchar('title', { length: 200 }).notNull(),
+  description: text('description'),
+  theme: varchar('theme', { length: 100 }),
+  neighbourhoodId: integer('neighbourhood_id').references(() => neighbourhoods.id),
+  maxParticipants: integer('max_participants'),
+  coverImageUrl: varchar('cover_image_url', { length: 500 }),
+  recurrence: varchar('recurrence', { length: 20 }).notNull(), // See SERIES_RECURRENCE
+  nthWeek: integer('nth_week'), // For nth_weekday: 1-4, or -1 for the last; the weekday is the first date's
+  firstDate: date('first_date').notNull(),
+  lastDate: date('last_date'), // Null to repeat indefinitely
+  startTime: time('start_time', { withTimezone: false }).notNull(),
+  endTime: time('end_time', { withTimezone: false }).notNull(),
+  matchingStrategy: varchar('matching_strategy', { length: 30 }).default(MATCHING_STRATEGY.OPTIMIZER).notNull(),
+  minCircleSize: integer('min_circle_size').default(MATCHING_CONFIG.DEFAULT_MIN_CIRCLE_SIZE).notNull(),
+  maxCircleSize: integer('max_circle_size').default(MATCHING_CONFIG.DEFAULT_MAX_CIRCLE_SIZE).notNull(),
+  circleFormats: varchar('circle_formats', { length: 20 }).default(CIRCLE_FORMAT_MIX.MIXED).notNull(),
+  minOptIns: integer('min_opt_ins').default(MATCHING_CONFIG.DEFAULT_MIN_OPT_INS).notNull(),
+  createdBy: integer('created_by').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Events
 export const events = pgTable('events', {
   id: serial('id').primaryKey(),
+  title: varchar('title', { length: 200 }).default('Neighbourhood Dinner').notNull(),
+  description: text('description'),
+  theme: varchar('theme', { length: 100 }), // e.g. "Diwali potluck"
+  neighbourhoodId: integer('neighbourhood_id').references(() => neighbourhoods.id),
+  maxParticipants: integer('max_participants'), // Null for no limit on opt-ins
+  coverImageUrl: varchar('cover_image_url', { length: 500 }),
   date: date('date').notNull(),
   startTime: time('start_time', { withTimezone: false }).notNull(),
   endTime: time('end_time', { withTimezone: false }).notNull(),
-  matchingStatus: varchar('matching_status', { length: 20 }).default(EVENT_STATUS.OPEN).notNull(),
+  matchingStatus: varchar('matching_status', { length: 20 }).default(EVENT_STATUS.OPEN).notNull(), // Lifecycle status; see EVENT_STATUS
   matchingTriggeredAt: timestamp('matching_triggered_at', { withTimezone: true }),
   matchingCompletedAt: timestamp('matching_completed_at', { withTimezone: true }),
+  matchingStrategy: varchar('matching_strategy', { length: 30 }).default(MATCHING_STRATEGY.OPTIMIZER).notNull(),
+  matchingStrategyParams: jsonb('matching_strategy_params').$type<MatchingStrategyParams>(), // Resolved params of the committed run
+  minCircleSize: integer('min_circle_size').default(MATCHING_CONFIG.DEFAULT_MIN_CIRCLE_SIZE).notNull(),
+  maxCircleSize: integer('max_circle_size').default(MATCHING_CONFIG.DEFAULT_MAX_CIRCLE_SIZE).notNull(),
+  circleFormats: varchar('circle_formats', { length: 20 }).default(CIRCLE_FORMAT_MIX.MIXED).notNull(),
+  minOptIns: integer('min_opt_ins').default(MATCHING_CONFIG.DEFAULT_MIN_OPT_INS).notNull(),
+  seriesId: integer('series_id').references(() => eventSeries.id),
+  seriesDate: date('series_date'), // The date the series' rule gave this occurrence, even if it was moved
+  seriesDetached: boolean('series_detached').default(false).notNull(), // Edited on its own; series edits no longer apply
+  cancelledAt: timestamp('cancelled_at', { withTimezone: true }),
+  rewardsAwardedAt: timestamp('rewards_awarded_at', { withTimezone: true }), // When the completion job last finished for this event
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  seriesDateUnique: uniqueIndex('events_series_date_idx').on(table.seriesId, table.seriesDate),
+}));
+
+// Postcode Centroids (offline geocoding table)
+export const postcodeCentroids = pgTable('postcode_centroids', {
+  postcode: varchar('postcode', { length: 10 }).primaryKey(), // Uppercase, no spaces
+  latitude: doublePrecision('latitude').notNull(),
+  longitude: doublePrecision('longitude').notNull(),
 });
 
 // Testimonials
@@ -100,6 +159,19 @@ export const pointTransactions = pgTable('point_transactions', {
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Event Rewards (one row per user and completed event, so its points are never awarded twice)
+export const eventRewards = pgTable('event_rewards', {
+  id: serial('id').primaryKey(),
+  eventId: integer('event_id').references(() => events.id).notNull(),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  role: varchar('role', { length: 20 }).notNull(), // The circle role the points were for
+  pointsEarned: integer('points_earned').notNull(),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }), // Taken back because the user was marked a no-show
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  eventUserUnique: uniqueIndex('event_rewards_event_user_idx').on(table.eventId, table.userId),
+}));
+
 export const pointRedemptions = pgTable('point_redemptions', {
   id: serial('id').primaryKey(),
   userId: integer('user_id').references(() => users.id).notNull(),
@@ -109,25 +181,75 @@ export const pointRedemptions = pgTable('point_redemptions', {
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Households (two accounts linked as partners once both confirm; reused for every event)
+export const households = pgTable('households', {
+  id: serial('id').primaryKey(),
+  requesterId: integer('requester_id').references(() => users.id).notNull(),
+  partnerId: integer('partner_id').references(() => users.id).notNull(), // The account asked to confirm
+  status: varchar('status', { length: 20 }).default(HOUSEHOLD_STATUS.PENDING).notNull(), // 'pending', 'active', 'declined', 'ended'
+  confirmedAt: timestamp('confirmed_at', { withTimezone: true }),
+  endedAt: timestamp('ended_at', { withTimezone: true }), // Declined, cancelled or left
+  endedBy: integer('ended_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
 // Matching Pool (users who opt-in to be matched)
 export const matchingPool = pgTable('matching_pool', {
   id: serial('id').primaryKey(),
   eventId: integer('event_id').references(() => events.id).notNull(),
   userId: integer('user_id').references(() => users.id).notNull(),
   partnerId: integer('partner_id').references(() => users.id),
+  householdId: integer('household_id').references(() => households.id), // Set when opted in together as a household
   matchAddress: text('match_address'),
+  matchLatitude: doublePrecision('match_latitude'), // Geocoded from matchAddress
+  matchLongitude: doublePrecision('match_longitude'),
   hostingAvailable: boolean('hosting_available').default(false).notNull(),
+  venueOverride: jsonb('venue_override').$type<Partial<VenueProfile>>(), // Changes to the user's venue profile for this event only
+  waitlistedAt: timestamp('waitlisted_at', { withTimezone: true }), // Set when matching ran but this user could not be placed
+  withdrawnAt: timestamp('withdrawn_at', { withTimezone: true }), // Set when a matched user cancels; kept for history
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   userEventUnique: uniqueIndex('matching_pool_user_event_idx').on(table.userId, table.eventId),
 }));
 
+// Series Opt-ins (a user opted in to every upcoming occurrence of a series)
+export const seriesOptIns = pgTable('series_opt_ins', {
+  id: serial('id').primaryKey(),
+  seriesId: integer('series_id').references(() => eventSeries.id).notNull(),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  withPartner: boolean('with_partner').default(false).notNull(), // Opt the household partner in too, while the household lasts
+  matchAddress: text('match_address'),
+  matchLatitude: doublePrecision('match_latitude'),
+  matchLongitude: doublePrecision('match_longitude'),
+  hostingAvailable: boolean('hosting_available').default(false).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  seriesUserUnique: uniqueIndex('series_opt_ins_series_user_idx').on(table.seriesId, table.userId),
+}));
+
+// Partner Invitations (asking someone to join an opt-in as its partner; they are only opted in once they accept)
+export const partnerInvitations = pgTable('partner_invitations', {
+  id: serial('id').primaryKey(),
+  eventId: integer('event_id').references(() => events.id).notNull(),
+  inviterId: integer('inviter_id').references(() => users.id).notNull(),
+  inviteeEmail: varchar('invitee_email', { length: 255 }).notNull(),
+  inviteeId: integer('invitee_id').references(() => users.id), // Set once an account uses the email, including one created later
+  token: varchar('token', { length: 64 }).notNull().unique(), // Secret in the accept/decline link
+  status: varchar('status', { length: 20 }).default(INVITATION_STATUS.PENDING).notNull(), // 'pending', 'accepted', 'declined', 'expired', 'cancelled'
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  respondedAt: timestamp('responded_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
 // Circles (groups of 6 users assigned after matching)
 export const circles = pgTable('circles', {
   id: serial('id').primaryKey(),
   eventId: integer('event_id').references(() => events.id).notNull(),
   name: varchar('name', { length: 100 }).notNull(),
   format: varchar('format', { length: 20 }).notNull(), // 'rotating' or 'hosted'
+  compatibilityScore: integer('compatibility_score'),
+  matchingReport: jsonb('matching_report').$type<CircleReport>(), // Why these members were grouped, as of matching
+  checkInCode: varchar('check_in_code', { length: 12 }), // Shown to hosts on the day for self check-in; created on first request
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
@@ -137,16 +259,90 @@ export const circleMembers = pgTable('circle_members', {
   circleId: integer('circle_id').references(() => circles.id).notNull(),
   userId: integer('user_id').references(() => users.id).notNull(),
   role: varchar('role', { length: 20 }).notNull(), // 'host', 'participant', 'starter', 'main', 'dessert'
+  venueAddress: text('venue_address'), // Where this member's household serves its course (rotating only)
+  attendance: varchar('attendance', { length: 20 }), // 'attended' or 'no_show'; null until marked
+  attendanceMarkedBy: integer('attendance_marked_by').references(() => users.id), // A host, or the member for self check-in
+  attendanceMarkedAt: timestamp('attendance_marked_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   circleUserUnique: uniqueIndex('circle_members_circle_user_idx').on(table.circleId, table.userId),
 }));
 
+// Matching Proposals (previewed matching runs that an admin can commit)
+export const matchingProposals = pgTable('matching_proposals', {
+  id: serial('id').primaryKey(),
+  eventId: integer('event_id').references(() => events.id).notNull(),
+  createdBy: integer('created_by').references(() => users.id).notNull(),
+  poolSignature: varchar('pool_signature', { length: 64 }).notNull(), // Hash of the opt-ins the proposal was computed from
+  proposal: jsonb('proposal').$type<MatchingProposal>().notNull(),
+  committedAt: timestamp('committed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Matching Reports (one per committed run; kept when matching is reset)
+export const matchingReports = pgTable('matching_reports', {
+  id: serial('id').primaryKey(),
+  eventId: integer('event_id').references(() => events.id).notNull(),
+  totalScore: integer('total_score').notNull(),
+  report: jsonb('report').$type<MatchingProposal>().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Matching Resets (audit trail of admins undoing an event's matching)
+export const matchingResets = pgTable('matching_resets', {
+  id: serial('id').primaryKey(),
+  eventId: integer('event_id').references(() => events.id).notNull(),
+  resetBy: integer('reset_by').references(() => users.id).notNull(),
+  reason: text('reason').notNull(),
+  circlesRemoved: integer('circles_removed').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Event Status Changes (every lifecycle transition, with when and why it happened)
+export const eventStatusChanges = pgTable('event_status_changes', {
+  id: serial('id').primaryKey(),
+  eventId: integer('event_id').references(() => events.id).notNull(),
+  fromStatus: varchar('from_status', { length: 20 }).notNull(),
+  toStatus: varchar('to_status', { length: 20 }).notNull(),
+  changedBy: integer('changed_by').references(() => users.id), // Null when the scheduler or matching made the change
+  reason: text('reason'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Scheduled Matching Runs (one per event, written by the deadline scheduler)
+export const scheduledMatchingRuns = pgTable('scheduled_matching_runs', {
+  id: serial('id').primaryKey(),
+  eventId: integer('event_id').references(() => events.id).notNull(),
+  status: varchar('status', { length: 20 }).notNull(), // 'retrying', 'succeeded', 'skipped', 'failed'
+  attempts: integer('attempts').default(0).notNull(),
+  lastError: text('last_error'),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  eventUnique: uniqueIndex('scheduled_matching_runs_event_idx').on(table.eventId),
+}));
+
+// User Blocks (pairs of users matching never seats together)
+export const userBlocks = pgTable('user_blocks', {
+  id: serial('id').primaryKey(),
+  blockerId: integer('blocker_id').references(() => users.id).notNull(), // For admin exclusions, the first user of the pair
+  blockedId: integer('blocked_id').references(() => users.id).notNull(),
+  source: varchar('source', { length: 20 }).notNull(), // 'user' or 'admin'
+  createdBy: integer('created_by').references(() => users.id).notNull(),
+  eventId: integer('event_id').references(() => events.id), // The event after which the user blocked them, if any
+  reason: text('reason'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  pairUnique: uniqueIndex('user_blocks_pair_source_idx').on(table.blockerId, table.blockedId, table.source),
+}));
+
 // Email Notifications
 export const emailNotifications = pgTable('email_notifications', {
   id: serial('id').primaryKey(),
-  userId: integer('user_id').references(() => users.id).notNull(),
-  type: varchar('type', { length: 50 }).notNull(), // 'matching_triggered', 'circle_assigned', 'partner_opt_in'
+  userId: integer('user_id').references(() => users.id), // Null when the recipient has no account yet
+  recipientEmail: varchar('recipient_email', { length: 255 }), // Where to send when there is no account
+  type: varchar('type', { length: 50 }).notNull(), // 'matching_triggered', 'circle_assigned', 'partner_opt_in', 'partner_invitation', 'waitlisted', 'household_request', 'household_update'
   subject: varchar('subject', { length: 200 }).notNull(),
   body: text('body').notNull(),
   sentAt: timestamp('sent_at', { withTimezone: true }).defaultNow().notNull(),
@@ -157,7 +353,8 @@ export const emailNotifications = pgTable('email_notifications', {
 export const chatMessages = pgTable('chat_messages', {
   id: serial('id').primaryKey(),
   circleId: integer('circle_id').references(() => circles.id).notNull(),
-  userId: integer('user_id').references(() => users.id).notNull(),
+  userId: integer('user_id').references(() => users.id).notNull(), // For system messages, whoever's action is announced
+  type: varchar('type', { length: 20 }).default('user').notNull(), // 'user' or 'system'
   message: text('message').notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
@@ -170,23 +367,71 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   userBadges: many(userBadges),
   userPoints: one(userPoints),
   pointTransactions: many(pointTransactions),
+  eventRewards: many(eventRewards),
   pointRedemptions: many(pointRedemptions),
   matchingPool: many(matchingPool),
   circleMembers: many(circleMembers),
   emailNotifications: many(emailNotifications),
   chatMessages: many(chatMessages),
+  blocks: many(userBlocks, { relationName: 'blocker' }),
+  requestedHouseholds: many(households, { relationName: 'householdRequester' }),
+  partneredHouseholds: many(households, { relationName: 'householdPartner' }),
+  sentInvitations: many(partnerInvitations, { relationName: 'inviter' }),
+  receivedInvitations: many(partnerInvitations, { relationName: 'invitee' }),
+  blockedBy: many(userBlocks, { relationName: 'blocked' }),
 }));
 
 export const neighbourhoodsRelations = relations(neighbourhoods, ({ many }) => ({
   testimonials: many(testimonials),
+  events: many(events),
+  eventSeries: many(eventSeries),
+}));
+
+export const eventSeriesRelations = relations(eventSeries, ({ one, many }) => ({
+  neighbourhood: one(neighbourhoods, {
+    fields: [eventSeries.neighbourhoodId],
+    references: [neighbourhoods.id],
+  }),
+  creator: one(users, {
+    fields: [eventSeries.createdBy],
+    references: [users.id],
+  }),
+  events: many(events),
+  optIns: many(seriesOptIns),
 }));
 
-export const eventsRelations = relations(events, ({ many }) => ({
+export const seriesOptInsRelations = relations(seriesOptIns, ({ one }) => ({
+  series: one(eventSeries, {
+    fields: [seriesOptIns.seriesId],
+    references: [eventSeries.id],
+  }),
+  user: one(users, {
+    fields: [seriesOptIns.userId],
+    references: [users.id],
+  }),
+}));
+
+export const eventsRelations = relations(events, ({ one, many }) => ({
+  neighbourhood: one(neighbourhoods, {
+    fields: [events.neighbourhoodId],
+    references: [neighbourhoods.id],
+  }),
+  series: one(eventSeries, {
+    fields: [events.seriesId],
+    references: [eventSeries.id],
+  }),
   eventRatings: many(eventRatings),
   pointTransactions: many(pointTransactions),
+  eventRewards: many(eventRewards),
   pointRedemptions: many(pointRedemptions),
   matchingPool: many(matchingPool),
   circles: many(circles),
+  matchingProposals: many(matchingProposals),
+  matchingResets: many(matchingResets),
+  statusChanges: many(eventStatusChanges),
+  matchingReports: many(matchingReports),
+  scheduledMatchingRuns: many(scheduledMatchingRuns),
+  partnerInvitations: many(partnerInvitations),
 }));
 
 export const eventRatingsRelations = relations(eventRatings, ({ one }) => ({
@@ -242,6 +487,17 @@ export const pointTransactionsRelations = relations(pointTransactions, ({ one })
   }),
 }));
 
+export const eventRewardsRelations = relations(eventRewards, ({ one }) => ({
+  event: one(events, {
+    fields: [eventRewards.eventId],
+    references: [events.id],
+  }),
+  user: one(users, {
+    fields: [eventRewards.userId],
+    references: [users.id],
+  }),
+}));
+
 export const pointRedemptionsRelations = relations(pointRedemptions, ({ one }) => ({
   user: one(users, {
     fields: [pointRedemptions.userId],
@@ -253,6 +509,20 @@ export const pointRedemptionsRelations = relations(pointRedemptions, ({ one }) =
   }),
 }));
 
+export const householdsRelations = relations(households, ({ one, many }) => ({
+  requester: one(users, {
+    fields: [households.requesterId],
+    references: [users.id],
+    relationName: 'householdRequester',
+  }),
+  partner: one(users, {
+    fields: [households.partnerId],
+    references: [users.id],
+    relationName: 'householdPartner',
+  }),
+  optIns: many(matchingPool),
+}));
+
 export const matchingPoolRelations = relations(matchingPool, ({ one }) => ({
   event: one(events, {
     fields: [matchingPool.eventId],
@@ -267,6 +537,27 @@ export const matchingPoolRelations = relations(matchingPool, ({ one }) => ({
     references: [users.id],
     relationName: 'partner',
   }),
+  household: one(households, {
+    fields: [matchingPool.householdId],
+    references: [households.id],
+  }),
+}));
+
+export const partnerInvitationsRelations = relations(partnerInvitations, ({ one }) => ({
+  event: one(events, {
+    fields: [partnerInvitations.eventId],
+    references: [events.id],
+  }),
+  inviter: one(users, {
+    fields: [partnerInvitations.inviterId],
+    references: [users.id],
+    relationName: 'inviter',
+  }),
+  invitee: one(users, {
+    fields: [partnerInvitations.inviteeId],
+    references: [users.id],
+    relationName: 'invitee',
+  }),
 }));
 
 export const circlesRelations = relations(circles, ({ one, many }) => ({
@@ -289,6 +580,70 @@ export const circleMembersRelations = relations(circleMembers, ({ one }) => ({
   }),
 }));
 
+export const matchingProposalsRelations = relations(matchingProposals, ({ one }) => ({
+  event: one(events, {
+    fields: [matchingProposals.eventId],
+    references: [events.id],
+  }),
+  createdByUser: one(users, {
+    fields: [matchingProposals.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const scheduledMatchingRunsRelations = relations(scheduledMatchingRuns, ({ one }) => ({
+  event: one(events, {
+    fields: [scheduledMatchingRuns.eventId],
+    references: [events.id],
+  }),
+}));
+
+export const matchingReportsRelations = relations(matchingReports, ({ one }) => ({
+  event: one(events, {
+    fields: [matchingReports.eventId],
+    references: [events.id],
+  }),
+}));
+
+export const userBlocksRelations = relations(userBlocks, ({ one }) => ({
+  blocker: one(users, {
+    fields: [userBlocks.blockerId],
+    references: [users.id],
+    relationName: 'blocker',
+  }),
+  blocked: one(users, {
+    fields: [userBlocks.blockedId],
+    references: [users.id],
+    relationName: 'blocked',
+  }),
+  event: one(events, {
+    fields: [userBlocks.eventId],
+    references: [events.id],
+  }),
+}));
+
+export const matchingResetsRelations = relations(matchingResets, ({ one }) => ({
+  event: one(events, {
+    fields: [matchingResets.eventId],
+    references: [events.id],
+  }),
+  resetByUser: one(users, {
+    fields: [matchingResets.resetBy],
+    references: [users.id],
+  }),
+}));
+
+export const eventStatusChangesRelations = relations(eventStatusChanges, ({ one }) => ({
+  event: one(events, {
+    fields: [eventStatusChanges.eventId],
+    references: [events.id],
+  }),
+  changedByUser: one(users, {
+    fields: [eventStatusChanges.changedBy],
+    references: [users.id],
+  }),
+}));
+
 export const emailNotificationsRelations = relations(emailNotifications, ({ one }) => ({
   user: one(users, {
     fields: [emailNotifications.userId],
@@ -10,6 +10,9 @@ const envSchema = z.object({
   DATABASE_URL: z.string().url(),
   JWT_SECRET: z.string().min(1),
   FRONTEND_URL: z.string().url().optional(),
+  GEOCODER: z.enum(['postcode', 'nominatim']).default('postcode'),
+  GEOCODER_URL: z.string().url().default('https://nominatim.openstreetmap.org'),
+  MATCHING_SCHEDULER: z.enum(['on', 'off']).default('on'),
 });
 
 export type Env = z.infer<typeof envSchema>;
@@ -1,12 +1,160 @@
 import express from 'express';
 import { z } from 'zod';
 import { db } from '../db/client';
-import { users, events, neighbourhoods, matchingPool, circles, circleMembers } from '../db/schema';
-import { eq, desc, count, sql } from 'drizzle-orm';
+import { users, events, eventSeries, eventStatusChanges, neighbourhoods, matchingPool, circles, circleMembers, scheduledMatchingRuns } from '../db/schema';
+import { eq, desc, count, sql, inArray } from 'drizzle-orm';
 import { requireAdmin } from '../auth';
+import { MatchingScheduler } from '../services/matchingScheduler';
+import { CircleEditingService, CircleEditError } from '../services/circleEditing';
+import { BlockService } from '../services/blocks';
+import { EventSeriesService, SeriesError } from '../services/eventSeries';
+import { EventLifecycleService, EventLifecycleError } from '../services/eventLifecycle';
+import { EventCompletionService, EventCompletionError } from '../services/eventCompletion';
+import { AttendanceService } from '../services/attendance';
+import type { EventStatus } from '../config/constants';
+import { EVENT_STATUS, MATCHING_CONFIG, MATCHING_STRATEGY, CIRCLE_FORMAT_MIX, CIRCLE_ROLES, SERIES_RECURRENCE } from '../config/constants';
 
 const router = express.Router();
 
+// Schema for how an event's circles are formed
+const matchingSettingsSchema = z.object({
+  matchingStrategy: z.enum(Object.values(MATCHING_STRATEGY) as [string, ...string[]]).optional(),
+  matchingStrategyParams: z.object({
+    maxPasses: z.number().int().min(0).max(500).optional(),
+    seed: z.number().int().nonnegative().optional(),
+  }).nullable().optional(),
+  minCircleSize: z.number().int().min(2).max(20).optional(),
+  maxCircleSize: z.number().int().min(2).max(20).optional(),
+  circleFormats: z.enum(Object.values(CIRCLE_FORMAT_MIX) as [string, ...string[]]).optional(),
+  minOptIns: z.number().int().min(2).max(1000).optional(),
+});
+
+// Schema for what participants see about an event
+const eventDetailsSchema = z.object({
+  title: z.string().trim().min(1, 'A title is required').max(200),
+  description: z.string().trim().max(5000).nullable(),
+  theme: z.string().trim().max(100).nullable(),
+  neighbourhoodId: z.number().int().positive().nullable(),
+  maxParticipants: z.number().int().min(2).max(10000).nullable(),
+  coverImageUrl: z.string().url().max(500).nullable(),
+});
+
+// Schema for a recurring series; each occurrence takes its details and matching settings
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+const timeSchema = z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, 'Expected an HH:MM time');
+
+const seriesSchema = eventDetailsSchema.extend({
+  recurrence: z.enum(Object.values(SERIES_RECURRENCE) as [string, ...string[]]),
+  nthWeek: z.union([z.literal(-1), z.number().int().min(1).max(4)]).nullable(),
+  firstDate: dateSchema,
+  lastDate: dateSchema.nullable(),
+  startTime: timeSchema,
+  endTime: timeSchema,
+}).merge(matchingSettingsSchema.omit({ matchingStrategyParams: true }));
+
+interface MatchingSizeSettings {
+  minCircleSize: number;
+  maxCircleSize: number;
+  circleFormats: string;
+  minOptIns: number;
+}
+
+// Cross-field checks once the new settings are merged with the event's current ones
+function getMatchingSettingsError(settings: MatchingSizeSettings): string | null {
+  if (settings.minCircleSize > settings.maxCircleSize) {
+    return 'Minimum circle size cannot be larger than the maximum';
+  }
+  const rotatingSize = MATCHING_CONFIG.ROTATING_CIRCLE_SIZE;
+  if (settings.circleFormats === CIRCLE_FORMAT_MIX.ROTATING_ONLY
+    && (settings.minCircleSize > rotatingSize || settings.maxCircleSize < rotatingSize)) {
+    return `Rotating circles seat ${rotatingSize}, so the circle size range must include ${rotatingSize}`;
+  }
+  if (settings.minOptIns < settings.minCircleSize) {
+    return 'Minimum opt-ins cannot be smaller than the minimum circle size';
+  }
+  return null;
+}
+
+// Schemas for manual circle edits
+const circleRoleSchema = z.enum(Object.values(CIRCLE_ROLES) as [string, ...string[]]);
+
+const moveMemberSchema = z.object({
+  userId: z.number().int().positive(),
+  circleId: z.number().int().positive(),
+  role: circleRoleSchema.optional(),
+});
+
+const swapMembersSchema = z.object({
+  userId: z.number().int().positive(),
+  otherUserId: z.number().int().positive(),
+});
+
+const changeRoleSchema = z.object({
+  userId: z.number().int().positive(),
+  role: circleRoleSchema,
+});
+
+const splitCircleSchema = z.object({
+  circleId: z.number().int().positive(),
+  members: z.array(z.object({
+    userId: z.number().int().positive(),
+    role: circleRoleSchema.optional(),
+  })).min(1),
+  name: z.string().max(100).optional(),
+});
+
+const mergeCirclesSchema = z.object({
+  circleId: z.number().int().positive(),
+  intoCircleId: z.number().int().positive(),
+});
+
+// Schema for keeping two users out of the same circle
+const exclusionSchema = z.object({
+  userId: z.number().int().positive(),
+  otherUserId: z.number().int().positive(),
+  reason: z.string().trim().min(1, 'A reason is required'),
+});
+
+// Schema for moving an event through its lifecycle
+const eventStatusSchema = z.enum(Object.values(EVENT_STATUS) as [EventStatus, ...EventStatus[]]);
+
+const statusChangeSchema = z.object({
+  status: eventStatusSchema,
+  reason: z.string().trim().max(500).optional(),
+});
+
+// An event's neighbourhood must be one admins have set up
+async function neighbourhoodExists(neighbourhoodId: number): Promise<boolean> {
+  const neighbourhood = await db.query.neighbourhoods.findFirst({
+    where: eq(neighbourhoods.id, neighbourhoodId),
+  });
+  return !!neighbourhood;
+}
+
+// Shared error mapping for the series, event status and completion routes
+function sendSeriesError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof Error && (error.message === 'Series not found' || error.message === 'Event not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof SeriesError || error instanceof EventLifecycleError || error instanceof EventCompletionError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${action} error:`, error);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
+// Shared error mapping for the circle edit routes
+function sendCircleEditError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof Error && (error.message === 'Event not found' || error.message === 'Circle not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof CircleEditError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${action} error:`, error);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
 /**
  * @swagger
  * /api/admin/users:
@@ -107,7 +255,7 @@ router.get('/users', requireAdmin, async (req, res) => {
  *         description: User ID
  *     responses:
  *       200:
- *         description: User details
+ *         description: User details, including their attendance record and reliability score
  *       404:
  *         description: User not found
  *       401:
@@ -149,6 +297,7 @@ router.get('/users/:id', requireAdmin, async (req, res) => {
       eventsParticipated: matchingCount.count,
       totalPoints: 0, // TODO: Calculate from points table
       badgesEarned: 0, // TODO: Calculate from badges table
+      reliability: await AttendanceService.getReliability(userId),
     };
 
     return res.json(userDetail);
@@ -290,10 +439,26 @@ router.get('/neighbourhoods', requireAdmin, async (req, res) => {
  *           schema:
  *             type: object
  *             required:
+ *               - title
  *               - date
  *               - startTime
  *               - endTime
  *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               theme:
+ *                 type: string
+ *                 description: e.g. "Diwali potluck"
+ *               neighbourhoodId:
+ *                 type: integer
+ *               maxParticipants:
+ *                 type: integer
+ *                 description: Opt-ins accepted before the event is full; omit for no limit
+ *               coverImageUrl:
+ *                 type: string
+ *                 format: uri
  *               date:
  *                 type: string
  *                 format: date
@@ -303,6 +468,28 @@ router.get('/neighbourhoods', requireAdmin, async (req, res) => {
  *               endTime:
  *                 type: string
  *                 format: time
+ *               minCircleSize:
+ *                 type: integer
+ *                 default: 4
+ *               maxCircleSize:
+ *                 type: integer
+ *                 default: 6
+ *               circleFormats:
+ *                 type: string
+ *                 enum: [mixed, rotating_only, hosted_only]
+ *                 default: mixed
+ *               minOptIns:
+ *                 type: integer
+ *                 default: 6
+ *               matchingStrategy:
+ *                 type: string
+ *                 enum: [optimizer, greedy, random]
+ *                 default: optimizer
+ *               status:
+ *                 type: string
+ *                 enum: [draft, open]
+ *                 default: open
+ *                 description: Save as a draft to publish later
  *     responses:
  *       201:
  *         description: Event created successfully
@@ -322,12 +509,45 @@ router.post('/events', requireAdmin, async (req, res) => {
       return res.status(400).json({ error: 'Date, start time, and end time are required' });
     }
 
+    const parsed = matchingSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const sizeSettings = {
+      minCircleSize: parsed.data.minCircleSize ?? MATCHING_CONFIG.DEFAULT_MIN_CIRCLE_SIZE,
+      maxCircleSize: parsed.data.maxCircleSize ?? MATCHING_CONFIG.DEFAULT_MAX_CIRCLE_SIZE,
+      circleFormats: parsed.data.circleFormats ?? CIRCLE_FORMAT_MIX.MIXED,
+      minOptIns: parsed.data.minOptIns ?? MATCHING_CONFIG.DEFAULT_MIN_OPT_INS,
+    };
+    const settingsError = getMatchingSettingsError(sizeSettings);
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError });
+    }
+
+    const details = eventDetailsSchema.partial().required({ title: true }).safeParse(req.body);
+    if (!details.success) {
+      return res.status(400).json({ error: details.error.flatten() });
+    }
+    if (details.data.neighbourhoodId && !(await neighbourhoodExists(details.data.neighbourhoodId))) {
+      return res.status(400).json({ error: 'Neighbourhood not found' });
+    }
+
+    // New events are published straight away unless saved as a draft
+    const initialStatus = z.enum([EVENT_STATUS.DRAFT, EVENT_STATUS.OPEN]).default(EVENT_STATUS.OPEN).safeParse(req.body.status);
+    if (!initialStatus.success) {
+      return res.status(400).json({ error: 'New events start as draft or open' });
+    }
+
     // Create the event
     const newEvent = await db.insert(events).values({
+      ...details.data,
       date,
       startTime,
       endTime,
-      matchingStatus: 'open'
+      matchingStatus: initialStatus.data,
+      ...sizeSettings,
+      matchingStrategy: parsed.data.matchingStrategy,
+      matchingStrategyParams: parsed.data.matchingStrategyParams,
     }).returning();
 
     res.status(201).json({
@@ -348,6 +568,12 @@ router.post('/events', requireAdmin, async (req, res) => {
  *     tags: [Admin]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         description: Comma-separated lifecycle statuses to include (e.g. draft,open)
  *     responses:
  *       200:
  *         description: List of events with pagination
@@ -358,8 +584,17 @@ router.post('/events', requireAdmin, async (req, res) => {
  */
 router.get('/events', requireAdmin, async (req, res) => {
   try {
+    const statuses = z.array(eventStatusSchema).safeParse(
+      typeof req.query.status === 'string' ? req.query.status.split(',') : []
+    );
+    if (!statuses.success) {
+      return res.status(400).json({ error: 'Unknown event status' });
+    }
+
     const allEvents = await db.query.events.findMany({
+      where: statuses.data.length > 0 ? inArray(events.matchingStatus, statuses.data) : undefined,
       with: {
+        neighbourhood: true,
         matchingPool: {
           with: {
             user: {
@@ -391,12 +626,27 @@ router.get('/events', requireAdmin, async (req, res) => {
     // Transform the data to match frontend expectations
     const transformedEvents = allEvents.map(event => ({
       id: event.id,
+      title: event.title,
+      description: event.description,
+      theme: event.theme,
+      neighbourhoodId: event.neighbourhoodId,
+      neighbourhood: event.neighbourhood?.name ?? null,
+      maxParticipants: event.maxParticipants,
+      coverImageUrl: event.coverImageUrl,
       date: event.date,
       startTime: event.startTime,
       endTime: event.endTime,
       matchingStatus: event.matchingStatus,
       matchingTriggeredAt: event.matchingTriggeredAt,
       matchingCompletedAt: event.matchingCompletedAt,
+      matchingStrategy: event.matchingStrategy,
+      minCircleSize: event.minCircleSize,
+      maxCircleSize: event.maxCircleSize,
+      circleFormats: event.circleFormats,
+      minOptIns: event.minOptIns,
+      seriesId: event.seriesId,
+      seriesDetached: event.seriesDetached,
+      cancelledAt: event.cancelledAt,
       createdAt: event.createdAt,
       optInCount: event.matchingPool.length,
       circleCount: event.circles.length,
@@ -453,6 +703,7 @@ router.get('/events/:id', requireAdmin, async (req, res) => {
     const event = await db.query.events.findFirst({
       where: eq(events.id, eventId),
       with: {
+        neighbourhood: true,
         matchingPool: {
           with: {
             user: {
@@ -495,22 +746,34 @@ router.get('/events/:id', requireAdmin, async (req, res) => {
     if (!event) {
       return res.status(404).json({ error: 'Event not found' });
     }
+    const statusHistory = await EventLifecycleService.getHistory(eventId);
 
     const eventDetail = {
       id: event.id,
-      title: `Dinner Event - ${new Date(event.date).toLocaleDateString()}`,
-      description: `Join us for dinner on ${new Date(event.date).toLocaleDateString()} from ${event.startTime} to ${event.endTime}`,
+      title: event.title,
+      description: event.description,
+      theme: event.theme,
+      coverImageUrl: event.coverImageUrl,
       date: event.date,
       startTime: event.startTime,
       endTime: event.endTime,
-      totalSpots: 0, // No longer relevant in matching system
-      spotsRemaining: 0, // No longer relevant in matching system
+      maxParticipants: event.maxParticipants,
+      spotsRemaining: event.maxParticipants === null ? null : Math.max(0, event.maxParticipants - event.matchingPool.length),
       format: 'matching', // All events are now matching-based
-      neighbourhood: 'TBD', // Will be determined by matching
+      neighbourhoodId: event.neighbourhoodId,
+      neighbourhood: event.neighbourhood?.name ?? null,
       createdAt: event.createdAt,
       matchingStatus: event.matchingStatus,
       matchingTriggeredAt: event.matchingTriggeredAt,
       matchingCompletedAt: event.matchingCompletedAt,
+      matchingStrategy: event.matchingStrategy,
+      matchingStrategyParams: event.matchingStrategyParams,
+      minCircleSize: event.minCircleSize,
+      maxCircleSize: event.maxCircleSize,
+      circleFormats: event.circleFormats,
+      minOptIns: event.minOptIns,
+      rewardsAwardedAt: event.rewardsAwardedAt,
+      statusHistory,
       optIns: event.matchingPool.map((optIn: any) => ({
         id: optIn.id,
         userId: optIn.userId,
@@ -519,6 +782,7 @@ router.get('/events/:id', requireAdmin, async (req, res) => {
         partner: optIn.partner,
         matchAddress: optIn.matchAddress,
         hostingAvailable: optIn.hostingAvailable,
+        waitlistedAt: optIn.waitlistedAt,
         dietaryRestrictions: optIn.dietaryRestrictions,
         createdAt: optIn.createdAt,
       })),
@@ -526,6 +790,7 @@ router.get('/events/:id', requireAdmin, async (req, res) => {
         id: circle.id,
         name: circle.name,
         format: circle.format,
+        compatibilityScore: circle.compatibilityScore,
         members: circle.members.map((member: any) => ({
           id: member.id,
           userId: member.userId,
@@ -576,12 +841,37 @@ router.get('/events/:id', requireAdmin, async (req, res) => {
  *                 type: string
  *               endTime:
  *                 type: string
- *               totalSpots:
- *                 type: integer
- *               format:
+ *               theme:
  *                 type: string
  *               neighbourhoodId:
  *                 type: integer
+ *                 nullable: true
+ *               maxParticipants:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Opt-ins accepted before the event is full; null for no limit
+ *               coverImageUrl:
+ *                 type: string
+ *                 nullable: true
+ *               matchingStrategy:
+ *                 type: string
+ *                 enum: [optimizer, greedy, random]
+ *                 description: Algorithm used to form circles; only changeable before matching starts
+ *               matchingStrategyParams:
+ *                 type: object
+ *                 description: Strategy parameters, e.g. maxPasses (optimizer) or seed (random)
+ *               minCircleSize:
+ *                 type: integer
+ *                 description: Smallest circle matching may form
+ *               maxCircleSize:
+ *                 type: integer
+ *                 description: Largest circle matching may form
+ *               circleFormats:
+ *                 type: string
+ *                 enum: [mixed, rotating_only, hosted_only]
+ *               minOptIns:
+ *                 type: integer
+ *                 description: Opt-ins needed before matching can run
  *     responses:
  *       200:
  *         description: Event updated successfully
@@ -616,17 +906,70 @@ router.put('/events/:id', requireAdmin, async (req, res) => {
     if (req.body.startTime !== undefined) updateData.startTime = req.body.startTime;
     if (req.body.endTime !== undefined) updateData.endTime = req.body.endTime;
 
+    const details = eventDetailsSchema.partial().safeParse(req.body);
+    if (!details.success) {
+      return res.status(400).json({ error: details.error.flatten() });
+    }
+    if (details.data.neighbourhoodId && !(await neighbourhoodExists(details.data.neighbourhoodId))) {
+      return res.status(400).json({ error: 'Neighbourhood not found' });
+    }
+    Object.assign(updateData, Object.fromEntries(
+      Object.entries(details.data).filter(([, value]) => value !== undefined)
+    ));
+
+    const parsed = matchingSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const matchingSettings = Object.fromEntries(
+      Object.entries(parsed.data).filter(([, value]) => value !== undefined)
+    );
+    if (Object.keys(matchingSettings).length > 0) {
+      if (event.matchingStatus !== EVENT_STATUS.OPEN && event.matchingStatus !== EVENT_STATUS.DRAFT) {
+        return res.status(400).json({ error: 'Matching settings cannot be changed once matching has started' });
+      }
+      const settingsError = getMatchingSettingsError({
+        minCircleSize: parsed.data.minCircleSize ?? event.minCircleSize,
+        maxCircleSize: parsed.data.maxCircleSize ?? event.maxCircleSize,
+        circleFormats: parsed.data.circleFormats ?? event.circleFormats,
+        minOptIns: parsed.data.minOptIns ?? event.minOptIns,
+      });
+      if (settingsError) {
+        return res.status(400).json({ error: settingsError });
+      }
+      Object.assign(updateData, matchingSettings);
+    }
+    // An occurrence edited on its own no longer follows its series
+    if (event.seriesId && Object.keys(updateData).length > 0) {
+      updateData.seriesDetached = true;
+    }
+
     const [updatedEvent] = await db.update(events)
       .set(updateData)
       .where(eq(events.id, eventId))
       .returning({
         id: events.id,
+        title: events.title,
+        description: events.description,
+        theme: events.theme,
+        neighbourhoodId: events.neighbourhoodId,
+        maxParticipants: events.maxParticipants,
+        coverImageUrl: events.coverImageUrl,
         date: events.date,
         startTime: events.startTime,
         endTime: events.endTime,
         matchingStatus: events.matchingStatus,
         matchingTriggeredAt: events.matchingTriggeredAt,
         matchingCompletedAt: events.matchingCompletedAt,
+        matchingStrategy: events.matchingStrategy,
+        matchingStrategyParams: events.matchingStrategyParams,
+        minCircleSize: events.minCircleSize,
+        maxCircleSize: events.maxCircleSize,
+        circleFormats: events.circleFormats,
+        minOptIns: events.minOptIns,
+        seriesId: events.seriesId,
+        seriesDetached: events.seriesDetached,
+        cancelledAt: events.cancelledAt,
         createdAt: events.createdAt,
       });
 
@@ -677,6 +1020,10 @@ router.delete('/events/:id', requireAdmin, async (req, res) => {
     if (!event) {
       return res.status(404).json({ error: 'Event not found' });
     }
+    // The series would generate a deleted occurrence again
+    if (event.seriesId) {
+      return res.status(400).json({ error: 'This event is part of a series; cancel it instead' });
+    }
 
     // Delete all related data first (due to foreign key constraints)
     await db.delete(circleMembers).where(eq(circleMembers.circleId, 
@@ -684,6 +1031,8 @@ router.delete('/events/:id', requireAdmin, async (req, res) => {
     ));
     await db.delete(circles).where(eq(circles.eventId, eventId));
     await db.delete(matchingPool).where(eq(matchingPool.eventId, eventId));
+    await db.delete(scheduledMatchingRuns).where(eq(scheduledMatchingRuns.eventId, eventId));
+    await db.delete(eventStatusChanges).where(eq(eventStatusChanges.eventId, eventId));
     // participants table no longer exists in new schema
     
     // Delete the event
@@ -696,6 +1045,943 @@ router.delete('/events/:id', requireAdmin, async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/events/{id}/cancel:
+ *   post:
+ *     summary: Cancel an event before it starts (admin only)
+ *     description: Everyone opted in, or every circle member once matched, is notified and pending partner invitations are withdrawn. The event is kept, so a series does not generate it again.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Added to the notification
+ *     responses:
+ *       200:
+ *         description: Event cancelled
+ *       400:
+ *         description: The event has already started, finished or been cancelled
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event not found
+ */
+router.post('/events/:id/cancel', requireAdmin, async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+    const parsed = z.object({ reason: z.string().trim().max(500).optional() }).safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    await EventLifecycleService.transition(eventId, EVENT_STATUS.CANCELLED, {
+      changedBy: (req as any).user.userId,
+      reason: parsed.data.reason,
+    });
+    return res.json({ message: 'Event cancelled' });
+  } catch (error) {
+    return sendSeriesError(res, error, 'Cancel event');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/events/{id}/status:
+ *   post:
+ *     summary: Move an event to another lifecycle status (admin only)
+ *     description: "Allowed moves: draft → open or cancelled; open → draft or cancelled; matched → in_progress or cancelled; in_progress → completed; completed or cancelled → archived. Matching and resets move events in and out of matching and matched."
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [draft, open, in_progress, completed, cancelled, archived]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The event's new status and its history
+ *       400:
+ *         description: The transition is not allowed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event not found
+ */
+router.post('/events/:id/status', requireAdmin, async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+    const parsed = statusChangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    // Matching owns these, so circles and the status never disagree
+    if (parsed.data.status === EVENT_STATUS.MATCHING || parsed.data.status === EVENT_STATUS.MATCHED) {
+      return res.status(400).json({ error: 'Trigger matching to move an event into matching' });
+    }
+    const current = await db.query.events.findFirst({ where: eq(events.id, eventId) });
+    if (current?.matchingStatus === EVENT_STATUS.MATCHED && parsed.data.status === EVENT_STATUS.OPEN) {
+      return res.status(400).json({ error: 'Reset matching to reopen a matched event' });
+    }
+
+    const event = await EventLifecycleService.transition(eventId, parsed.data.status, {
+      changedBy: (req as any).user.userId,
+      reason: parsed.data.reason,
+    });
+    return res.json({
+      status: event.matchingStatus,
+      statusHistory: await EventLifecycleService.getHistory(eventId),
+    });
+  } catch (error) {
+    return sendSeriesError(res, error, 'Change event status');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/events/{id}/award-points:
+ *   post:
+ *     summary: Re-run the completion job for a completed event (admin only)
+ *     description: Members who already have points for the event are skipped, so this never awards twice.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: How many members got points on this run, already had them or were no-shows
+ *       400:
+ *         description: The event has not completed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event not found
+ */
+router.post('/events/:id/award-points', requireAdmin, async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const result = await EventCompletionService.awardEvent(eventId);
+    return res.json(result);
+  } catch (error) {
+    return sendSeriesError(res, error, 'Award event points');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/series:
+ *   get:
+ *     summary: List recurring series that are still running (admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Series with their next open occurrence and opted-in user IDs
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/series', requireAdmin, async (req, res) => {
+  try {
+    const series = await EventSeriesService.listActive();
+    return res.json(series.map(({ optInUserIds, ...entry }) => ({ ...entry, optInCount: optInUserIds.length })));
+  } catch (error) {
+    console.error('Get series error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/series:
+ *   post:
+ *     summary: Create a recurring series (admin only)
+ *     description: Occurrences are created as events up to 90 days ahead, and kept topped up by the scheduler.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - recurrence
+ *               - firstDate
+ *               - startTime
+ *               - endTime
+ *             properties:
+ *               title:
+ *                 type: string
+ *               recurrence:
+ *                 type: string
+ *                 enum: [weekly, biweekly, monthly, nth_weekday]
+ *               nthWeek:
+ *                 type: integer
+ *                 description: For nth_weekday, 1-4 or -1 for the last; the weekday is the first date's
+ *               firstDate:
+ *                 type: string
+ *                 format: date
+ *               lastDate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *               startTime:
+ *                 type: string
+ *               endTime:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Series created, with the number of events generated
+ *       400:
+ *         description: Invalid input data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ */
+router.post('/series', requireAdmin, async (req, res) => {
+  try {
+    const parsed = seriesSchema.partial().required({
+      title: true, recurrence: true, firstDate: true, startTime: true, endTime: true,
+    }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const data = parsed.data;
+    if (data.recurrence === SERIES_RECURRENCE.NTH_WEEKDAY && !data.nthWeek) {
+      return res.status(400).json({ error: 'Choose which week of the month the series falls on' });
+    }
+    if (data.lastDate && data.lastDate < data.firstDate) {
+      return res.status(400).json({ error: 'The last date cannot be before the first date' });
+    }
+    const sizeSettings = {
+      minCircleSize: data.minCircleSize ?? MATCHING_CONFIG.DEFAULT_MIN_CIRCLE_SIZE,
+      maxCircleSize: data.maxCircleSize ?? MATCHING_CONFIG.DEFAULT_MAX_CIRCLE_SIZE,
+      circleFormats: data.circleFormats ?? CIRCLE_FORMAT_MIX.MIXED,
+      minOptIns: data.minOptIns ?? MATCHING_CONFIG.DEFAULT_MIN_OPT_INS,
+    };
+    const settingsError = getMatchingSettingsError(sizeSettings);
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError });
+    }
+    if (data.neighbourhoodId && !(await neighbourhoodExists(data.neighbourhoodId))) {
+      return res.status(400).json({ error: 'Neighbourhood not found' });
+    }
+
+    const { series, eventsCreated } = await EventSeriesService.create({
+      title: data.title,
+      description: data.description ?? null,
+      theme: data.theme ?? null,
+      neighbourhoodId: data.neighbourhoodId ?? null,
+      maxParticipants: data.maxParticipants ?? null,
+      coverImageUrl: data.coverImageUrl ?? null,
+      recurrence: data.recurrence,
+      nthWeek: data.recurrence === SERIES_RECURRENCE.NTH_WEEKDAY ? data.nthWeek ?? null : null,
+      firstDate: data.firstDate,
+      lastDate: data.lastDate ?? null,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      matchingStrategy: data.matchingStrategy ?? MATCHING_STRATEGY.OPTIMIZER,
+      ...sizeSettings,
+    }, (req as any).user.userId);
+
+    return res.status(201).json({ message: 'Series created successfully', series, eventsCreated });
+  } catch (error) {
+    return sendSeriesError(res, error, 'Create series');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/series/{id}:
+ *   put:
+ *     summary: Update a recurring series (admin only)
+ *     description: Changes apply to upcoming open occurrences that haven't been edited on their own. Setting an earlier lastDate ends the series and cancels the open occurrences after it.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Series ID
+ *     responses:
+ *       200:
+ *         description: The updated series with how many events were updated and cancelled
+ *       400:
+ *         description: Invalid input data, or no changes given
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Series not found
+ */
+router.put('/series/:id', requireAdmin, async (req, res) => {
+  try {
+    const seriesId = parseInt(req.params.id);
+    if (isNaN(seriesId)) {
+      return res.status(400).json({ error: 'Invalid series ID' });
+    }
+    // The rule itself is fixed; a different rhythm is a new series
+    const parsed = seriesSchema.omit({ recurrence: true, nthWeek: true, firstDate: true }).partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const changes = Object.fromEntries(
+      Object.entries(parsed.data).filter(([, value]) => value !== undefined)
+    ) as typeof parsed.data;
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'No changes to apply' });
+    }
+
+    const series = await db.query.eventSeries.findFirst({ where: eq(eventSeries.id, seriesId) });
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+    if (changes.lastDate && changes.lastDate < series.firstDate) {
+      return res.status(400).json({ error: 'The last date cannot be before the first date' });
+    }
+    const settingsError = getMatchingSettingsError({
+      minCircleSize: changes.minCircleSize ?? series.minCircleSize,
+      maxCircleSize: changes.maxCircleSize ?? series.maxCircleSize,
+      circleFormats: changes.circleFormats ?? series.circleFormats,
+      minOptIns: changes.minOptIns ?? series.minOptIns,
+    });
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError });
+    }
+    if (changes.neighbourhoodId && !(await neighbourhoodExists(changes.neighbourhoodId))) {
+      return res.status(400).json({ error: 'Neighbourhood not found' });
+    }
+
+    const result = await EventSeriesService.update(seriesId, changes);
+    return res.json(result);
+  } catch (error) {
+    return sendSeriesError(res, error, 'Update series');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/events/{id}/circles/move:
+ *   post:
+ *     summary: Move a member to another circle (admin only)
+ *     description: The member keeps their role when it fits the new circle, otherwise joins hosted circles as a participant. Both circles are rescored and their chats notified.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - circleId
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *               circleId:
+ *                 type: integer
+ *                 description: Circle to move the member into
+ *               role:
+ *                 type: string
+ *                 enum: [host, participant, starter, main, dessert]
+ *     responses:
+ *       200:
+ *         description: The event's circles after the edit
+ *       400:
+ *         description: Invalid input or the edit would break a circle rule
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event or circle not found
+ */
+router.post('/events/:id/circles/move', requireAdmin, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const eventId = parseInt(req.params.id);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const parsed = moveMemberSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    const eventCircles = await CircleEditingService.moveMember(
+      eventId, user.userId, parsed.data.userId, parsed.data.circleId, parsed.data.role
+    );
+    return res.json({ message: 'Member moved successfully', circles: eventCircles });
+  } catch (error) {
+    return sendCircleEditError(res, error, 'Move circle member');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/events/{id}/circles/swap:
+ *   post:
+ *     summary: Swap two members of different circles (admin only)
+ *     description: Each member takes over the other's role, so hosts and courses stay covered.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - otherUserId
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *               otherUserId:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: The event's circles after the edit
+ *       400:
+ *         description: Invalid input or the edit would break a circle rule
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event not found
+ */
+router.post('/events/:id/circles/swap', requireAdmin, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const eventId = parseInt(req.params.id);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const parsed = swapMembersSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    const eventCircles = await CircleEditingService.swapMembers(
+      eventId, user.userId, parsed.data.userId, parsed.data.otherUserId
+    );
+    return res.json({ message: 'Members swapped successfully', circles: eventCircles });
+  } catch (error) {
+    return sendCircleEditError(res, error, 'Swap circle members');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/events/{id}/circles/role:
+ *   post:
+ *     summary: Change a member's role in their circle (admin only)
+ *     description: Whoever held the role takes the member's old one - a new host replaces the old host, and rotating households trade courses.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - role
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *               role:
+ *                 type: string
+ *                 enum: [host, participant, starter, main, dessert]
+ *     responses:
+ *       200:
+ *         description: The event's circles after the edit
+ *       400:
+ *         description: Invalid input or the edit would break a circle rule
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event not found
+ */
+router.post('/events/:id/circles/role', requireAdmin, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const eventId = parseInt(req.params.id);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const parsed = changeRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    const eventCircles = await CircleEditingService.changeRole(eventId, user.userId, parsed.data.userId, parsed.data.role);
+    return res.json({ message: 'Role changed successfully', circles: eventCircles });
+  } catch (error) {
+    return sendCircleEditError(res, error, 'Change circle role');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/events/{id}/circles/add:
+ *   post:
+ *     summary: Add an unplaced opt-in to a circle (admin only)
+ *     description: Seats someone from the event's matching pool who is not in a circle yet, and takes them off the waitlist. The circle's kitchens and venues must suit them, as in a matching run.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - circleId
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *               circleId:
+ *                 type: integer
+ *               role:
+ *                 type: string
+ *                 enum: [host, participant, starter, main, dessert]
+ *     responses:
+ *       200:
+ *         description: The event's circles after the edit
+ *       400:
+ *         description: Invalid input, user not in the pool or the edit would break a circle rule
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event or circle not found
+ */
+router.post('/events/:id/circles/add', requireAdmin, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const eventId = parseInt(req.params.id);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const parsed = moveMemberSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    const eventCircles = await CircleEditingService.addMember(
+      eventId, user.userId, parsed.data.userId, parsed.data.circleId, parsed.data.role
+    );
+    return res.json({ message: 'Member added successfully', circles: eventCircles });
+  } catch (error) {
+    return sendCircleEditError(res, error, 'Add circle member');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/events/{id}/circles/split:
+ *   post:
+ *     summary: Split members off a circle into a new circle (admin only)
+ *     description: The new circle has the same format. Moved members keep their role unless a new one is given; both circles must still follow the circle rules.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - circleId
+ *               - members
+ *             properties:
+ *               circleId:
+ *                 type: integer
+ *               members:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     userId:
+ *                       type: integer
+ *                     role:
+ *                       type: string
+ *                       enum: [host, participant, starter, main, dessert]
+ *               name:
+ *                 type: string
+ *                 description: Name of the new circle
+ *     responses:
+ *       200:
+ *         description: The event's circles after the edit
+ *       400:
+ *         description: Invalid input or the edit would break a circle rule
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event or circle not found
+ */
+router.post('/events/:id/circles/split', requireAdmin, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const eventId = parseInt(req.params.id);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const parsed = splitCircleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    const eventCircles = await CircleEditingService.splitCircle(
+      eventId, user.userId, parsed.data.circleId, parsed.data.members, parsed.data.name
+    );
+    return res.json({ message: 'Circle split successfully', circles: eventCircles });
+  } catch (error) {
+    return sendCircleEditError(res, error, 'Split circle');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/events/{id}/circles/merge:
+ *   post:
+ *     summary: Merge one circle into another (admin only)
+ *     description: Every member moves into the target circle, which keeps its own host. The emptied circle is removed and its chat history moves with its members.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - circleId
+ *               - intoCircleId
+ *             properties:
+ *               circleId:
+ *                 type: integer
+ *                 description: Circle to merge and remove
+ *               intoCircleId:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: The event's circles after the edit
+ *       400:
+ *         description: Invalid input or the edit would break a circle rule
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event or circle not found
+ */
+router.post('/events/:id/circles/merge', requireAdmin, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const eventId = parseInt(req.params.id);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const parsed = mergeCirclesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    const eventCircles = await CircleEditingService.mergeCircles(
+      eventId, user.userId, parsed.data.circleId, parsed.data.intoCircleId
+    );
+    return res.json({ message: 'Circles merged successfully', circles: eventCircles });
+  } catch (error) {
+    return sendCircleEditError(res, error, 'Merge circles');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/exclusions:
+ *   get:
+ *     summary: List pairs of users kept out of the same circle (admin only)
+ *     description: Only admin exclusions are listed; blocks members place on each other stay private to them
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Admin exclusions, newest first
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/exclusions', requireAdmin, async (req, res) => {
+  try {
+    const exclusions = await BlockService.listExclusions();
+    return res.json(exclusions);
+  } catch (error) {
+    console.error('Get exclusions error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/exclusions:
+ *   post:
+ *     summary: Keep two users out of the same circle in every future matching (admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [userId, otherUserId, reason]
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *               otherUserId:
+ *                 type: integer
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Exclusion added
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: User not found
+ */
+router.post('/exclusions', requireAdmin, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const parsed = exclusionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    await BlockService.addExclusion(user.userId, parsed.data.userId, parsed.data.otherUserId, parsed.data.reason);
+    return res.json({ message: 'Exclusion added successfully' });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message === 'A user cannot be excluded from themselves') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Add exclusion error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/exclusions/{id}:
+ *   delete:
+ *     summary: Remove an admin exclusion (admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Exclusion removed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Exclusion not found
+ */
+router.delete('/exclusions/:id', requireAdmin, async (req, res) => {
+  try {
+    const exclusionId = parseInt(req.params.id);
+
+    if (isNaN(exclusionId)) {
+      return res.status(400).json({ error: 'Invalid exclusion ID' });
+    }
+
+    await BlockService.removeExclusion(exclusionId);
+    return res.json({ message: 'Exclusion removed successfully' });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Exclusion not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Remove exclusion error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/matching-schedule:
+ *   get:
+ *     summary: Get upcoming matching deadlines and recent scheduled runs (admin only)
+ *     description: Open events are matched automatically once their deadline passes. Runs are skipped when the pool is below the event's minimum opt-ins and retried on transient failures.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Upcoming deadlines and scheduled run history
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/matching-schedule', requireAdmin, async (req, res) => {
+  try {
+    const overview = await MatchingScheduler.getOverview();
+    return res.json(overview);
+  } catch (error) {
+    console.error('Get matching schedule error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /api/admin/analytics:
@@ -1,13 +1,21 @@
 import express from 'express';
 import { z } from 'zod';
 import { db } from '../db/client';
-import { events, users } from '../db/schema';
+import { events, users, neighbourhoods } from '../db/schema';
 import { eq, and, desc, sql } from 'drizzle-orm';
 import { getCurrentUser, requireAuth } from '../auth';
+import { EventSeriesService } from '../services/eventSeries';
+import { EVENT_STATUS, UPCOMING_EVENT_STATUSES, PAST_EVENT_STATUSES } from '../config/constants';
 
 const router = express.Router();
 
 const createEventSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(5000).optional(),
+  theme: z.string().trim().max(100).optional(),
+  neighbourhoodId: z.number().int().positive().optional(),
+  maxParticipants: z.number().int().min(2).optional(),
+  coverImageUrl: z.string().url().max(500).optional(),
   date: z.string(),
   startTime: z.string(),
   endTime: z.string(),
@@ -20,6 +28,24 @@ const joinEventSchema = z.object({
   partnerId: z.number().optional(),
 });
 
+type EventWithNeighbourhood = typeof events.$inferSelect & { neighbourhood: typeof neighbourhoods.$inferSelect | null };
+
+// What participants see about an event in every listing
+function describeEvent(event: EventWithNeighbourhood) {
+  return {
+    title: event.title,
+    description: event.description,
+    theme: event.theme,
+    neighbourhood: event.neighbourhood?.name ?? null,
+    coverImageUrl: event.coverImageUrl,
+  };
+}
+
+// Opt-ins still accepted, or null when the event has no limit
+function getSpotsRemaining(event: typeof events.$inferSelect, optInCount: number): number | null {
+  return event.maxParticipants === null ? null : Math.max(0, event.maxParticipants - optInCount);
+}
+
 /**
  * @swagger
  * /api/events/my-events:
@@ -44,7 +70,11 @@ router.get('/my-events', requireAuth, async (req, res) => {
       with: {
         circle: {
           with: {
-            event: true,
+            event: {
+              with: {
+                neighbourhood: true,
+              },
+            },
           },
         },
       },
@@ -52,13 +82,11 @@ router.get('/my-events', requireAuth, async (req, res) => {
 
     const eventsWithCircles = userCircles.map(circleMember => ({
       id: circleMember.circle.event.id,
-      title: `Dinner Event - ${new Date(circleMember.circle.event.date).toLocaleDateString()}`,
-      description: `Join us for dinner on ${new Date(circleMember.circle.event.date).toLocaleDateString()} from ${circleMember.circle.event.startTime} to ${circleMember.circle.event.endTime}`,
+      ...describeEvent(circleMember.circle.event),
       date: circleMember.circle.event.date,
       startTime: circleMember.circle.event.startTime,
       endTime: circleMember.circle.event.endTime,
       format: circleMember.circle.format,
-      neighbourhood: 'TBD', // Will be determined by matching
       role: circleMember.role,
       circleName: circleMember.circle.name,
       createdAt: circleMember.circle.event.createdAt,
@@ -97,21 +125,18 @@ router.get('/my-opted-in', requireAuth, async (req, res) => {
       },
     });
 
-    // Filter to only include future events that are still open for matching
+    // Only events still open for matching, or upcoming ones where the user was waitlisted
     const futureOptedInEvents = optedInEvents
-      .filter(optIn => {
-        const eventDate = new Date(optIn.event.date);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        
-        return eventDate > today && optIn.event.matchingStatus === 'open';
-      })
+      .filter(optIn => optIn.event.matchingStatus === EVENT_STATUS.OPEN
+        || (optIn.waitlistedAt !== null && UPCOMING_EVENT_STATUSES.includes(optIn.event.matchingStatus)))
       .map(optIn => ({
         id: optIn.event.id,
+        title: optIn.event.title,
         date: optIn.event.date,
         startTime: optIn.event.startTime,
         endTime: optIn.event.endTime,
         matchingStatus: optIn.event.matchingStatus,
+        waitlisted: optIn.waitlistedAt !== null,
         createdAt: optIn.event.createdAt,
       }));
 
@@ -157,14 +182,9 @@ router.get('/my-past-events', requireAuth, async (req, res) => {
       },
     });
 
-    // Filter to only include past events and transform the data
+    // Filter to only include events that have happened and transform the data
     const pastEvents = userCircles
-      .filter(circleMember => {
-        const eventDate = new Date(circleMember.circle.event.date);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        return eventDate < today;
-      })
+      .filter(circleMember => PAST_EVENT_STATUSES.includes(circleMember.circle.event.matchingStatus))
       .map(async (circleMember) => {
         // Get user's rating for this event
         const rating = await db.query.eventRatings.findFirst({
@@ -277,6 +297,46 @@ router.get('/partners/search', async (req, res) => {
 });
 
 
+/**
+ * @swagger
+ * /api/events/series:
+ *   get:
+ *     summary: Get recurring dinner series that are still running
+ *     description: When called with a token, each series says whether the current user is opted in to it.
+ *     tags: [Events]
+ *     responses:
+ *       200:
+ *         description: List of series with their next open date
+ */
+router.get('/series', async (req, res) => {
+  try {
+    const user = getCurrentUser(req);
+    const series = await EventSeriesService.listActive();
+
+    return res.json(series.map(({ optInUserIds, ...entry }) => ({
+      id: entry.id,
+      title: entry.title,
+      description: entry.description,
+      theme: entry.theme,
+      neighbourhood: entry.neighbourhood,
+      coverImageUrl: entry.coverImageUrl,
+      recurrence: entry.recurrence,
+      nthWeek: entry.nthWeek,
+      firstDate: entry.firstDate,
+      lastDate: entry.lastDate,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      nextDate: entry.nextDate,
+      upcomingCount: entry.upcomingCount,
+      optInCount: optInUserIds.length,
+      isOptedIn: !!user && optInUserIds.includes(user.userId),
+    })));
+  } catch (error) {
+    console.error('Get series error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /api/events:
@@ -289,13 +349,11 @@ router.get('/partners/search', async (req, res) => {
  */
 router.get('/', async (req, res) => {
   try {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Start of today
-    
     const upcomingEvents = await db.query.events.findMany({
-      where: (e, { gte }) => gte(e.date, today.toISOString().split('T')[0]),
+      where: (e, { inArray }) => inArray(e.matchingStatus, UPCOMING_EVENT_STATUSES),
       orderBy: [events.date],
       with: {
+        neighbourhood: true,
         matchingPool: true,
         circles: true,
       },
@@ -304,20 +362,19 @@ router.get('/', async (req, res) => {
     // Transform events for the new matching system
     const eventsWithSpots = upcomingEvents.map(event => ({
       id: event.id,
-      title: `Dinner Event - ${new Date(event.date).toLocaleDateString()}`,
-      description: `Join us for dinner on ${new Date(event.date).toLocaleDateString()} from ${event.startTime} to ${event.endTime}`,
+      ...describeEvent(event),
       date: event.date,
       startTime: event.startTime,
       endTime: event.endTime,
-      totalSpots: 0, // No longer relevant in matching system
-      spotsRemaining: 0, // No longer relevant in matching system
+      maxParticipants: event.maxParticipants,
+      spotsRemaining: getSpotsRemaining(event, event.matchingPool.length),
       format: 'matching', // All events are now matching-based
-      neighbourhood: 'TBD', // Will be determined by matching
       isWaitlist: false, // No longer relevant in matching system
       createdAt: event.createdAt,
       matchingStatus: event.matchingStatus,
       optInCount: event.matchingPool.length,
       circleCount: event.circles.length,
+      seriesId: event.seriesId,
     }));
 
     return res.json(eventsWithSpots);
@@ -362,14 +419,9 @@ router.get('/my-matched-events', requireAuth, async (req, res) => {
       },
     });
 
-    // Filter to only include future events and transform the data
+    // Filter to only include events still to come and transform the data
     const futureMatchedEvents = userCircles
-      .filter(circleMember => {
-        const eventDate = new Date(circleMember.circle.event.date);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        return eventDate > today;
-      })
+      .filter(circleMember => UPCOMING_EVENT_STATUSES.includes(circleMember.circle.event.matchingStatus))
       .map(circleMember => ({
         id: circleMember.circle.event.id,
         date: circleMember.circle.event.date,
@@ -434,11 +486,11 @@ router.get('/:id/my-participation', requireAuth, async (req, res) => {
 
     // Check if user is opted in for this event
     const optIn = await db.query.matchingPool.findFirst({
-      where: (mp, { and, eq }) => and(eq(mp.eventId, eventId), eq(mp.userId, user.userId)),
+      where: (mp, { and, eq, isNull }) => and(eq(mp.eventId, eventId), eq(mp.userId, user.userId), isNull(mp.withdrawnAt)),
     });
 
     if (!optIn) {
-      return res.json(null); // Return null instead of 404
+      return res.json(null); // Return null instead of 404 (also once the user has withdrawn)
     }
 
     // Get partner information if exists
@@ -503,27 +555,27 @@ router.get('/:id', async (req, res) => {
     const event = await db.query.events.findFirst({
       where: (e, { eq }) => eq(e.id, eventId),
       with: {
+        neighbourhood: true,
         matchingPool: true,
         circles: true,
       },
     });
 
-    if (!event) {
+    // Drafts stay hidden until they are published
+    if (!event || event.matchingStatus === EVENT_STATUS.DRAFT) {
       return res.status(404).json({ error: 'Event not found' });
     }
 
     // Transform the response for the new matching system
     const eventWithDetails = {
       id: event.id,
-      title: `Dinner Event - ${new Date(event.date).toLocaleDateString()}`,
-      description: `Join us for dinner on ${new Date(event.date).toLocaleDateString()} from ${event.startTime} to ${event.endTime}`,
+      ...describeEvent(event),
       date: event.date,
       startTime: event.startTime,
       endTime: event.endTime,
       format: 'matching', // All events are now matching-based
-      neighbourhood: 'TBD', // Will be determined by matching
-      totalSpots: 0, // No longer relevant in matching system
-      spotsRemaining: 0, // No longer relevant in matching system
+      maxParticipants: event.maxParticipants,
+      spotsRemaining: getSpotsRemaining(event, event.matchingPool.length),
       createdAt: event.createdAt,
       matchingStatus: event.matchingStatus,
       optInCount: event.matchingPool.length,
@@ -1,21 +1,102 @@
 import express from 'express';
 import { z } from 'zod';
 import { db } from '../db/client';
-import { matchingPool, events, users } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { matchingPool, events, emailNotifications } from '../db/schema';
+import { eq, and, count, isNull } from 'drizzle-orm';
 import { requireAuth, requireAdmin, getCurrentUser } from '../auth';
 import { MatchingService } from '../services/matching';
-import { MATCHING_CONFIG } from '../config/constants';
+import { ItineraryService } from '../services/itinerary';
+import { GeocodingService } from '../services/geocoding';
+import { HouseholdService } from '../services/households';
+import { PartnerInvitationService, InvitationError } from '../services/partnerInvitations';
+import { EventSeriesService, SeriesError } from '../services/eventSeries';
+import { EventLifecycleError } from '../services/eventLifecycle';
+import { CircleEditingService, CircleEditError } from '../services/circleEditing';
+import { AttendanceService, AttendanceError } from '../services/attendance';
+import { listMatchingStrategies } from '../services/matchingStrategies';
+import { MATCHING_CONFIG, MATCHING_STRATEGY, EVENT_STATUS, SMOKING_POLICY, ROTATING_COURSES, ATTENDANCE_STATUS } from '../config/constants';
 
 const router = express.Router();
 
 // Schema for opt-in request
 const optInSchema = z.object({
-  partnerEmail: z.string().email().optional(),
+  withPartner: z.boolean().default(false), // Opt the user's household partner in too
+  partnerEmail: z.string().email().optional(), // Invite a partner, who joins once they accept
+
   matchAddress: z.string().optional(),
   hostingAvailable: z.boolean().default(false),
+  // Differences from the user's venue profile for this event only
+  venueOverride: z.object({
+    maxSeats: z.number().int().min(2).nullable(),
+    hasPets: z.boolean(),
+    stepFree: z.boolean(),
+    smokingPolicy: z.enum(Object.values(SMOKING_POLICY) as [string, ...string[]]),
+    suitedCourses: z.array(z.enum(ROTATING_COURSES)),
+  }).partial().optional(),
+}).refine(data => !(data.withPartner && data.partnerEmail), {
+  message: 'Opt in with your household partner or invite someone, not both',
+  path: ['partnerEmail'],
+});
+
+// Schema for previewing with a strategy other than the event's own
+const previewSchema = z.object({
+  strategy: z.enum(Object.values(MATCHING_STRATEGY) as [string, ...string[]]).optional(),
+  params: z.object({
+    maxPasses: z.number().int().min(0).max(500).optional(),
+    seed: z.number().int().nonnegative().optional(),
+  }).optional(),
+});
+
+// Schema for committing a previewed matching proposal
+const triggerSchema = z.object({
+  proposalId: z.number().int().positive().optional(),
+});
+
+// Schema for resetting an event's matching
+const resetSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required'),
+});
+
+// Schema for placing a waitlisted user in a circle
+const placeSchema = z.object({
+  userId: z.number().int().positive(),
+  circleId: z.number().int().positive(),
+});
+
+// Schema for a host marking a member's attendance
+const attendanceSchema = z.object({
+  status: z.enum([ATTENDANCE_STATUS.ATTENDED, ATTENDANCE_STATUS.NO_SHOW]),
+});
+
+// Schema for checking in with the code the host shows
+const checkInSchema = z.object({
+  code: z.string().trim().min(1, 'Enter the check-in code'),
 });
 
+// Map attendance failures to responses: unknown circle, a mark that isn't allowed, or an unexpected error
+function sendAttendanceError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof Error && error.message === 'Circle not found') {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof AttendanceError) {
+    return res.status(403).json({ error: error.message });
+  }
+  console.error(`${action} error:`, error);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
+// Map invitation failures to responses: unknown token, an invitation that can't be answered, or an unexpected error
+function sendInvitationError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof Error && error.message === 'Invitation not found') {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof InvitationError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${action} error:`, error);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
 // Schema for opt-out request
 const optOutSchema = z.object({
   // No additional fields needed for opt-out
@@ -43,21 +124,28 @@ const optOutSchema = z.object({
  *           schema:
  *             type: object
  *             properties:
- *               partnerId:
- *                 type: integer
- *                 description: Partner's user ID (optional)
+ *               withPartner:
+ *                 type: boolean
+ *                 description: Opt the user's confirmed household partner in too
+ *               partnerEmail:
+ *                 type: string
+ *                 format: email
+ *                 description: Email a partner an invitation; they join this opt-in once they accept
  *               matchAddress:
  *                 type: string
  *                 description: Address for matching (optional)
  *               hostingAvailable:
  *                 type: boolean
  *                 description: Whether user can host
+ *               venueOverride:
+ *                 type: object
+ *                 description: Venue details that differ from the user's profile for this event (maxSeats, hasPets, stepFree, smokingPolicy, suitedCourses)
 
  *     responses:
  *       200:
  *         description: Successfully opted in
  *       400:
- *         description: Invalid input or already opted in
+ *         description: Invalid input or already opted in, or the event is full
  *       401:
  *         description: Unauthorized
  *       404:
@@ -86,95 +174,115 @@ router.post('/opt-in/:eventId', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Event not found' });
     }
 
-    if (event.matchingStatus !== 'open') {
+    if (event.matchingStatus !== EVENT_STATUS.OPEN) {
       return res.status(400).json({ error: 'Event is not open for matching' });
     }
 
-    // Check if user is already opted in
-    const existingOptIn = await db.query.matchingPool.findFirst({
-      where: (mp, { and, eq }) => and(
-        eq(mp.eventId, eventId),
-        eq(mp.userId, user.userId)
-      ),
-    });
-
-    if (existingOptIn) {
-      return res.status(400).json({ error: 'Already opted in for this event' });
+    // Opting in as a household opts the confirmed partner in too, sharing the address
+    let partnerId: number | null = null;
+    let householdId: number | null = null;
+    if (parsed.data.withPartner) {
+      const household = await HouseholdService.getActivePartnerId(user.userId);
+      if (!household) {
+        return res.status(400).json({ error: 'You are not in a household; link a partner from your profile first' });
+      }
+      partnerId = household.partnerId;
+      householdId = household.householdId;
     }
 
-    // If partner email is specified, find or create partner and create opt-in for partner too
-    let partnerId: number | null = null;
-    if (parsed.data.partnerEmail) {
-      // Check if user already exists
-      let partner = await db.query.users.findFirst({
-        where: (u, { eq }) => eq(u.email, parsed.data.partnerEmail!),
-        columns: {
-          id: true,
-          name: true,
-          email: true,
-        },
-      });
-
-      if (!partner) {
-        // User doesn't exist, create guest user
-        const guestUser = await db.insert(users).values({
-          email: parsed.data.partnerEmail!,
-          name: 'Guest',
-          username: `guest_${Date.now()}`, // Temporary username
-          passwordHash: '', // No password for guest users
-          role: 'user',
-        }).returning({
-          id: users.id,
-          name: users.name,
-          email: users.email,
-        });
+    // Locate the match address for proximity matching (null if it can't be geocoded)
+    const coordinates = await GeocodingService.geocode(parsed.data.matchAddress);
 
-        partner = guestUser[0];
-        
-        // TODO: Send email notification to the partner
-        console.log(`📧 Email notification would be sent to ${parsed.data.partnerEmail} about being added as a partner`);
+    // The user, their partner and any invitation are opted in together or not at all
+    const result = await db.transaction(async (tx) => {
+      // Locking the event makes concurrent opt-ins take turns, so the participant limit holds
+      const [lockedEvent] = await tx.select().from(events).where(eq(events.id, eventId)).for('update');
+      if (lockedEvent.matchingStatus !== EVENT_STATUS.OPEN) {
+        return { error: 'Event is not open for matching' };
       }
 
-      partnerId = partner.id;
+      const [existingOptIn] = await tx.select({ id: matchingPool.id }).from(matchingPool)
+        .where(and(eq(matchingPool.eventId, eventId), eq(matchingPool.userId, user.userId)));
+      if (existingOptIn) {
+        return { error: 'Already opted in for this event' };
+      }
 
-      // Check if partner is already opted in
-      const partnerOptIn = await db.query.matchingPool.findFirst({
-        where: (mp, { and, eq }) => and(
-          eq(mp.eventId, eventId),
-          eq(mp.userId, partnerId!)
-        ),
-      });
+      const partnerOptIn = partnerId === null ? undefined : (await tx.select({ id: matchingPool.id }).from(matchingPool)
+        .where(and(eq(matchingPool.eventId, eventId), eq(matchingPool.userId, partnerId))))[0];
 
-      if (partnerOptIn) {
-        return res.status(400).json({ error: 'Partner is already opted in for this event' });
+      // Events with a participant limit stop taking opt-ins once full; members who withdrew have given up their spot
+      if (lockedEvent.maxParticipants !== null) {
+        const [{ optInCount }] = await tx.select({ optInCount: count() }).from(matchingPool)
+          .where(and(eq(matchingPool.eventId, eventId), isNull(matchingPool.withdrawnAt)));
+        if (optInCount >= lockedEvent.maxParticipants) {
+          return { error: 'This event is full' };
+        }
+        // A partner who has not opted in yet takes a second spot
+        if (partnerId !== null && !partnerOptIn && optInCount + 2 > lockedEvent.maxParticipants) {
+          return { error: 'This event only has one spot left' };
+        }
       }
 
-      // Create opt-in for partner
-      await db.insert(matchingPool).values({
+      // Create opt-in for main user
+      const [optIn] = await tx.insert(matchingPool).values({
         eventId,
-        userId: partnerId,
-        partnerId: user.userId, // Link back to main user
+        userId: user.userId,
+        partnerId,
+        householdId,
         matchAddress: parsed.data.matchAddress,
-        hostingAvailable: false, // Partner doesn't host by default
-      });
-    }
+        matchLatitude: coordinates?.latitude,
+        matchLongitude: coordinates?.longitude,
+        hostingAvailable: parsed.data.hostingAvailable,
+        venueOverride: parsed.data.venueOverride,
+      }).returning();
 
-    // Create opt-in for main user
-    const [optIn] = await db.insert(matchingPool).values({
-      eventId,
-      userId: user.userId,
-      partnerId: partnerId,
-      matchAddress: parsed.data.matchAddress,
-      hostingAvailable: parsed.data.hostingAvailable,
-    }).returning();
+      if (partnerId !== null && partnerOptIn) {
+        // The partner already opted in on their own; join them
+        await tx.update(matchingPool)
+          .set({ partnerId: user.userId, householdId })
+          .where(eq(matchingPool.id, partnerOptIn.id));
+      } else if (partnerId !== null) {
+        await tx.insert(matchingPool).values({
+          eventId,
+          userId: partnerId,
+          partnerId: user.userId,
+          householdId,
+          matchAddress: parsed.data.matchAddress,
+          matchLatitude: coordinates?.latitude,
+          matchLongitude: coordinates?.longitude,
+          hostingAvailable: false, // Partner doesn't host by default
+        });
+        await tx.insert(emailNotifications).values({
+          userId: partnerId,
+          type: 'partner_opt_in',
+          subject: 'Your partner opted you both in to a dinner',
+          body: `Your partner has opted your household in to the dinner on ${lockedEvent.date}. `
+            + `You can opt out from the events page if you can't make it.`,
+        });
+      }
+
+      // An invited partner is only opted in once they accept, so the user starts out on their own
+      const invitation = parsed.data.partnerEmail
+        ? await PartnerInvitationService.invite(eventId, user.userId, parsed.data.partnerEmail, tx)
+        : null;
+
+      return { error: null, optIn, invitation };
+    });
+
+    if (result.error !== null) {
+      return res.status(400).json({ error: result.error });
+    }
+    const { optIn, invitation } = result;
 
     return res.json({
-      message: 'Successfully opted in for matching',
+      message: invitation
+        ? `Successfully opted in for matching; we've invited ${invitation.inviteeEmail} to join you`
+        : 'Successfully opted in for matching',
       optIn,
+      invitation: invitation && { status: invitation.status, inviteeEmail: invitation.inviteeEmail, expiresAt: invitation.expiresAt },
     });
   } catch (error) {
-    console.error('Opt-in error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendInvitationError(res, error, 'Opt-in');
   }
 });
 
@@ -233,6 +341,11 @@ router.post('/opt-out/:eventId', requireAuth, async (req, res) => {
       return res.status(400).json({ error: 'Not opted in for this event' });
     }
 
+    // Once circles exist a seat has to be handed back through the withdrawal flow
+    if (event.matchingStatus !== EVENT_STATUS.OPEN) {
+      return res.status(400).json({ error: 'Matching has already run for this event; withdraw from your circle instead' });
+    }
+
     // Remove opt-in
     await db.delete(matchingPool).where(and(
       eq(matchingPool.eventId, eventId),
@@ -242,12 +355,13 @@ router.post('/opt-out/:eventId', requireAuth, async (req, res) => {
     // If user had a partner, update partner's opt-in to remove the partnership
     if (optIn.partnerId) {
       await db.update(matchingPool)
-        .set({ partnerId: null })
+        .set({ partnerId: null, householdId: null })
         .where(and(
           eq(matchingPool.eventId, eventId),
           eq(matchingPool.userId, optIn.partnerId)
         ));
     }
+    await PartnerInvitationService.cancelForOptIn(eventId, user.userId);
 
     return res.json({
       message: 'Successfully opted out of matching',
@@ -258,6 +372,185 @@ router.post('/opt-out/:eventId', requireAuth, async (req, res) => {
   }
 });
 
+// Schema for opting in to every occurrence of a series
+const seriesOptInSchema = z.object({
+  withPartner: z.boolean().default(false), // Opt the user's household partner in too
+  matchAddress: z.string().optional(),
+  hostingAvailable: z.boolean().default(false),
+});
+
+// Map series opt-in failures to responses
+function sendSeriesError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof Error && error.message === 'Series not found') {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof SeriesError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${action} error:`, error);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
+/**
+ * @swagger
+ * /api/matching/series/{seriesId}/opt-in:
+ *   post:
+ *     summary: Opt in to every upcoming dinner of a recurring series
+ *     description: Opts the user in to each open occurrence now and to each one generated later. Occurrences that are full are skipped.
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Series ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               withPartner:
+ *                 type: boolean
+ *                 description: Opt the user's confirmed household partner in too
+ *               matchAddress:
+ *                 type: string
+ *               hostingAvailable:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Opted in, with how many occurrences were joined and how many were full
+ *       400:
+ *         description: Invalid input, already opted in, or the series has ended
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Series not found
+ */
+router.post('/series/:seriesId/opt-in', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const seriesId = parseInt(req.params.seriesId);
+    if (isNaN(seriesId)) {
+      return res.status(400).json({ error: 'Invalid series ID' });
+    }
+
+    const parsed = seriesOptInSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    const { eventsJoined, eventsFull } = await EventSeriesService.optIn(seriesId, user.userId, parsed.data);
+    return res.json({
+      message: eventsFull > 0
+        ? `Opted in to the series; ${eventsFull} upcoming dinner${eventsFull === 1 ? ' was' : 's were'} already full`
+        : 'Opted in to the series',
+      eventsJoined,
+      eventsFull,
+    });
+  } catch (error) {
+    return sendSeriesError(res, error, 'Series opt-in');
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/series/{seriesId}/opt-out:
+ *   post:
+ *     summary: Leave a recurring series
+ *     description: Also opts the user out of its upcoming occurrences that haven't been matched yet.
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Series ID
+ *     responses:
+ *       200:
+ *         description: Left the series
+ *       400:
+ *         description: Not opted in to this series
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/series/:seriesId/opt-out', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const seriesId = parseInt(req.params.seriesId);
+    if (isNaN(seriesId)) {
+      return res.status(400).json({ error: 'Invalid series ID' });
+    }
+
+    const { eventsLeft } = await EventSeriesService.optOut(seriesId, user.userId);
+    return res.json({ message: 'Left the series', eventsLeft });
+  } catch (error) {
+    return sendSeriesError(res, error, 'Series opt-out');
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/withdraw/{eventId}:
+ *   post:
+ *     summary: Withdraw from your circle after matching
+ *     description: Marks the member withdrawn and gives their seat to the best-fitting unplaced opt-in. If the host withdraws, a new host is chosen from the members or newcomer who volunteered to host; guests the new host cannot cater for are waitlisted, and without a host, or if too few members are left, the circle is dissolved and its members waitlisted. Otherwise the circle is told in its chat.
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Withdrawn successfully, with the replacement and new host if any
+ *       400:
+ *         description: Not in a circle for this event, or the event has started
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Event not found
+ */
+router.post('/withdraw/:eventId', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const eventId = parseInt(req.params.eventId);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const result = await MatchingService.withdrawFromCircle(eventId, user.userId);
+
+    return res.json({
+      message: 'You have withdrawn from your circle',
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Event not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && (
+      error.message === 'You are not in a circle for this event' ||
+      error.message === 'The event has already started'
+    )) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Withdraw error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /api/matching/status/{eventId}:
@@ -301,9 +594,11 @@ router.get('/status/:eventId', requireAuth, async (req, res) => {
 
     // Check if user is opted in
     const isOptedIn = await MatchingService.isUserOptedIn(eventId, user.userId);
+    const status = await MatchingService.getUserMatchStatus(eventId, user.userId);
 
     // Get user's circle if matched
-    const userCircle = event.matchingStatus === 'closed' 
+    const hasCircles = ([EVENT_STATUS.MATCHED, EVENT_STATUS.IN_PROGRESS, EVENT_STATUS.COMPLETED] as string[]).includes(event.matchingStatus);
+    const userCircle = hasCircles
       ? await MatchingService.getUserCircle(eventId, user.userId)
       : null;
 
@@ -320,6 +615,7 @@ router.get('/status/:eventId', requireAuth, async (req, res) => {
       matchingTriggeredAt: event.matchingTriggeredAt,
       matchingCompletedAt: event.matchingCompletedAt,
       isOptedIn,
+      status,
       userCircle,
       poolCount,
     });
@@ -331,9 +627,30 @@ router.get('/status/:eventId', requireAuth, async (req, res) => {
 
 /**
  * @swagger
- * /api/matching/trigger/{eventId}:
+ * /api/matching/strategies:
+ *   get:
+ *     summary: List the available matching strategies (admin only)
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Strategy names and descriptions
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/strategies', requireAdmin, (req, res) => {
+  return res.json({ strategies: listMatchingStrategies() });
+});
+
+/**
+ * @swagger
+ * /api/matching/preview/{eventId}:
  *   post:
- *     summary: Trigger matching for an event (admin only)
+ *     summary: Preview matching for an event without saving circles (admin only)
+ *     description: Runs the matching algorithm and returns the proposed circles, leftover users, per-circle compatibility scores and warnings. The proposal can be committed with the trigger endpoint.
  *     tags: [Matching]
  *     security:
  *       - bearerAuth: []
@@ -343,45 +660,66 @@ router.get('/status/:eventId', requireAuth, async (req, res) => {
  *         required: true
  *         schema:
  *           type: integer
- *         description: Event ID to trigger matching for
+ *         description: Event ID to preview matching for
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               strategy:
+ *                 type: string
+ *                 enum: [optimizer, greedy, random]
+ *                 description: Strategy to compare against the event's own (defaults to the event's strategy)
+ *               params:
+ *                 type: object
+ *                 properties:
+ *                   maxPasses:
+ *                     type: integer
+ *                   seed:
+ *                     type: integer
  *     responses:
  *       200:
- *         description: Matching completed successfully
+ *         description: Matching proposal
  *       400:
- *         description: Invalid input or insufficient participants
+ *         description: Invalid input, insufficient participants, or the event is not open for matching
  *       401:
  *         description: Unauthorized
  *       403:
  *         description: Admin access required
- *       404:
- *         description: Event not found
  */
-router.post('/trigger/:eventId', requireAdmin, async (req, res) => {
+router.post('/preview/:eventId', requireAdmin, async (req, res) => {
   try {
+    const user = (req as any).user;
     const eventId = parseInt(req.params.eventId);
     
     if (isNaN(eventId)) {
       return res.status(400).json({ error: 'Invalid event ID' });
     }
 
-    // Trigger matching
-    const circles = await MatchingService.triggerMatching(eventId);
+    const parsed = previewSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
 
-    return res.json({
-      message: 'Matching completed successfully',
-      circles,
-    });
+    const preview = await MatchingService.previewMatching(eventId, user.userId, parsed.data.strategy, parsed.data.params);
+
+    return res.json(preview);
   } catch (error) {
-    console.error('Trigger matching error:', error);
+    if (error instanceof EventLifecycleError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Preview matching error:', error);
     return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
   }
 });
 
 /**
  * @swagger
- * /api/matching/results/{eventId}:
- *   get:
- *     summary: Get matching results for an event
+ * /api/matching/trigger/{eventId}:
+ *   post:
+ *     summary: Trigger matching for an event (admin only)
  *     tags: [Matching]
  *     security:
  *       - bearerAuth: []
@@ -391,16 +729,30 @@ router.post('/trigger/:eventId', requireAdmin, async (req, res) => {
  *         required: true
  *         schema:
  *           type: integer
- *         description: Event ID
+ *         description: Event ID to trigger matching for
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               proposalId:
+ *                 type: integer
+ *                 description: Previewed proposal to commit exactly as shown (optional)
  *     responses:
  *       200:
- *         description: Matching results
+ *         description: Matching completed successfully
+ *       400:
+ *         description: Invalid input or insufficient participants
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
  *       404:
  *         description: Event not found
  */
-router.get('/results/:eventId', requireAuth, async (req, res) => {
+router.post('/trigger/:eventId', requireAdmin, async (req, res) => {
   try {
     const eventId = parseInt(req.params.eventId);
     
@@ -408,24 +760,33 @@ router.get('/results/:eventId', requireAuth, async (req, res) => {
       return res.status(400).json({ error: 'Invalid event ID' });
     }
 
-    // Get matching results
-    const circles = await MatchingService.getMatchingResults(eventId);
+    const parsed = triggerSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    // Trigger matching
+    const circles = await MatchingService.triggerMatching(eventId, parsed.data.proposalId);
 
     return res.json({
-      eventId,
+      message: 'Matching completed successfully',
       circles,
     });
   } catch (error) {
-    console.error('Get matching results error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    if (error instanceof EventLifecycleError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Trigger matching error:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
   }
 });
 
 /**
  * @swagger
- * /api/matching/pool/{eventId}:
- *   get:
- *     summary: Get matching pool for an event (admin only)
+ * /api/matching/reset/{eventId}:
+ *   post:
+ *     summary: Reset matching for an event (admin only)
+ *     description: Deletes the event's circles, circle members and circle chat, and reopens the event for matching. Opt-ins are kept so matching can be re-run.
  *     tags: [Matching]
  *     security:
  *       - bearerAuth: []
@@ -435,10 +796,24 @@ router.get('/results/:eventId', requireAuth, async (req, res) => {
  *         required: true
  *         schema:
  *           type: integer
- *         description: Event ID
+ *         description: Event ID to reset matching for
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Why matching is being reset
  *     responses:
  *       200:
- *         description: Matching pool
+ *         description: Matching reset successfully
+ *       400:
+ *         description: Invalid input or matching has not been run
  *       401:
  *         description: Unauthorized
  *       403:
@@ -446,7 +821,274 @@ router.get('/results/:eventId', requireAuth, async (req, res) => {
  *       404:
  *         description: Event not found
  */
-router.get('/pool/:eventId', requireAdmin, async (req, res) => {
+router.post('/reset/:eventId', requireAdmin, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const eventId = parseInt(req.params.eventId);
+    
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const parsed = resetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    const result = await MatchingService.resetMatching(eventId, user.userId, parsed.data.reason);
+
+    return res.json({
+      message: 'Matching reset successfully',
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Event not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof EventLifecycleError
+      || (error instanceof Error && error.message === 'Matching has not been run for this event')) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Reset matching error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/waitlist/{eventId}:
+ *   get:
+ *     summary: Get users left unplaced by an event's matching run (admin only)
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Waitlisted users
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/waitlist/:eventId', requireAdmin, async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.eventId);
+    
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const waitlist = await MatchingService.getWaitlist(eventId);
+
+    return res.json({
+      eventId,
+      waitlist,
+    });
+  } catch (error) {
+    console.error('Get waitlist error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/waitlist/{eventId}/place:
+ *   post:
+ *     summary: Place a waitlisted user in a hosted circle (admin only)
+ *     description: Seats the user (and their partner, if also waitlisted) as participants in the circle and removes them from the waitlist. The event must be matched and not yet started, and the circle must keep to the event's size, its exclusions, and its host's seats, access and severe-allergy safety.
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - circleId
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *               circleId:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: User placed successfully
+ *       400:
+ *         description: Invalid input, user not waitlisted, circle not hosted, or the placement breaks a circle rule
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event or circle not found
+ */
+router.post('/waitlist/:eventId/place', requireAdmin, async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.eventId);
+    
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const parsed = placeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    // Placing is a circle edit, so it follows the same rules as an organiser adding a member
+    const eventCircles = await CircleEditingService.placeWaitlisted(
+      eventId, (req as any).user.userId, parsed.data.userId, parsed.data.circleId
+    );
+
+    return res.json({
+      message: 'User placed successfully',
+      circle: eventCircles.find(circle => circle.id === parsed.data.circleId),
+    });
+  } catch (error) {
+    if (error instanceof Error && (error.message === 'Event not found' || error.message === 'Circle not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof CircleEditError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Place waitlisted user error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/report/{eventId}:
+ *   get:
+ *     summary: Get the matching report for an event (admin only)
+ *     description: Explains the latest committed run - each circle's score breakdown, why its host was chosen and which constraints were relaxed - along with the run's strategy, settings, warnings and unplaced users.
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Matching report
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Matching has not been run for this event
+ */
+router.get('/report/:eventId', requireAdmin, async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.eventId);
+    
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const report = await MatchingService.getMatchingReport(eventId);
+
+    return res.json(report);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'No matching report for this event') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get matching report error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/results/{eventId}:
+ *   get:
+ *     summary: Get matching results for an event
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Matching results
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Event not found
+ */
+router.get('/results/:eventId', requireAuth, async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.eventId);
+    
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    // Get matching results
+    const circles = await MatchingService.getMatchingResults(eventId);
+
+    return res.json({
+      eventId,
+      circles,
+    });
+  } catch (error) {
+    console.error('Get matching results error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/pool/{eventId}:
+ *   get:
+ *     summary: Get matching pool for an event (admin only)
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Event ID
+ *     responses:
+ *       200:
+ *         description: Matching pool
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Event not found
+ */
+router.get('/pool/:eventId', requireAdmin, async (req, res) => {
   try {
     const eventId = parseInt(req.params.eventId);
     
@@ -467,5 +1109,330 @@ router.get('/pool/:eventId', requireAdmin, async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/matching/circles/{circleId}/itinerary:
+ *   get:
+ *     summary: Get the rotating dinner itinerary for a circle (members only)
+ *     description: Course order, host household, venue address and time slot for each course, plus the walking order between venues. Addresses are only revealed to members of the circle.
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: circleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Circle ID
+ *     responses:
+ *       200:
+ *         description: Circle itinerary
+ *       400:
+ *         description: Invalid circle ID or circle is not rotating
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: User is not a member of this circle
+ *       404:
+ *         description: Circle not found
+ */
+router.get('/circles/:circleId/itinerary', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const circleId = parseInt(req.params.circleId);
+
+    if (isNaN(circleId)) {
+      return res.status(400).json({ error: 'Invalid circle ID' });
+    }
+
+    // Addresses are only shared within the circle
+    const isMember = await db.query.circleMembers.findFirst({
+      where: (cm, { and, eq }) => and(
+        eq(cm.circleId, circleId),
+        eq(cm.userId, user.userId)
+      ),
+    });
+
+    if (!isMember) {
+      return res.status(403).json({ error: 'You are not a member of this circle' });
+    }
+
+    const itinerary = await ItineraryService.getCircleItinerary(circleId, user.userId);
+
+    if (!itinerary) {
+      return res.status(404).json({ error: 'Circle not found' });
+    }
+
+    return res.json(itinerary);
+  } catch (error) {
+    console.error('Get circle itinerary error:', error);
+    if (error instanceof Error && error.message === 'Itineraries are only available for rotating circles') {
+      return res.status(400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/circles/{circleId}/attendance:
+ *   get:
+ *     summary: Get who has been marked as attending a circle's dinner (members only)
+ *     description: Hosts also get the circle's check-in code while check-in is open on the day.
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: circleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Circle ID
+ *     responses:
+ *       200:
+ *         description: Each member's attendance and whether marking and check-in are open
+ *       400:
+ *         description: Invalid circle ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: User is not a member of this circle
+ *       404:
+ *         description: Circle not found
+ */
+router.get('/circles/:circleId/attendance', requireAuth, async (req, res) => {
+  try {
+    const circleId = parseInt(req.params.circleId);
+    if (isNaN(circleId)) {
+      return res.status(400).json({ error: 'Invalid circle ID' });
+    }
+
+    const attendance = await AttendanceService.getCircleAttendance(circleId, (req as any).user.userId);
+    return res.json(attendance);
+  } catch (error) {
+    return sendAttendanceError(res, error, 'Get circle attendance');
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/circles/{circleId}/attendance/{userId}:
+ *   put:
+ *     summary: Mark whether a circle member came to the dinner (hosted-circle hosts and admins only)
+ *     description: Open from the day of the dinner until it is archived. Rotating circles have no single host, so their members check themselves in instead. Marking a no-show takes back their points for the event; marking them as attended again gives the points back.
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: circleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Circle ID
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The member being marked
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [attended, no_show]
+ *     responses:
+ *       200:
+ *         description: Attendance marked
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the host of this circle, or marking is not open
+ *       404:
+ *         description: Circle not found
+ */
+router.put('/circles/:circleId/attendance/:userId', requireAuth, async (req, res) => {
+  try {
+    const circleId = parseInt(req.params.circleId);
+    const userId = parseInt(req.params.userId);
+    if (isNaN(circleId) || isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid circle or user ID' });
+    }
+    const parsed = attendanceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    const user = (req as any).user;
+    await AttendanceService.markAttendance(circleId, user.userId, userId, parsed.data.status, user.role === 'admin');
+    return res.json({ message: parsed.data.status === ATTENDANCE_STATUS.ATTENDED ? 'Marked as attended' : 'Marked as a no-show' });
+  } catch (error) {
+    return sendAttendanceError(res, error, 'Mark attendance');
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/circles/{circleId}/check-in:
+ *   post:
+ *     summary: Check yourself in to your circle's dinner with the code your host shows
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: circleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Circle ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Checked in
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not a member, check-in is closed, or the code is wrong
+ *       404:
+ *         description: Circle not found
+ */
+router.post('/circles/:circleId/check-in', requireAuth, async (req, res) => {
+  try {
+    const circleId = parseInt(req.params.circleId);
+    if (isNaN(circleId)) {
+      return res.status(400).json({ error: 'Invalid circle ID' });
+    }
+    const parsed = checkInSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    await AttendanceService.checkIn(circleId, (req as any).user.userId, parsed.data.code);
+    return res.json({ message: 'You are checked in. Enjoy your dinner!' });
+  } catch (error) {
+    return sendAttendanceError(res, error, 'Check in');
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/invitations/{token}:
+ *   get:
+ *     summary: Get a partner invitation from its emailed link
+ *     description: Who sent it, for which event, and whether it can still be answered. No login is needed so that people without an account can see it.
+ *     tags: [Matching]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invitation token from the email link
+ *     responses:
+ *       200:
+ *         description: Invitation details
+ *       404:
+ *         description: Invitation not found
+ */
+router.get('/invitations/:token', async (req, res) => {
+  try {
+    const invitation = await PartnerInvitationService.getByToken(req.params.token);
+    return res.json(invitation);
+  } catch (error) {
+    return sendInvitationError(res, error, 'Get invitation');
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/invitations/{token}/accept:
+ *   post:
+ *     summary: Accept a partner invitation
+ *     description: Opts the user in to the event with the inviter, sharing their address. If neither is in a household yet, they become one.
+ *     tags: [Matching]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invitation token from the email link
+ *     responses:
+ *       200:
+ *         description: Invitation accepted
+ *       400:
+ *         description: Invitation expired, already answered, sent to another email, or the event is no longer open
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Invitation not found
+ */
+router.post('/invitations/:token/accept', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    await PartnerInvitationService.accept(req.params.token, user.userId);
+    return res.json({ message: 'Invitation accepted; you are opted in together' });
+  } catch (error) {
+    return sendInvitationError(res, error, 'Accept invitation');
+  }
+});
+
+/**
+ * @swagger
+ * /api/matching/invitations/{token}/decline:
+ *   post:
+ *     summary: Decline a partner invitation
+ *     description: Anyone with the emailed link can decline, without an account. The inviter stays opted in on their own.
+ *     tags: [Matching]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invitation token from the email link
+ *     responses:
+ *       200:
+ *         description: Invitation declined
+ *       400:
+ *         description: Invitation expired or already answered
+ *       404:
+ *         description: Invitation not found
+ */
+router.post('/invitations/:token/decline', async (req, res) => {
+  try {
+    await PartnerInvitationService.decline(req.params.token);
+    return res.json({ message: 'Invitation declined' });
+  } catch (error) {
+    return sendInvitationError(res, error, 'Decline invitation');
+  }
+});
+
 export default router;
 
@@ -4,9 +4,47 @@ import { db } from '../db/client';
 import { users } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { getCurrentUser, requireAuth } from '../auth';
+import { BlockService } from '../services/blocks';
+import { HouseholdService, HouseholdError } from '../services/households';
+import { DIETARY_NEEDS, ALLERGENS, ALLERGY_SEVERITY, VENUE_NEEDS, SMOKING_POLICY, ROTATING_COURSES } from '../config/constants';
 
 const router = express.Router();
 
+const dietaryNeedSchema = z.enum(Object.values(DIETARY_NEEDS) as [string, ...string[]]);
+const allergenSchema = z.enum(Object.values(ALLERGENS) as [string, ...string[]]);
+
+// Where the user receives guests when hosting; opt-ins can override any of it
+const venueProfileSchema = z.object({
+  maxSeats: z.number().int().min(2).nullable(),
+  hasPets: z.boolean(),
+  stepFree: z.boolean(),
+  smokingPolicy: z.enum(Object.values(SMOKING_POLICY) as [string, ...string[]]),
+  suitedCourses: z.array(z.enum(ROTATING_COURSES)),
+});
+
+// Schema for blocking someone the user has shared a circle with
+const blockSchema = z.object({
+  userId: z.number().int().positive(),
+  eventId: z.number().int().positive().optional(),
+});
+
+// Schema for asking another account to form a household
+const householdRequestSchema = z.object({
+  partnerEmail: z.string().email(),
+});
+
+// Shared error mapping for the household routes
+function sendHouseholdError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof Error && error.message === 'Household not found') {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof HouseholdError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${action} error:`, error);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
 const updateProfileSchema = z.object({
   name: z.string().min(1).optional(),
   phone: z.string().optional(),
@@ -14,6 +52,15 @@ const updateProfileSchema = z.object({
   bio: z.string().optional(),
   neighbourhood: z.string().optional(),
   dietaryRestrictions: z.string().optional(),
+  dietaryNeeds: z.array(dietaryNeedSchema).optional(),
+  allergies: z.array(z.object({
+    allergen: allergenSchema,
+    severity: z.enum([ALLERGY_SEVERITY.MILD, ALLERGY_SEVERITY.SEVERE]),
+  })).optional(),
+  cuisineCapabilities: z.array(dietaryNeedSchema).optional(),
+  allergenRisks: z.array(allergenSchema).optional(),
+  venueProfile: venueProfileSchema.nullable().optional(),
+  venueNeeds: z.array(z.enum(Object.values(VENUE_NEEDS) as [string, ...string[]])).optional(),
   interests: z.array(z.string()).optional(),
   dateOfBirth: z.string().optional(),
   personalityType: z.enum(['extrovert', 'introvert', 'ambivert']).optional(),
@@ -56,6 +103,58 @@ const updateProfileSchema = z.object({
  *                   type: string
  *                 dietaryRestrictions:
  *                   type: string
+ *                 dietaryNeeds:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                     enum: [vegetarian, vegan, pescatarian, gluten_free, dairy_free, halal, kosher]
+ *                 allergies:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       allergen:
+ *                         type: string
+ *                         enum: [tree_nuts, peanuts, shellfish, fish, eggs, dairy, gluten, soy, sesame]
+ *                       severity:
+ *                         type: string
+ *                         enum: [mild, severe]
+ *                 cuisineCapabilities:
+ *                   type: array
+ *                   description: Dietary needs the user can cook for when hosting
+ *                   items:
+ *                     type: string
+ *                 allergenRisks:
+ *                   type: array
+ *                   description: Allergens the user cannot guarantee to keep out of their kitchen
+ *                   items:
+ *                     type: string
+ *                 venueProfile:
+ *                   type: object
+ *                   nullable: true
+ *                   description: Where the user receives guests when hosting
+ *                   properties:
+ *                     maxSeats:
+ *                       type: integer
+ *                       nullable: true
+ *                     hasPets:
+ *                       type: boolean
+ *                     stepFree:
+ *                       type: boolean
+ *                     smokingPolicy:
+ *                       type: string
+ *                       enum: [none, outdoors, indoors]
+ *                     suitedCourses:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         enum: [starter, main, dessert]
+ *                 venueNeeds:
+ *                   type: array
+ *                   description: What a venue must offer for the user to attend
+ *                   items:
+ *                     type: string
+ *                     enum: [step_free, pet_free, smoke_free]
  *                 interests:
  *                   type: array
  *                   items:
@@ -125,6 +224,54 @@ router.get('/', requireAuth, async (req, res) => {
  *                 type: string
  *               dietaryRestrictions:
  *                 type: string
+ *               dietaryNeeds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [vegetarian, vegan, pescatarian, gluten_free, dairy_free, halal, kosher]
+ *               allergies:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     allergen:
+ *                       type: string
+ *                       enum: [tree_nuts, peanuts, shellfish, fish, eggs, dairy, gluten, soy, sesame]
+ *                     severity:
+ *                       type: string
+ *                       enum: [mild, severe]
+ *               cuisineCapabilities:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               allergenRisks:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               venueProfile:
+ *                 type: object
+ *                 nullable: true
+ *                 properties:
+ *                   maxSeats:
+ *                     type: integer
+ *                     nullable: true
+ *                   hasPets:
+ *                     type: boolean
+ *                   stepFree:
+ *                     type: boolean
+ *                   smokingPolicy:
+ *                     type: string
+ *                     enum: [none, outdoors, indoors]
+ *                   suitedCourses:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                       enum: [starter, main, dessert]
+ *               venueNeeds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [step_free, pet_free, smoke_free]
  *               interests:
  *                 type: array
  *                 items:
@@ -180,6 +327,299 @@ router.put('/', requireAuth, async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/profile/blocks:
+ *   get:
+ *     summary: List the people the user has blocked and everyone they have shared a circle with
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Blocked users and past circle companions
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/blocks', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const [blocks, companions] = await Promise.all([
+      BlockService.listBlocks(user.userId),
+      BlockService.listPastCompanions(user.userId),
+    ]);
+    return res.json({ blocks, companions });
+  } catch (error) {
+    console.error('Get blocks error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/profile/blocks:
+ *   post:
+ *     summary: Block someone the user has shared a circle with
+ *     description: Matching never seats the two users together again. The blocked user is not told.
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [userId]
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *               eventId:
+ *                 type: integer
+ *                 description: The event after which they are being blocked
+ *     responses:
+ *       200:
+ *         description: User blocked
+ *       400:
+ *         description: Invalid input or not a past circle companion
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/blocks', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const parsed = blockSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    await BlockService.block(user.userId, parsed.data.userId, parsed.data.eventId);
+    return res.json({ message: 'User blocked' });
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'You cannot block yourself' ||
+      error.message === 'You can only block people you have shared a circle with'
+    )) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Block user error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/profile/blocks/{userId}:
+ *   delete:
+ *     summary: Unblock a user
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: User unblocked
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/blocks/:userId', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const blockedId = parseInt(req.params.userId);
+
+    if (isNaN(blockedId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    await BlockService.unblock(user.userId, blockedId);
+    return res.json({ message: 'User unblocked' });
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/profile/household:
+ *   get:
+ *     summary: Get the user's household
+ *     description: The pending or active link with a partner, or null when there is none
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The household, seen from the user's side
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/household', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const household = await HouseholdService.getHousehold(user.userId);
+    return res.json({ household });
+  } catch (error) {
+    console.error('Get household error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/profile/household:
+ *   post:
+ *     summary: Ask another account to form a household
+ *     description: The partner confirms from their profile; until then each is matched on their own
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [partnerEmail]
+ *             properties:
+ *               partnerEmail:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Request sent
+ *       400:
+ *         description: Invalid input, unknown email, or either account already in a household
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/household', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const parsed = householdRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    const household = await HouseholdService.requestLink(user.userId, parsed.data.partnerEmail);
+    return res.json({ message: 'Household request sent', household });
+  } catch (error) {
+    return sendHouseholdError(res, error, 'Request household');
+  }
+});
+
+/**
+ * @swagger
+ * /api/profile/household/{id}/confirm:
+ *   post:
+ *     summary: Confirm a household you were asked to join
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Household confirmed
+ *       400:
+ *         description: Not the asked partner, or already answered
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Household not found
+ */
+router.post('/household/:id/confirm', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const householdId = parseInt(req.params.id);
+
+    if (isNaN(householdId)) {
+      return res.status(400).json({ error: 'Invalid household ID' });
+    }
+
+    const household = await HouseholdService.confirm(user.userId, householdId);
+    return res.json({ message: 'Household confirmed', household });
+  } catch (error) {
+    return sendHouseholdError(res, error, 'Confirm household');
+  }
+});
+
+/**
+ * @swagger
+ * /api/profile/household/{id}/decline:
+ *   post:
+ *     summary: Decline a household request, or cancel one you made
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Request declined
+ *       400:
+ *         description: Already answered
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Household not found
+ */
+router.post('/household/:id/decline', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const householdId = parseInt(req.params.id);
+
+    if (isNaN(householdId)) {
+      return res.status(400).json({ error: 'Invalid household ID' });
+    }
+
+    await HouseholdService.decline(user.userId, householdId);
+    return res.json({ message: 'Household request declined' });
+  } catch (error) {
+    return sendHouseholdError(res, error, 'Decline household');
+  }
+});
+
+/**
+ * @swagger
+ * /api/profile/household:
+ *   delete:
+ *     summary: Leave your household
+ *     description: Opt-ins for events still open for matching stay, but each partner is matched on their own
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Left the household
+ *       400:
+ *         description: Not in a household
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/household', requireAuth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    await HouseholdService.leave(user.userId);
+    return res.json({ message: 'You have left your household' });
+  } catch (error) {
+    return sendHouseholdError(res, error, 'Leave household');
+  }
+});
+
 export default router;
 
 
@@ -11,6 +11,8 @@ import { eq, sql } from 'drizzle-orm';
 import { z } from 'zod';
 import { requireAuth, requireAdmin, generateToken, getCurrentUser } from './auth';
 import profileRouter from './routes/profile';
+import { MatchingScheduler } from './services/matchingScheduler';
+import { PartnerInvitationService } from './services/partnerInvitations';
 import { specs } from './swagger';
 
 const app = express();
@@ -207,6 +209,9 @@ app.post('/api/auth/signup', async (req, res) => {
 
   const passwordHash = await bcrypt.hash(password, 12);
   const [inserted] = await db.insert(users).values({ username, email, passwordHash }).returning({ id: users.id });
+
+  // Partner invitations sent to this address before the account existed now belong to it
+  await PartnerInvitationService.claimForUser(inserted.id, email);
   
   // Generate JWT token
   const token = generateToken({
@@ -399,6 +404,10 @@ app.use('/api/admin', require('./routes/admin').default);
 // Start the server
 app.listen(env.PORT, () => {
   console.log(`API listening on http://localhost:${env.PORT}`);
+
+  if (env.MATCHING_SCHEDULER === 'on') {
+    MatchingScheduler.start();
+  }
 });
 
 export { app };
@@ -0,0 +1,263 @@
+import { randomInt } from 'crypto'
+import { db } from '../db/client'
+import { circles, circleMembers, events, users } from '../db/schema'
+import { eq, and, inArray, isNull, isNotNull, desc } from 'drizzle-orm'
+import { EVENT_STATUS, CIRCLE_ROLES, ROTATING_COURSES, ATTENDANCE_STATUS, ATTENDANCE_CONFIG, PAST_EVENT_STATUSES } from '../config/constants'
+import { RewardsService } from './rewards'
+import { EventCompletionService } from './eventCompletion'
+
+type Event = typeof events.$inferSelect
+type AttendanceStatus = typeof ATTENDANCE_STATUS[keyof typeof ATTENDANCE_STATUS]
+
+// Attendance that cannot be marked: wrong time, wrong person or wrong code
+export class AttendanceError extends Error {}
+
+export interface CircleAttendance {
+  circleId: number
+  eventId: number
+  isHost: boolean // The host of a hosted circle, or a course cook in a rotating one
+  canMark: boolean // A hosted circle's host marks attendance from the day of the dinner until it is archived
+  checkInOpen: boolean // Self check-in runs on the day, until the dinner completes
+  checkInCode: string | null // Only shown to hosts, while check-in is open
+  members: {
+    userId: number
+    name: string | null
+    role: string
+    attendance: string | null
+    selfCheckedIn: boolean
+  }[]
+}
+
+export interface Reliability {
+  attended: number
+  noShows: number
+  unmarked: number // Past dinners nobody marked, which count for neither
+  score: number | null // Percentage of marked dinners attended; null until one is marked
+  recentNoShows: { eventId: number; title: string; date: string }[]
+}
+
+// Hosted circles have one host; in rotating circles every course household hosts and can show the code,
+// but nobody hosts the whole dinner, so members there only check themselves in
+const HOSTING_ROLES: string[] = [CIRCLE_ROLES.HOST, ...ROTATING_COURSES]
+
+// No look-alike characters, since the code is read out or shown across a room
+const CHECK_IN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+/**
+ * Who actually came to each dinner. A hosted circle's host (or an admin) marks its members, or members
+ * check themselves in with the circle's code on the day. No-shows lose their points for the event, lower their
+ * reliability score and are seated last when they keep missing dinners.
+ */
+export class AttendanceService {
+  /**
+   * A circle's attendance as one of its members sees it; hosts also get the check-in code
+   */
+  static async getCircleAttendance(circleId: number, viewerId: number, now: Date = new Date()): Promise<CircleAttendance> {
+    const { circle, event } = await this.loadCircle(circleId)
+    const members = await this.getMembers(circleId)
+    const viewer = members.find(member => member.userId === viewerId)
+    if (!viewer) {
+      throw new AttendanceError('You are not a member of this circle')
+    }
+
+    const isHost = HOSTING_ROLES.includes(viewer.role)
+    const checkInOpen = this.isCheckInOpen(event, now)
+    let checkInCode = circle.checkInCode
+    if (isHost && checkInOpen && !checkInCode) {
+      checkInCode = await this.createCheckInCode(circleId)
+    }
+
+    return {
+      circleId,
+      eventId: event.id,
+      isHost,
+      canMark: viewer.role === CIRCLE_ROLES.HOST && this.canMark(event, now),
+      checkInOpen,
+      checkInCode: isHost && checkInOpen ? checkInCode : null,
+      members: members.map(member => ({
+        userId: member.userId,
+        name: member.name,
+        role: member.role,
+        attendance: member.attendance,
+        selfCheckedIn: member.attendance === ATTENDANCE_STATUS.ATTENDED && member.attendanceMarkedBy === member.userId,
+      })),
+    }
+  }
+
+  /**
+   * A hosted circle's host, or an admin, marks whether a member of the circle came
+   */
+  static async markAttendance(
+    circleId: number,
+    markerId: number,
+    userId: number,
+    status: AttendanceStatus,
+    isAdmin: boolean = false,
+    now: Date = new Date()
+  ): Promise<void> {
+    const { event } = await this.loadCircle(circleId)
+    const members = await this.getMembers(circleId)
+    const marker = members.find(member => member.userId === markerId)
+    if (!isAdmin && marker?.role !== CIRCLE_ROLES.HOST) {
+      throw new AttendanceError('Only the circle\'s host can mark attendance')
+    }
+    const member = members.find(m => m.userId === userId)
+    if (!member) {
+      throw new AttendanceError('They are not a member of this circle')
+    }
+    if (!this.canMark(event, now)) {
+      throw new AttendanceError('Attendance can be marked from the day of the dinner until it is archived')
+    }
+
+    await this.setAttendance(circleId, userId, status, markerId)
+    await this.applyPoints(event, userId, member.role, status)
+  }
+
+  /**
+   * A member checks themselves in with the code their host shows on the day
+   */
+  static async checkIn(circleId: number, userId: number, code: string, now: Date = new Date()): Promise<void> {
+    const { circle, event } = await this.loadCircle(circleId)
+    const members = await this.getMembers(circleId)
+    const member = members.find(m => m.userId === userId)
+    if (!member) {
+      throw new AttendanceError('You are not a member of this circle')
+    }
+    if (!this.isCheckInOpen(event, now)) {
+      throw new AttendanceError('Check-in is only open on the day of the dinner')
+    }
+    if (!circle.checkInCode || circle.checkInCode !== code.trim().toUpperCase()) {
+      throw new AttendanceError('That code is not right; ask your host for it')
+    }
+
+    await this.setAttendance(circleId, userId, ATTENDANCE_STATUS.ATTENDED, userId)
+    await this.applyPoints(event, userId, member.role, ATTENDANCE_STATUS.ATTENDED)
+  }
+
+  /**
+   * How reliably a user turns up, over the past dinners they were seated at
+   */
+  static async getReliability(userId: number): Promise<Reliability> {
+    const rows = await db.select({
+      attendance: circleMembers.attendance,
+      eventId: events.id,
+      title: events.title,
+      date: events.date,
+    }).from(circleMembers)
+    .innerJoin(circles, eq(circleMembers.circleId, circles.id))
+    .innerJoin(events, eq(circles.eventId, events.id))
+    .where(and(eq(circleMembers.userId, userId), inArray(events.matchingStatus, PAST_EVENT_STATUSES)))
+    .orderBy(desc(events.date))
+
+    const attended = rows.filter(row => row.attendance === ATTENDANCE_STATUS.ATTENDED).length
+    const noShows = rows.filter(row => row.attendance === ATTENDANCE_STATUS.NO_SHOW)
+    const marked = attended + noShows.length
+    return {
+      attended,
+      noShows: noShows.length,
+      unmarked: rows.length - marked,
+      score: marked === 0 ? null : Math.round((attended / marked) * 100),
+      recentNoShows: noShows.slice(0, ATTENDANCE_CONFIG.REPEAT_NO_SHOW_LOOKBACK)
+        .map(({ eventId, title, date }) => ({ eventId, title, date })),
+    }
+  }
+
+  /**
+   * Users who missed at least REPEAT_NO_SHOW_THRESHOLD of their last REPEAT_NO_SHOW_LOOKBACK marked dinners
+   */
+  static async getRepeatNoShowUserIds(userIds: number[]): Promise<Set<number>> {
+    if (userIds.length === 0) {
+      return new Set()
+    }
+
+    const marked = await db.select({ userId: circleMembers.userId, attendance: circleMembers.attendance })
+      .from(circleMembers)
+      .innerJoin(circles, eq(circleMembers.circleId, circles.id))
+      .innerJoin(events, eq(circles.eventId, events.id))
+      .where(and(inArray(circleMembers.userId, userIds), isNotNull(circleMembers.attendance)))
+      .orderBy(desc(events.date))
+
+    const recentByUser = new Map<number, (string | null)[]>()
+    for (const row of marked) {
+      const recent = recentByUser.get(row.userId) || []
+      if (recent.length < ATTENDANCE_CONFIG.REPEAT_NO_SHOW_LOOKBACK) {
+        recent.push(row.attendance)
+        recentByUser.set(row.userId, recent)
+      }
+    }
+
+    return new Set([...recentByUser]
+      .filter(([, recent]) => recent.filter(status => status === ATTENDANCE_STATUS.NO_SHOW).length >= ATTENDANCE_CONFIG.REPEAT_NO_SHOW_THRESHOLD)
+      .map(([userId]) => userId))
+  }
+
+  private static async loadCircle(circleId: number) {
+    const [row] = await db.select({ circle: circles, event: events })
+      .from(circles)
+      .innerJoin(events, eq(circles.eventId, events.id))
+      .where(eq(circles.id, circleId))
+    if (!row) {
+      throw new Error('Circle not found')
+    }
+    return row
+  }
+
+  private static async getMembers(circleId: number) {
+    return db.select({
+      userId: circleMembers.userId,
+      name: users.name,
+      role: circleMembers.role,
+      attendance: circleMembers.attendance,
+      attendanceMarkedBy: circleMembers.attendanceMarkedBy,
+    }).from(circleMembers)
+    .innerJoin(users, eq(circleMembers.userId, users.id))
+    .where(eq(circleMembers.circleId, circleId))
+  }
+
+  private static async setAttendance(circleId: number, userId: number, status: AttendanceStatus, markedBy: number): Promise<void> {
+    await db.update(circleMembers)
+      .set({ attendance: status, attendanceMarkedBy: markedBy, attendanceMarkedAt: new Date() })
+      .where(and(eq(circleMembers.circleId, circleId), eq(circleMembers.userId, userId)))
+  }
+
+  // No-shows lose the event's points; marking someone as attended after all gives them back,
+  // or awards them if the completion job skipped them
+  private static async applyPoints(event: Event, userId: number, role: string, status: AttendanceStatus): Promise<void> {
+    if (status === ATTENDANCE_STATUS.NO_SHOW) {
+      await RewardsService.revokeEventPoints(userId, event.id)
+      return
+    }
+
+    await RewardsService.restoreEventPoints(userId, event.id)
+    if (event.matchingStatus === EVENT_STATUS.COMPLETED) {
+      await EventCompletionService.awardMember(userId, event.id, role)
+    }
+  }
+
+  // Check-in opens on the day of a matched dinner and closes once it completes
+  private static isCheckInOpen(event: Event, now: Date): boolean {
+    return event.matchingStatus === EVENT_STATUS.IN_PROGRESS
+      || (event.matchingStatus === EVENT_STATUS.MATCHED && event.date === this.toDateString(now))
+  }
+
+  private static canMark(event: Event, now: Date): boolean {
+    return this.isCheckInOpen(event, now) || event.matchingStatus === EVENT_STATUS.COMPLETED
+  }
+
+  // Only set if still empty, so two hosts asking at once end up showing the same code
+  private static async createCheckInCode(circleId: number): Promise<string> {
+    const code = Array.from({ length: ATTENDANCE_CONFIG.CHECK_IN_CODE_LENGTH },
+      () => CHECK_IN_CODE_ALPHABET[randomInt(CHECK_IN_CODE_ALPHABET.length)]).join('')
+    await db.update(circles)
+      .set({ checkInCode: code })
+      .where(and(eq(circles.id, circleId), isNull(circles.checkInCode)))
+
+    const [circle] = await db.select({ checkInCode: circles.checkInCode }).from(circles).where(eq(circles.id, circleId))
+    return circle.checkInCode!
+  }
+
+  private static toDateString(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  }
+}
@@ -0,0 +1,190 @@
+import { db } from '../db/client'
+import { userBlocks, users, circles, circleMembers, events } from '../db/schema'
+import { eq, and, or, inArray, desc, ne } from 'drizzle-orm'
+import { alias } from 'drizzle-orm/pg-core'
+import { BLOCK_SOURCE } from '../config/constants'
+import type { DbTransaction } from './matching'
+
+export interface BlockedUser {
+  userId: number
+  name: string | null
+  eventId: number | null
+  createdAt: Date
+}
+
+// Someone the user has shared a circle with, and so can block
+export interface PastCompanion {
+  userId: number
+  name: string | null
+  lastEventId: number
+  lastEventDate: string
+  blocked: boolean
+}
+
+export interface Exclusion {
+  id: number
+  user: { id: number; name: string | null; email: string }
+  otherUser: { id: number; name: string | null; email: string }
+  reason: string | null
+  createdBy: number
+  createdAt: Date
+}
+
+/**
+ * Pairs of users who are never seated together: blocks users place on each other
+ * and exclusions admins add. Both apply in either direction, and the blocked user is never told.
+ */
+export class BlockService {
+  /**
+   * Everyone each of the given users must be kept apart from, whichever side the block came from
+   */
+  static async getExclusions(userIds: number[], executor: DbTransaction | typeof db = db): Promise<Map<number, Set<number>>> {
+    const exclusions = new Map<number, Set<number>>()
+    if (userIds.length === 0) {
+      return exclusions
+    }
+
+    const pairs = await executor.select({ blockerId: userBlocks.blockerId, blockedId: userBlocks.blockedId })
+      .from(userBlocks)
+      .where(or(inArray(userBlocks.blockerId, userIds), inArray(userBlocks.blockedId, userIds)))
+
+    const add = (userId: number, otherId: number) => {
+      exclusions.set(userId, (exclusions.get(userId) || new Set<number>()).add(otherId))
+    }
+    for (const { blockerId, blockedId } of pairs) {
+      add(blockerId, blockedId)
+      add(blockedId, blockerId)
+    }
+    return exclusions
+  }
+
+  /**
+   * The users someone has blocked themselves (admin exclusions are not shown to members)
+   */
+  static async listBlocks(userId: number): Promise<BlockedUser[]> {
+    return db.select({
+      userId: userBlocks.blockedId,
+      name: users.name,
+      eventId: userBlocks.eventId,
+      createdAt: userBlocks.createdAt,
+    }).from(userBlocks)
+    .innerJoin(users, eq(userBlocks.blockedId, users.id))
+    .where(and(eq(userBlocks.blockerId, userId), eq(userBlocks.source, BLOCK_SOURCE.USER)))
+    .orderBy(desc(userBlocks.createdAt))
+  }
+
+  /**
+   * Everyone the user has shared a circle with, most recent event first
+   */
+  static async listPastCompanions(userId: number): Promise<PastCompanion[]> {
+    const own = alias(circleMembers, 'own')
+    const rows = await db.select({
+      userId: circleMembers.userId,
+      name: users.name,
+      eventId: events.id,
+      eventDate: events.date,
+    }).from(own)
+    .innerJoin(circles, eq(own.circleId, circles.id))
+    .innerJoin(events, eq(circles.eventId, events.id))
+    .innerJoin(circleMembers, and(eq(circleMembers.circleId, own.circleId), ne(circleMembers.userId, userId)))
+    .innerJoin(users, eq(circleMembers.userId, users.id))
+    .where(eq(own.userId, userId))
+    .orderBy(desc(events.date))
+
+    const blockedIds = new Set((await this.listBlocks(userId)).map(block => block.userId))
+    const companions = new Map<number, PastCompanion>()
+    for (const row of rows) {
+      if (companions.has(row.userId)) continue
+      companions.set(row.userId, {
+        userId: row.userId,
+        name: row.name,
+        lastEventId: row.eventId,
+        lastEventDate: row.eventDate,
+        blocked: blockedIds.has(row.userId),
+      })
+    }
+    return [...companions.values()]
+  }
+
+  /**
+   * Block someone the user has shared a circle with. Blocking again is a no-op.
+   */
+  static async block(userId: number, blockedId: number, eventId?: number): Promise<void> {
+    if (userId === blockedId) {
+      throw new Error('You cannot block yourself')
+    }
+
+    const companion = (await this.listPastCompanions(userId)).find(c => c.userId === blockedId)
+    if (!companion) {
+      throw new Error('You can only block people you have shared a circle with')
+    }
+
+    await db.insert(userBlocks).values({
+      blockerId: userId,
+      blockedId,
+      source: BLOCK_SOURCE.USER,
+      createdBy: userId,
+      eventId: eventId ?? companion.lastEventId,
+    }).onConflictDoNothing()
+  }
+
+  static async unblock(userId: number, blockedId: number): Promise<void> {
+    await db.delete(userBlocks).where(and(
+      eq(userBlocks.blockerId, userId),
+      eq(userBlocks.blockedId, blockedId),
+      eq(userBlocks.source, BLOCK_SOURCE.USER)
+    ))
+  }
+
+  /**
+   * Every exclusion admins have added, newest first
+   */
+  static async listExclusions(): Promise<Exclusion[]> {
+    const otherUsers = alias(users, 'other_users')
+    const rows = await db.select({
+      id: userBlocks.id,
+      user: { id: users.id, name: users.name, email: users.email },
+      otherUser: { id: otherUsers.id, name: otherUsers.name, email: otherUsers.email },
+      reason: userBlocks.reason,
+      createdBy: userBlocks.createdBy,
+      createdAt: userBlocks.createdAt,
+    }).from(userBlocks)
+    .innerJoin(users, eq(userBlocks.blockerId, users.id))
+    .innerJoin(otherUsers, eq(userBlocks.blockedId, otherUsers.id))
+    .where(eq(userBlocks.source, BLOCK_SOURCE.ADMIN))
+    .orderBy(desc(userBlocks.createdAt))
+    return rows
+  }
+
+  /**
+   * Keep two users apart in every future matching
+   */
+  static async addExclusion(adminId: number, userId: number, otherUserId: number, reason: string): Promise<void> {
+    if (userId === otherUserId) {
+      throw new Error('A user cannot be excluded from themselves')
+    }
+
+    const found = await db.select({ id: users.id }).from(users).where(inArray(users.id, [userId, otherUserId]))
+    if (found.length !== 2) {
+      throw new Error('User not found')
+    }
+
+    // Stored once per pair, lowest user id first
+    await db.insert(userBlocks).values({
+      blockerId: Math.min(userId, otherUserId),
+      blockedId: Math.max(userId, otherUserId),
+      source: BLOCK_SOURCE.ADMIN,
+      createdBy: adminId,
+      reason,
+    }).onConflictDoNothing()
+  }
+
+  static async removeExclusion(id: number): Promise<void> {
+    const [removed] = await db.delete(userBlocks)
+      .where(and(eq(userBlocks.id, id), eq(userBlocks.source, BLOCK_SOURCE.ADMIN)))
+      .returning({ id: userBlocks.id })
+    if (!removed) {
+      throw new Error('Exclusion not found')
+    }
+  }
+}
@@ -0,0 +1,509 @@
+import { db } from '../db/client'
+import { events, circles, circleMembers, matchingPool, chatMessages, users } from '../db/schema'
+import { eq, and, inArray, isNotNull } from 'drizzle-orm'
+import { CIRCLE_FORMAT, CIRCLE_ROLES, ROTATING_COURSES, EVENT_STATUS, CHAT_MESSAGE_TYPE } from '../config/constants'
+import { MatchingService, DbTransaction } from './matching'
+import { BlockService } from './blocks'
+
+// An edit that breaks a circle rule or does not apply to the event's circles
+export class CircleEditError extends Error {}
+
+interface SeatedMember {
+  id: number | null // Circle member row, null until a newly added member is inserted
+  userId: number
+  name: string | null
+  partnerId: number | null
+  matchAddress: string | null
+  role: string
+  venueAddress: string | null
+}
+
+interface EditableCircle {
+  id: number
+  name: string
+  format: string
+  members: SeatedMember[]
+}
+
+interface EditContext {
+  tx: DbTransaction
+  circles: EditableCircle[]
+}
+
+// A system message to post in a circle's chat once the edit is saved
+interface CircleNotice {
+  circleId: number
+  message: string
+}
+
+interface EditOutcome {
+  notices: CircleNotice[]
+  removedCircleIds?: number[]
+}
+
+/**
+ * Manual changes to an event's circles after matching.
+ * Every edit runs in one transaction: it is applied to an in-memory copy of the circles,
+ * checked against the circle rules, then saved, rescored and announced in the affected chats.
+ */
+export class CircleEditingService {
+  /**
+   * Move a seated member to another circle
+   */
+  static async moveMember(eventId: number, adminId: number, userId: number, circleId: number, role?: string) {
+    return this.applyEdit(eventId, adminId, async ({ circles }) => {
+      const { member, circle: source } = this.findSeated(circles, userId)
+      const target = this.findCircle(circles, circleId)
+      if (source.id === target.id) {
+        throw new CircleEditError(`${this.displayName(member)} is already in ${target.name}`)
+      }
+
+      source.members = source.members.filter(m => m.userId !== userId)
+      this.seat(target, member, role ?? this.getDefaultRole(member, target))
+
+      return {
+        notices: [
+          { circleId: source.id, message: `An organiser moved ${this.displayName(member)} to another circle.` },
+          { circleId: target.id, message: `An organiser added ${this.displayName(member)} to this circle as ${this.describeRole(member.role)}.` },
+        ],
+      }
+    })
+  }
+
+  /**
+   * Exchange two members of different circles; each takes over the other's role
+   */
+  static async swapMembers(eventId: number, adminId: number, userId: number, otherUserId: number) {
+    return this.applyEdit(eventId, adminId, async ({ circles }) => {
+      const first = this.findSeated(circles, userId)
+      const second = this.findSeated(circles, otherUserId)
+      if (first.circle.id === second.circle.id) {
+        throw new CircleEditError('Only members of different circles can be swapped')
+      }
+
+      const [firstRole, secondRole] = [first.member.role, second.member.role]
+      first.circle.members = first.circle.members.filter(m => m.userId !== userId)
+      second.circle.members = second.circle.members.filter(m => m.userId !== otherUserId)
+      this.seat(first.circle, second.member, firstRole)
+      this.seat(second.circle, first.member, secondRole)
+
+      const swapNotice = (leaving: SeatedMember, joining: SeatedMember) =>
+        `An organiser moved ${this.displayName(leaving)} to another circle; ${this.displayName(joining)} joins as ${this.describeRole(joining.role)}.`
+      return {
+        notices: [
+          { circleId: first.circle.id, message: swapNotice(first.member, second.member) },
+          { circleId: second.circle.id, message: swapNotice(second.member, first.member) },
+        ],
+      }
+    })
+  }
+
+  /**
+   * Give a member a new role in their circle. Whoever held that role takes the member's old one,
+   * so a new host replaces the old one and rotating households trade courses.
+   */
+  static async changeRole(eventId: number, adminId: number, userId: number, role: string) {
+    return this.applyEdit(eventId, adminId, async ({ circles }) => {
+      const { member, circle } = this.findSeated(circles, userId)
+      if (member.role === role) {
+        throw new CircleEditError(`${this.displayName(member)} is already ${this.describeRole(role)}`)
+      }
+
+      const previousRole = member.role
+      // Partners cooking together in a rotating circle change course together
+      const household = circle.format === CIRCLE_FORMAT.ROTATING
+        ? circle.members.filter(m => m.userId === userId || (m.userId === member.partnerId && m.role === previousRole))
+        : [member]
+      const exchangeable = role === CIRCLE_ROLES.HOST || (ROTATING_COURSES as readonly string[]).includes(role)
+      const holders = exchangeable ? circle.members.filter(m => m.role === role) : []
+
+      household.forEach(m => { m.role = role })
+      holders.forEach(m => { m.role = previousRole })
+
+      const holderNote = holders.length > 0
+        ? ` ${holders.map(m => this.displayName(m)).join(' and ')} ${holders.length > 1 ? 'are' : 'is'} now ${this.describeRole(previousRole)}.`
+        : ''
+      return {
+        notices: [{
+          circleId: circle.id,
+          message: `An organiser made ${this.displayName(member)} ${this.describeRole(role)}.${holderNote}`,
+        }],
+      }
+    })
+  }
+
+  /**
+   * Seat an opted-in user who is not in any circle yet, such as someone on the waitlist
+   */
+  static async addMember(eventId: number, adminId: number, userId: number, circleId: number, role?: string) {
+    return this.applyEdit(eventId, adminId, async (context) => this.seatNewcomers(context, eventId, [userId], circleId, role))
+  }
+
+  /**
+   * Seat a waitlisted user in one of the event's hosted circles, with their partner if they are waiting too
+   */
+  static async placeWaitlisted(eventId: number, adminId: number, userId: number, circleId: number) {
+    return this.applyEdit(eventId, adminId, async (context) => {
+      if (this.findCircle(context.circles, circleId).format !== CIRCLE_FORMAT.HOSTED) {
+        throw new CircleEditError('Waitlisted users can only be placed in hosted circles')
+      }
+
+      const waitlisted = await context.tx.select({ userId: matchingPool.userId, partnerId: matchingPool.partnerId })
+        .from(matchingPool)
+        .where(and(eq(matchingPool.eventId, eventId), isNotNull(matchingPool.waitlistedAt)))
+      const optIn = waitlisted.find(m => m.userId === userId)
+      if (!optIn) {
+        throw new CircleEditError('User is not on the waitlist for this event')
+      }
+
+      const userIds = waitlisted.some(m => m.userId === optIn.partnerId) ? [userId, optIn.partnerId!] : [userId]
+      return this.seatNewcomers(context, eventId, userIds, circleId)
+    })
+  }
+
+  /**
+   * Seat opted-in users who are not in any circle yet. Besides the circle rules applyEdit checks,
+   * the circle's kitchens and venues must suit them, as in a matching run.
+   */
+  private static async seatNewcomers(
+    { tx, circles }: EditContext,
+    eventId: number,
+    userIds: number[],
+    circleId: number,
+    role?: string
+  ): Promise<EditOutcome> {
+    const target = this.findCircle(circles, circleId)
+    const seated = circles.flatMap(c => c.members).find(m => userIds.includes(m.userId))
+    if (seated) {
+      throw new CircleEditError(`${this.displayName(seated)} is already in a circle`)
+    }
+
+    const optIns = await tx.select({
+      userId: matchingPool.userId,
+      partnerId: matchingPool.partnerId,
+      matchAddress: matchingPool.matchAddress,
+      name: users.name,
+    }).from(matchingPool)
+      .innerJoin(users, eq(matchingPool.userId, users.id))
+      .where(and(eq(matchingPool.eventId, eventId), inArray(matchingPool.userId, userIds)))
+    if (optIns.length < userIds.length) {
+      throw new CircleEditError('User has not opted in to this event')
+    }
+
+    const members: SeatedMember[] = optIns.map(optIn => ({ ...optIn, id: null, role: CIRCLE_ROLES.PARTICIPANT, venueAddress: null }))
+    for (const member of members) {
+      this.seat(target, member, role ?? this.getDefaultRole(member, target))
+    }
+
+    const seatingError = await MatchingService.getSeatingError(tx, eventId, target.format, target.members, userIds)
+    if (seatingError) {
+      throw new CircleEditError(seatingError)
+    }
+
+    // An organiser can bring back someone who withdrew
+    await tx.update(matchingPool)
+      .set({ waitlistedAt: null, withdrawnAt: null })
+      .where(and(eq(matchingPool.eventId, eventId), inArray(matchingPool.userId, userIds)))
+
+    return {
+      notices: [{
+        circleId: target.id,
+        message: `An organiser added ${members.map(m => this.displayName(m)).join(' and ')} to this circle as ${this.describeRole(members[0].role)}.`,
+      }],
+    }
+  }
+
+  /**
+   * Move some of a circle's members into a new circle of the same format.
+   * Each moved member keeps their role unless a new one is given.
+   */
+  static async splitCircle(
+    eventId: number,
+    adminId: number,
+    circleId: number,
+    moving: { userId: number; role?: string }[],
+    name?: string
+  ) {
+    return this.applyEdit(eventId, adminId, async ({ tx, circles: eventCircles }) => {
+      const source = this.findCircle(eventCircles, circleId)
+      const movingIds = new Set(moving.map(m => m.userId))
+      if (moving.some(m => !source.members.some(member => member.userId === m.userId))) {
+        throw new CircleEditError(`Only members of ${source.name} can be split off`)
+      }
+      if (movingIds.size !== moving.length) {
+        throw new CircleEditError('Each member can only be split off once')
+      }
+      if (movingIds.size === 0 || movingIds.size === source.members.length) {
+        throw new CircleEditError('Choose some, but not all, of the circle\'s members to split off')
+      }
+
+      const formatLabel = source.format === CIRCLE_FORMAT.ROTATING ? 'Rotating' : 'Hosted'
+      const [inserted] = await tx.insert(circles).values({
+        eventId,
+        name: name?.trim() || `${formatLabel} Circle ${eventCircles.length + 1}`,
+        format: source.format,
+      }).returning({ id: circles.id, name: circles.name, format: circles.format })
+      const created: EditableCircle = { ...inserted, members: [] }
+      eventCircles.push(created)
+
+      for (const { userId, role } of moving) {
+        const member = source.members.find(m => m.userId === userId)!
+        this.seat(created, member, role ?? member.role)
+      }
+      source.members = source.members.filter(m => !movingIds.has(m.userId))
+
+      const names = created.members.map(m => this.displayName(m)).join(', ')
+      return {
+        notices: [
+          { circleId: source.id, message: `An organiser split this circle; ${names} moved to ${created.name}.` },
+          { circleId: created.id, message: `An organiser formed this circle from ${source.name}.` },
+        ],
+      }
+    })
+  }
+
+  /**
+   * Move every member of one circle into another of the same format and remove the emptied circle.
+   * Its chat history moves with its members.
+   */
+  static async mergeCircles(eventId: number, adminId: number, circleId: number, intoCircleId: number) {
+    return this.applyEdit(eventId, adminId, async ({ tx, circles }) => {
+      const source = this.findCircle(circles, circleId)
+      const target = this.findCircle(circles, intoCircleId)
+      if (source.id === target.id) {
+        throw new CircleEditError('A circle cannot be merged into itself')
+      }
+      if (source.format !== target.format) {
+        throw new CircleEditError('Only circles of the same format can be merged')
+      }
+
+      for (const member of source.members) {
+        // The target keeps its own host
+        this.seat(target, member, member.role === CIRCLE_ROLES.HOST ? CIRCLE_ROLES.PARTICIPANT : member.role)
+      }
+      const names = source.members.map(m => this.displayName(m)).join(', ')
+      source.members = []
+      circles.splice(circles.indexOf(source), 1)
+
+      await tx.update(chatMessages).set({ circleId: target.id }).where(eq(chatMessages.circleId, source.id))
+
+      return {
+        notices: [{ circleId: target.id, message: `An organiser merged ${source.name} into this circle; welcome ${names}.` }],
+        removedCircleIds: [source.id],
+      }
+    })
+  }
+
+  /**
+   * Load the event's circles, apply an edit to them, check every changed circle still follows the rules,
+   * then save the changes, rescore the changed circles and post the edit's notices
+   */
+  private static async applyEdit(
+    eventId: number,
+    adminId: number,
+    edit: (context: EditContext) => Promise<EditOutcome>
+  ) {
+    await db.transaction(async (tx) => {
+      const [event] = await tx.select().from(events).where(eq(events.id, eventId)).for('update')
+      if (!event) {
+        throw new Error('Event not found')
+      }
+      if (event.matchingStatus !== EVENT_STATUS.MATCHED) {
+        throw new CircleEditError('Circles can only be edited once matching has completed')
+      }
+      if (new Date(`${event.date}T${event.startTime}`) <= new Date()) {
+        throw new CircleEditError('Circles cannot be edited once the event has started')
+      }
+
+      const eventCircles = await this.loadCircles(tx, eventId)
+      const original = new Map(eventCircles.flatMap(circle =>
+        circle.members.map(member => [member.userId, { circleId: circle.id, role: member.role, venueAddress: member.venueAddress }])
+      ))
+
+      const { notices, removedCircleIds = [] } = await edit({ tx, circles: eventCircles })
+
+      // Circles whose membership or roles changed, plus any the edit announced in
+      const changedCircleIds = new Set(notices.map(notice => notice.circleId))
+      for (const circle of eventCircles) {
+        for (const member of circle.members) {
+          const before = original.get(member.userId)
+          if (!before || before.circleId !== circle.id || before.role !== member.role || before.venueAddress !== member.venueAddress) {
+            changedCircleIds.add(circle.id)
+            if (before) changedCircleIds.add(before.circleId)
+          }
+        }
+      }
+
+      const changedCircles = eventCircles.filter(circle => changedCircleIds.has(circle.id))
+      const exclusions = await BlockService.getExclusions(changedCircles.flatMap(circle => circle.members.map(m => m.userId)), tx)
+      for (const circle of changedCircles) {
+        const error = this.getCircleError(circle, event.maxCircleSize, exclusions)
+        if (error) {
+          throw new CircleEditError(error)
+        }
+      }
+
+      for (const circle of changedCircles) {
+        for (const member of circle.members) {
+          const before = original.get(member.userId)
+          const values = { circleId: circle.id, role: member.role, venueAddress: member.venueAddress }
+          if (member.id === null) {
+            await tx.insert(circleMembers).values({ ...values, userId: member.userId })
+          } else if (before && (before.circleId !== circle.id || before.role !== member.role || before.venueAddress !== member.venueAddress)) {
+            await tx.update(circleMembers).set(values).where(eq(circleMembers.id, member.id))
+          }
+        }
+      }
+
+      if (removedCircleIds.length > 0) {
+        await tx.delete(circles).where(inArray(circles.id, removedCircleIds))
+      }
+
+      for (const circle of changedCircles) {
+        await MatchingService.rescoreCircle(tx, eventId, circle.id)
+      }
+
+      const liveNotices = notices.filter(notice => !removedCircleIds.includes(notice.circleId))
+      if (liveNotices.length > 0) {
+        await tx.insert(chatMessages).values(liveNotices.map(notice => ({
+          circleId: notice.circleId,
+          userId: adminId,
+          type: CHAT_MESSAGE_TYPE.SYSTEM,
+          message: notice.message,
+        })))
+      }
+    })
+
+    return MatchingService.getMatchingResults(eventId)
+  }
+
+  private static async loadCircles(tx: DbTransaction, eventId: number): Promise<EditableCircle[]> {
+    const eventCircles = await tx.select({ id: circles.id, name: circles.name, format: circles.format })
+      .from(circles)
+      .where(eq(circles.eventId, eventId))
+      .orderBy(circles.id)
+    if (eventCircles.length === 0) {
+      return []
+    }
+
+    const members = await tx.select({
+      id: circleMembers.id,
+      circleId: circleMembers.circleId,
+      userId: circleMembers.userId,
+      role: circleMembers.role,
+      venueAddress: circleMembers.venueAddress,
+      name: users.name,
+      partnerId: matchingPool.partnerId,
+      matchAddress: matchingPool.matchAddress,
+    }).from(circleMembers)
+      .innerJoin(users, eq(circleMembers.userId, users.id))
+      .leftJoin(matchingPool, and(eq(matchingPool.userId, circleMembers.userId), eq(matchingPool.eventId, eventId)))
+      .where(inArray(circleMembers.circleId, eventCircles.map(circle => circle.id)))
+
+    return eventCircles.map(circle => ({
+      ...circle,
+      members: members
+        .filter(member => member.circleId === circle.id)
+        .map(({ circleId: _circleId, ...member }) => member),
+    }))
+  }
+
+  /**
+   * Why a circle breaks the rules: it must be non-empty, within the event's maximum size and free of anyone
+   * kept apart by a block, a hosted circle needs exactly one host, and a rotating circle needs every course cooked at a known address
+   */
+  private static getCircleError(circle: EditableCircle, maxCircleSize: number, exclusions: Map<number, Set<number>>): string | null {
+    if (circle.members.length === 0) {
+      return `${circle.name} would be left empty`
+    }
+    if (circle.members.length > maxCircleSize) {
+      return `${circle.name} would have ${circle.members.length} members, more than the event's maximum of ${maxCircleSize}`
+    }
+    const keptApart = circle.members.find(m => circle.members.some(other => exclusions.get(m.userId)?.has(other.userId)))
+    if (keptApart) {
+      return `${this.displayName(keptApart)} must be kept apart from someone in ${circle.name}`
+    }
+
+    if (circle.format === CIRCLE_FORMAT.HOSTED) {
+      if (circle.members.some(m => m.role !== CIRCLE_ROLES.HOST && m.role !== CIRCLE_ROLES.PARTICIPANT)) {
+        return `Members of ${circle.name} can only be the host or participants`
+      }
+      if (circle.members.filter(m => m.role === CIRCLE_ROLES.HOST).length !== 1) {
+        return `${circle.name} must have exactly one host`
+      }
+      return null
+    }
+
+    if (circle.members.some(m => !(ROTATING_COURSES as readonly string[]).includes(m.role))) {
+      return `Every member of ${circle.name} must cook a starter, main or dessert`
+    }
+    const uncovered = ROTATING_COURSES.filter(course => !circle.members.some(m => m.role === course))
+    if (uncovered.length > 0) {
+      return `Nobody in ${circle.name} is cooking the ${uncovered.join(' or ')}`
+    }
+    const homeless = circle.members.find(m => !m.venueAddress)
+    if (homeless) {
+      return `${this.displayName(homeless)} has no address to serve a course from`
+    }
+    return null
+  }
+
+  /**
+   * Seat a member in a circle with a role. Course venues are the household's own address.
+   */
+  private static seat(circle: EditableCircle, member: SeatedMember, role: string): void {
+    member.role = role
+    member.venueAddress = circle.format === CIRCLE_FORMAT.ROTATING
+      ? member.matchAddress?.trim()
+        || circle.members.find(m => m.userId === member.partnerId)?.venueAddress
+        || null
+      : null
+    circle.members.push(member)
+  }
+
+  /**
+   * A member joining a circle keeps their role if it fits the circle; hosted guests join as participants,
+   * and rotating guests cook with their partner when the partner is already in the circle
+   */
+  private static getDefaultRole(member: SeatedMember, circle: EditableCircle): string {
+    if (circle.format === CIRCLE_FORMAT.HOSTED) {
+      return CIRCLE_ROLES.PARTICIPANT
+    }
+    if ((ROTATING_COURSES as readonly string[]).includes(member.role)) {
+      return member.role
+    }
+    const partner = circle.members.find(m => m.userId === member.partnerId)
+    if (partner) {
+      return partner.role
+    }
+    throw new CircleEditError(`Choose which course ${this.displayName(member)} cooks in ${circle.name}`)
+  }
+
+  private static findCircle(circles: EditableCircle[], circleId: number): EditableCircle {
+    const circle = circles.find(c => c.id === circleId)
+    if (!circle) {
+      throw new Error('Circle not found')
+    }
+    return circle
+  }
+
+  private static findSeated(circles: EditableCircle[], userId: number): { member: SeatedMember; circle: EditableCircle } {
+    for (const circle of circles) {
+      const member = circle.members.find(m => m.userId === userId)
+      if (member) {
+        return { member, circle }
+      }
+    }
+    throw new CircleEditError('User is not in any of this event\'s circles')
+  }
+
+  private static displayName(member: Pick<SeatedMember, 'userId' | 'name'>): string {
+    return member.name || `User ${member.userId}`
+  }
+
+  private static describeRole(role: string): string {
+    if (role === CIRCLE_ROLES.HOST) return 'the host'
+    if (role === CIRCLE_ROLES.PARTICIPANT) return 'a guest'
+    return `the ${role} cook`
+  }
+}
@@ -0,0 +1,140 @@
+import { MATCHING_CONFIG } from '../config/constants'
+
+export interface OptimizedGroup<T> {
+  units: T[][]
+  members: T[]
+  score: number
+}
+
+export interface OptimizerOptions<T> {
+  groupCount: number
+  groupSize: number
+  scoreGroup: (members: T[]) => number
+  unitKey: (unit: T[]) => number
+  maxPasses?: number
+}
+
+export interface OptimizerResult<T> {
+  groups: OptimizedGroup<T>[]
+  leftover: T[][]
+}
+
+export class CircleOptimizer {
+  /**
+   * Partition units into groups so that the total group score is maximized.
+   *
+   * A unit is a set of members that must be seated together (e.g. partners).
+   * Groups are seeded greedily by best marginal score, then improved with
+   * local-search swaps of equally sized units between groups and the leftovers.
+   * Units are ordered by `unitKey` first so the same pool always yields the same result.
+   */
+  static formGroups<T>(units: T[][], options: OptimizerOptions<T>): OptimizerResult<T> {
+    const { groupCount, groupSize, scoreGroup, unitKey } = options
+    const maxPasses = options.maxPasses ?? MATCHING_CONFIG.OPTIMIZER_MAX_PASSES
+
+    const remaining = [...units].sort((a, b) => b.length - a.length || unitKey(a) - unitKey(b))
+    const groups: T[][][] = Array.from({ length: groupCount }, () => [])
+
+    this.seedGroups(groups, remaining, groupSize, scoreGroup)
+    this.improveGroups(groups, remaining, scoreGroup, maxPasses)
+
+    return {
+      groups: groups.map(group => {
+        const members = group.flat()
+        return { units: group, members, score: scoreGroup(members) }
+      }),
+      leftover: remaining,
+    }
+  }
+
+  /**
+   * Greedily place units, largest first, into the group where they add the most score
+   */
+  private static seedGroups<T>(
+    groups: T[][][],
+    remaining: T[][],
+    groupSize: number,
+    scoreGroup: (members: T[]) => number
+  ): void {
+    const sizes = [...new Set(remaining.map(unit => unit.length))].sort((a, b) => b - a)
+
+    for (const size of sizes) {
+      while (true) {
+        let best: { unitIndex: number; groupIndex: number; gain: number } | null = null
+
+        for (let u = 0; u < remaining.length; u++) {
+          if (remaining[u].length !== size) continue
+
+          for (let g = 0; g < groups.length; g++) {
+            const members = groups[g].flat()
+            if (members.length + size > groupSize) continue
+
+            // Prefer emptier groups on ties so seeds spread across circles
+            const gain = scoreGroup([...members, ...remaining[u]]) - scoreGroup(members) - members.length * 1e-6
+            if (!best || gain > best.gain) {
+              best = { unitIndex: u, groupIndex: g, gain }
+            }
+          }
+        }
+
+        if (!best) break
+        groups[best.groupIndex].push(remaining[best.unitIndex])
+        remaining.splice(best.unitIndex, 1)
+      }
+    }
+  }
+
+  /**
+   * Swap equally sized units between groups (and with leftovers) while it improves the total score
+   */
+  private static improveGroups<T>(
+    groups: T[][][],
+    remaining: T[][],
+    scoreGroup: (members: T[]) => number,
+    maxPasses: number
+  ): void {
+    const scoreOf = (group: T[][]) => scoreGroup(group.flat())
+    const withSwap = (group: T[][], index: number, unit: T[]) =>
+      group.map((existing, i) => (i === index ? unit : existing))
+
+    for (let pass = 0; pass < maxPasses; pass++) {
+      let improved = false
+
+      for (let a = 0; a < groups.length; a++) {
+        for (let b = a + 1; b < groups.length; b++) {
+          for (let i = 0; i < groups[a].length; i++) {
+            for (let j = 0; j < groups[b].length; j++) {
+              if (groups[a][i].length !== groups[b][j].length) continue
+
+              const before = scoreOf(groups[a]) + scoreOf(groups[b])
+              const nextA = withSwap(groups[a], i, groups[b][j])
+              const nextB = withSwap(groups[b], j, groups[a][i])
+              if (scoreOf(nextA) + scoreOf(nextB) > before) {
+                groups[a] = nextA
+                groups[b] = nextB
+                improved = true
+              }
+            }
+          }
+        }
+
+        // Leftover units can replace a placed unit of the same size if the circle scores higher
+        for (let i = 0; i < groups[a].length; i++) {
+          for (let r = 0; r < remaining.length; r++) {
+            if (groups[a][i].length !== remaining[r].length) continue
+
+            const next = withSwap(groups[a], i, remaining[r])
+            if (scoreOf(next) > scoreOf(groups[a])) {
+              const displaced = groups[a][i]
+              groups[a] = next
+              remaining[r] = displaced
+              improved = true
+            }
+          }
+        }
+      }
+
+      if (!improved) break
+    }
+  }
+}
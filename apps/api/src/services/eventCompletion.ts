@@ -0,0 +1,90 @@
+import { db } from '../db/client'
+import { events, circles, circleMembers } from '../db/schema'
+import { eq, and, inArray, isNull } from 'drizzle-orm'
+import { EVENT_STATUS, CIRCLE_ROLES, ROTATING_COURSES, ATTENDANCE_STATUS } from '../config/constants'
+import { RewardsService } from './rewards'
+
+// Only events that actually took place earn points
+export class EventCompletionError extends Error {}
+
+export interface EventCompletionResult {
+  eventId: number
+  membersAwarded: number // Members who got points on this run
+  alreadyAwarded: number // Members who had them from an earlier run
+  noShows: number // Members marked as no-shows, who earn nothing
+}
+
+/**
+ * The post-event job: once an event completes, every circle member earns points for their role.
+ * Guests earn participation points, hosts hosting points and rotating-course hosts points for their
+ * course, then their badges are rechecked. Members marked as no-shows are skipped. Awards are
+ * recorded per user and event, so the job can be re-run safely after a failure or by an admin.
+ */
+export class EventCompletionService {
+  /**
+   * Award the points and badges for one completed event
+   */
+  static async awardEvent(eventId: number): Promise<EventCompletionResult> {
+    const [event] = await db.select().from(events).where(eq(events.id, eventId))
+    if (!event) {
+      throw new Error('Event not found')
+    }
+    if (event.matchingStatus !== EVENT_STATUS.COMPLETED && event.matchingStatus !== EVENT_STATUS.ARCHIVED) {
+      throw new EventCompletionError('Points are only awarded once an event has completed')
+    }
+
+    const members = await db.select({ userId: circleMembers.userId, role: circleMembers.role, attendance: circleMembers.attendance })
+      .from(circleMembers)
+      .innerJoin(circles, eq(circleMembers.circleId, circles.id))
+      .where(eq(circles.eventId, eventId))
+
+    const result: EventCompletionResult = { eventId, membersAwarded: 0, alreadyAwarded: 0, noShows: 0 }
+    for (const member of members) {
+      if (member.attendance === ATTENDANCE_STATUS.NO_SHOW) {
+        result.noShows++
+        continue
+      }
+      const awarded = await this.awardMember(member.userId, eventId, member.role)
+      if (awarded) {
+        result.membersAwarded++
+      } else {
+        result.alreadyAwarded++
+      }
+    }
+
+    await db.update(events).set({ rewardsAwardedAt: new Date() }).where(eq(events.id, eventId))
+    return result
+  }
+
+  /**
+   * Completed events the job has not finished for yet, e.g. because their completion hook failed
+   */
+  static async awardPending(): Promise<number> {
+    const pending = await db.select({ id: events.id }).from(events).where(and(
+      inArray(events.matchingStatus, [EVENT_STATUS.COMPLETED, EVENT_STATUS.ARCHIVED]),
+      isNull(events.rewardsAwardedAt)
+    ))
+
+    let awarded = 0
+    for (const { id } of pending) {
+      try {
+        await this.awardEvent(id)
+        awarded++
+      } catch (error) {
+        console.error(`Completion job error for event ${id}:`, error)
+      }
+    }
+    return awarded
+  }
+
+  /**
+   * Award one member's points for their role and recheck their badges, which happens even when
+   * they already had the points, in case an earlier run stopped in between; false if they had them
+   */
+  static async awardMember(userId: number, eventId: number, role: string): Promise<boolean> {
+    if ((ROTATING_COURSES as readonly string[]).includes(role)) {
+      return RewardsService.awardCourseHostingPoints(userId, eventId, role)
+    }
+    return RewardsService.awardEventParticipationPoints(userId, eventId, role === CIRCLE_ROLES.HOST)
+  }
+}
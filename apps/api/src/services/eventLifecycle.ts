@@ -0,0 +1,205 @@
+import { db } from '../db/client'
+import { events, eventStatusChanges, matchingPool, circles, circleMembers, emailNotifications, partnerInvitations } from '../db/schema'
+import { eq, and, inArray, lte } from 'drizzle-orm'
+import { EVENT_STATUS, LIFECYCLE_CONFIG, INVITATION_STATUS } from '../config/constants'
+import type { EventStatus } from '../config/constants'
+import { EventCompletionService } from './eventCompletion'
+import type { DbTransaction } from './matching'
+
+type Event = typeof events.$inferSelect
+type StatusChange = typeof eventStatusChanges.$inferSelect
+
+// A transition the lifecycle does not allow
+export class EventLifecycleError extends Error {}
+
+export interface TransitionOptions {
+  changedBy?: number | null // Null for the scheduler and matching
+  reason?: string | null
+  // Other event fields to set along with the status, e.g. the matching strategy used
+  changes?: Partial<typeof events.$inferInsert>
+}
+
+// Where each status can go next
+const TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  [EVENT_STATUS.DRAFT]: [EVENT_STATUS.OPEN, EVENT_STATUS.CANCELLED],
+  [EVENT_STATUS.OPEN]: [EVENT_STATUS.DRAFT, EVENT_STATUS.MATCHING, EVENT_STATUS.CANCELLED],
+  [EVENT_STATUS.MATCHING]: [EVENT_STATUS.MATCHED, EVENT_STATUS.OPEN], // Back to open when a run fails or is reset
+  [EVENT_STATUS.MATCHED]: [EVENT_STATUS.IN_PROGRESS, EVENT_STATUS.OPEN, EVENT_STATUS.CANCELLED],
+  [EVENT_STATUS.IN_PROGRESS]: [EVENT_STATUS.COMPLETED],
+  [EVENT_STATUS.COMPLETED]: [EVENT_STATUS.ARCHIVED],
+  [EVENT_STATUS.CANCELLED]: [EVENT_STATUS.ARCHIVED],
+  [EVENT_STATUS.ARCHIVED]: [],
+}
+
+/**
+ * The event lifecycle: draft → open → matching → matched → in_progress → completed → archived,
+ * with cancelled reachable until the dinner starts. Every transition is validated and recorded in
+ * eventStatusChanges. Entering completed or cancelled fires a hook once the change is committed.
+ */
+export class EventLifecycleService {
+  static canTransition(from: string, to: string): boolean {
+    return TRANSITIONS[from as EventStatus]?.includes(to as EventStatus) ?? false
+  }
+
+  /**
+   * Move an event to a new status and run the hook for entering it
+   */
+  static async transition(eventId: number, to: EventStatus, options: TransitionOptions = {}): Promise<Event> {
+    const { event, change } = await db.transaction(async (tx) => {
+      const [event] = await tx.select().from(events).where(eq(events.id, eventId)).for('update')
+      if (!event) {
+        throw new Error('Event not found')
+      }
+      return this.applyTransition(tx, event, to, options)
+    })
+
+    await this.runEnterHook(event, change)
+    return event
+  }
+
+  /**
+   * Validate and record a transition inside the caller's transaction, with the event row already locked.
+   * Hooks are not run here; callers that enter a hooked status should use transition().
+   */
+  static async applyTransition(tx: DbTransaction, event: Event, to: EventStatus, options: TransitionOptions = {}): Promise<{ event: Event; change: StatusChange }> {
+    if (!this.canTransition(event.matchingStatus, to)) {
+      throw new EventLifecycleError(`An event that is ${event.matchingStatus.replace('_', ' ')} cannot become ${to.replace('_', ' ')}`)
+    }
+
+    const [updated] = await tx.update(events)
+      .set({ ...this.getTimestampChanges(to), ...options.changes, matchingStatus: to })
+      .where(eq(events.id, event.id))
+      .returning()
+    const [change] = await tx.insert(eventStatusChanges).values({
+      eventId: event.id,
+      fromStatus: event.matchingStatus,
+      toStatus: to,
+      changedBy: options.changedBy ?? null,
+      reason: options.reason ?? null,
+    }).returning()
+
+    return { event: updated, change }
+  }
+
+  /**
+   * Time-driven transitions, run by the scheduler on each tick: matched dinners start and finish,
+   * open events that were never matched are cancelled at their start time, and old ones are archived.
+   */
+  static async advance(now: Date = new Date()): Promise<number> {
+    const today = this.toDateString(now)
+    const archiveBefore = this.toDateString(new Date(now.getTime() - LIFECYCLE_CONFIG.ARCHIVE_AFTER_DAYS * 24 * 60 * 60_000))
+    let advanced = 0
+
+    const started = await db.select().from(events).where(and(
+      inArray(events.matchingStatus, [EVENT_STATUS.OPEN, EVENT_STATUS.MATCHED, EVENT_STATUS.IN_PROGRESS]),
+      lte(events.date, today)
+    ))
+    for (const event of started) {
+      const startsAt = new Date(`${event.date}T${event.startTime}`)
+      const endsAt = new Date(`${event.date}T${event.endTime}`)
+      if (event.matchingStatus === EVENT_STATUS.OPEN && startsAt <= now) {
+        advanced += await this.tryTransition(event, EVENT_STATUS.CANCELLED, 'It started before matching ran')
+      } else if (event.matchingStatus === EVENT_STATUS.MATCHED && startsAt <= now) {
+        advanced += await this.tryTransition(event, EVENT_STATUS.IN_PROGRESS)
+      } else if (event.matchingStatus === EVENT_STATUS.IN_PROGRESS && endsAt <= now) {
+        advanced += await this.tryTransition(event, EVENT_STATUS.COMPLETED)
+      }
+    }
+
+    const finished = await db.select().from(events).where(and(
+      inArray(events.matchingStatus, [EVENT_STATUS.COMPLETED, EVENT_STATUS.CANCELLED]),
+      lte(events.date, archiveBefore)
+    ))
+    for (const event of finished) {
+      advanced += await this.tryTransition(event, EVENT_STATUS.ARCHIVED)
+    }
+    return advanced
+  }
+
+  /**
+   * An event's status history, oldest first
+   */
+  static async getHistory(eventId: number): Promise<StatusChange[]> {
+    return db.select().from(eventStatusChanges)
+      .where(eq(eventStatusChanges.eventId, eventId))
+      .orderBy(eventStatusChanges.createdAt, eventStatusChanges.id)
+  }
+
+  // One event failing to advance must not hold up the rest
+  private static async tryTransition(event: Event, to: EventStatus, reason?: string): Promise<number> {
+    try {
+      await this.transition(event.id, to, { reason })
+      return 1
+    } catch (error) {
+      console.error(`Lifecycle error moving event ${event.id} to ${to}:`, error)
+      return 0
+    }
+  }
+
+  // The event columns that record entering a status; going back to open clears the matching ones
+  private static getTimestampChanges(to: EventStatus): Partial<typeof events.$inferInsert> {
+    switch (to) {
+      case EVENT_STATUS.MATCHING:
+        return { matchingTriggeredAt: new Date() }
+      case EVENT_STATUS.MATCHED:
+        return { matchingCompletedAt: new Date() }
+      case EVENT_STATUS.OPEN:
+        return { matchingTriggeredAt: null, matchingCompletedAt: null }
+      case EVENT_STATUS.CANCELLED:
+        return { cancelledAt: new Date() }
+      default:
+        return {}
+    }
+  }
+
+  // Hooks run after the transition has committed, so a failure is logged rather than undoing it
+  private static async runEnterHook(event: Event, change: StatusChange): Promise<void> {
+    try {
+      if (change.toStatus === EVENT_STATUS.COMPLETED) {
+        await this.onCompleted(event)
+      } else if (change.toStatus === EVENT_STATUS.CANCELLED) {
+        await this.onCancelled(event, change)
+      }
+    } catch (error) {
+      console.error(`Lifecycle hook error for event ${event.id} entering ${change.toStatus}:`, error)
+    }
+  }
+
+  // The scheduler retries the completion job for events it did not finish
+  private static async onCompleted(event: Event): Promise<void> {
+    await EventCompletionService.awardEvent(event.id)
+  }
+
+  // Everyone with a seat is told: circle members once matched, otherwise everyone opted in
+  private static async onCancelled(event: Event, change: StatusChange): Promise<void> {
+    await db.update(partnerInvitations)
+      .set({ status: INVITATION_STATUS.CANCELLED })
+      .where(and(eq(partnerInvitations.eventId, event.id), eq(partnerInvitations.status, INVITATION_STATUS.PENDING)))
+
+    const recipients = change.fromStatus === EVENT_STATUS.MATCHED
+      ? await this.getCircleMembers(event.id)
+      : await db.select({ userId: matchingPool.userId }).from(matchingPool).where(eq(matchingPool.eventId, event.id))
+    if (recipients.length === 0) {
+      return
+    }
+
+    await db.insert(emailNotifications).values(recipients.map(({ userId }) => ({
+      userId,
+      type: 'event_cancelled',
+      subject: `${event.title} on ${event.date} is cancelled`,
+      body: `Sorry, the dinner on ${event.date} has been called off.${change.reason ? ` Reason: ${change.reason}` : ''}`,
+    })))
+  }
+
+  private static async getCircleMembers(eventId: number) {
+    return db.select({ userId: circleMembers.userId })
+      .from(circleMembers)
+      .innerJoin(circles, eq(circleMembers.circleId, circles.id))
+      .where(eq(circles.eventId, eventId))
+  }
+
+  private static toDateString(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  }
+}
@@ -0,0 +1,391 @@
+import { db } from '../db/client'
+import { eventSeries, seriesOptIns, events, matchingPool, partnerInvitations } from '../db/schema'
+import { eq, and, gte, gt, or, isNull, inArray, count } from 'drizzle-orm'
+import { SERIES_RECURRENCE, SERIES_CONFIG, EVENT_STATUS, INVITATION_STATUS } from '../config/constants'
+import { GeocodingService } from './geocoding'
+import { HouseholdService } from './households'
+import { EventLifecycleService } from './eventLifecycle'
+
+type Series = typeof eventSeries.$inferSelect
+type SeriesOptIn = typeof seriesOptIns.$inferSelect
+type Event = typeof events.$inferSelect
+
+// A series change or opt-in that cannot be applied
+export class SeriesError extends Error {}
+
+// Fields a series passes on to each occurrence it generates
+export type SeriesEventFields = Pick<Series,
+  'title' | 'description' | 'theme' | 'neighbourhoodId' | 'maxParticipants' | 'coverImageUrl'
+  | 'startTime' | 'endTime' | 'matchingStrategy' | 'minCircleSize' | 'maxCircleSize' | 'circleFormats' | 'minOptIns'>
+
+export type NewSeries = SeriesEventFields & Pick<Series, 'recurrence' | 'nthWeek' | 'firstDate' | 'lastDate'>
+
+export interface SeriesOptInOptions {
+  withPartner: boolean
+  matchAddress?: string
+  hostingAvailable: boolean
+}
+
+/**
+ * Recurring dinners. A series keeps its occurrences generated as ordinary events up to
+ * GENERATE_AHEAD_DAYS ahead, and users opted in to the series are opted in to each one.
+ * An occurrence edited on its own is detached, so later series edits leave it alone.
+ */
+export class EventSeriesService {
+  static async create(data: NewSeries, adminId: number): Promise<{ series: Series; eventsCreated: number }> {
+    const [series] = await db.insert(eventSeries).values({ ...data, createdBy: adminId }).returning()
+    const eventsCreated = await this.generateOccurrences(series)
+    return { series, eventsCreated }
+  }
+
+  /**
+   * Series still running, with their next open occurrence and opt-in count
+   */
+  static async listActive(today: string = this.toDateString(new Date())) {
+    const active = await db.query.eventSeries.findMany({
+      where: or(isNull(eventSeries.lastDate), gte(eventSeries.lastDate, today)),
+      with: {
+        neighbourhood: true,
+        optIns: { columns: { userId: true } },
+        events: {
+          where: and(gte(events.date, today), eq(events.matchingStatus, EVENT_STATUS.OPEN)),
+          columns: { id: true, date: true },
+        },
+      },
+      orderBy: [eventSeries.firstDate],
+    })
+
+    return active.map(({ neighbourhood, optIns, events: upcoming, ...series }) => ({
+      ...series,
+      neighbourhood: neighbourhood?.name ?? null,
+      optInUserIds: optIns.map(optIn => optIn.userId),
+      nextDate: upcoming.map(event => event.date).sort()[0] ?? null,
+      upcomingCount: upcoming.length,
+    }))
+  }
+
+  /**
+   * Change a series. Future occurrences that are still open and haven't been edited on their own follow the change.
+   * Shortening the series cancels the open occurrences past its new last date; extending it generates more.
+   */
+  static async update(seriesId: number, changes: Partial<SeriesEventFields & Pick<Series, 'lastDate'>>): Promise<{ series: Series; eventsUpdated: number; eventsCancelled: number }> {
+    const [series] = await db.update(eventSeries).set(changes).where(eq(eventSeries.id, seriesId)).returning()
+    if (!series) {
+      throw new Error('Series not found')
+    }
+
+    const { lastDate, ...eventChanges } = changes
+    const today = this.toDateString(new Date())
+    let eventsUpdated = 0
+    if (Object.keys(eventChanges).length > 0) {
+      const updated = await db.update(events)
+        .set(eventChanges)
+        .where(and(
+          eq(events.seriesId, seriesId),
+          eq(events.seriesDetached, false),
+          eq(events.matchingStatus, EVENT_STATUS.OPEN),
+          gte(events.date, today)
+        ))
+        .returning({ id: events.id })
+      eventsUpdated = updated.length
+    }
+
+    let eventsCancelled = 0
+    if (lastDate !== undefined) {
+      if (lastDate) {
+        const beyond = await db.select({ id: events.id }).from(events).where(and(
+          eq(events.seriesId, seriesId),
+          eq(events.matchingStatus, EVENT_STATUS.OPEN),
+          gt(events.seriesDate, lastDate)
+        ))
+        for (const { id } of beyond) {
+          await EventLifecycleService.transition(id, EVENT_STATUS.CANCELLED, { reason: 'The series it belonged to now ends earlier' })
+        }
+        eventsCancelled = beyond.length
+      }
+      await this.generateOccurrences(series)
+    }
+
+    return { series, eventsUpdated, eventsCancelled }
+  }
+
+  /**
+   * Opt a user in to a series: every upcoming open occurrence now, and each one generated later.
+   * Occurrences that are already full are skipped.
+   */
+  static async optIn(seriesId: number, userId: number, options: SeriesOptInOptions): Promise<{ optIn: SeriesOptIn; eventsJoined: number; eventsFull: number }> {
+    const [series] = await db.select().from(eventSeries).where(eq(eventSeries.id, seriesId))
+    if (!series) {
+      throw new Error('Series not found')
+    }
+    const today = this.toDateString(new Date())
+    if (series.lastDate && series.lastDate < today) {
+      throw new SeriesError('This series has ended')
+    }
+    if (options.withPartner && !(await HouseholdService.getActivePartnerId(userId))) {
+      throw new SeriesError('You are not in a household; link a partner from your profile first')
+    }
+
+    const coordinates = await GeocodingService.geocode(options.matchAddress)
+    const [optIn] = await db.insert(seriesOptIns).values({
+      seriesId,
+      userId,
+      withPartner: options.withPartner,
+      matchAddress: options.matchAddress,
+      matchLatitude: coordinates?.latitude,
+      matchLongitude: coordinates?.longitude,
+      hostingAvailable: options.hostingAvailable,
+    }).onConflictDoNothing().returning()
+    if (!optIn) {
+      throw new SeriesError('Already opted in to this series')
+    }
+
+    const upcoming = await db.select().from(events).where(and(
+      eq(events.seriesId, seriesId),
+      eq(events.matchingStatus, EVENT_STATUS.OPEN),
+      gte(events.date, today)
+    ))
+    let eventsJoined = 0
+    for (const event of upcoming) {
+      if (await this.optInToEvent(event, optIn)) {
+        eventsJoined++
+      }
+    }
+
+    return { optIn, eventsJoined, eventsFull: upcoming.length - eventsJoined }
+  }
+
+  /**
+   * Leave a series, opting out of its upcoming occurrences that haven't been matched yet
+   */
+  static async optOut(seriesId: number, userId: number): Promise<{ eventsLeft: number }> {
+    const removed = await db.delete(seriesOptIns)
+      .where(and(eq(seriesOptIns.seriesId, seriesId), eq(seriesOptIns.userId, userId)))
+      .returning({ id: seriesOptIns.id })
+    if (removed.length === 0) {
+      throw new SeriesError('Not opted in to this series')
+    }
+
+    const upcoming = await db.select({ id: events.id }).from(events).where(and(
+      eq(events.seriesId, seriesId),
+      eq(events.matchingStatus, EVENT_STATUS.OPEN),
+      gte(events.date, this.toDateString(new Date()))
+    ))
+    if (upcoming.length === 0) {
+      return { eventsLeft: 0 }
+    }
+    const eventIds = upcoming.map(event => event.id)
+
+    return db.transaction(async (tx) => {
+      const left = await tx.delete(matchingPool)
+        .where(and(inArray(matchingPool.eventId, eventIds), eq(matchingPool.userId, userId)))
+        .returning({ eventId: matchingPool.eventId, partnerId: matchingPool.partnerId })
+
+      // A partner stays opted in, on their own
+      for (const { eventId, partnerId } of left) {
+        if (partnerId) {
+          await tx.update(matchingPool)
+            .set({ partnerId: null, householdId: null })
+            .where(and(eq(matchingPool.eventId, eventId), eq(matchingPool.userId, partnerId)))
+        }
+      }
+      await tx.update(partnerInvitations)
+        .set({ status: INVITATION_STATUS.CANCELLED })
+        .where(and(
+          inArray(partnerInvitations.eventId, eventIds),
+          eq(partnerInvitations.inviterId, userId),
+          eq(partnerInvitations.status, INVITATION_STATUS.PENDING)
+        ))
+
+      return { eventsLeft: left.length }
+    })
+  }
+
+  /**
+   * Create the occurrences due within the generation window for every running series.
+   * Run by the matching scheduler on each tick.
+   */
+  static async generateAll(now: Date = new Date()): Promise<number> {
+    const today = this.toDateString(now)
+    const running = await db.select().from(eventSeries)
+      .where(or(isNull(eventSeries.lastDate), gte(eventSeries.lastDate, today)))
+
+    let created = 0
+    for (const series of running) {
+      created += await this.generateOccurrences(series, now)
+    }
+    return created
+  }
+
+  /**
+   * The dates a series' rule gives from its first date up to and including `until`
+   */
+  static getOccurrenceDates(series: Pick<Series, 'recurrence' | 'nthWeek' | 'firstDate' | 'lastDate'>, until: string): string[] {
+    const last = series.lastDate && series.lastDate < until ? series.lastDate : until
+    const first = this.parseDate(series.firstDate)
+    const dates: string[] = []
+
+    if (series.recurrence === SERIES_RECURRENCE.WEEKLY || series.recurrence === SERIES_RECURRENCE.BIWEEKLY) {
+      const stepDays = series.recurrence === SERIES_RECURRENCE.WEEKLY ? 7 : 14
+      for (let date = first; this.formatDate(date) <= last; date = this.addDays(date, stepDays)) {
+        dates.push(this.formatDate(date))
+      }
+      return dates
+    }
+
+    for (let monthOffset = 0; ; monthOffset++) {
+      const year = first.getUTCFullYear()
+      const month = first.getUTCMonth() + monthOffset
+      const date = series.recurrence === SERIES_RECURRENCE.NTH_WEEKDAY
+        ? this.getNthWeekday(year, month, first.getUTCDay(), series.nthWeek ?? 1)
+        : new Date(Date.UTC(year, month, first.getUTCDate()))
+
+      // Months too short for the day (e.g. the 31st) are skipped
+      if (series.recurrence === SERIES_RECURRENCE.MONTHLY && date.getUTCDate() !== first.getUTCDate()) {
+        if (this.formatDate(new Date(Date.UTC(year, month, 1))) > last) break
+        continue
+      }
+      const formatted = this.formatDate(date)
+      if (formatted > last) break
+      if (formatted >= series.firstDate) {
+        dates.push(formatted)
+      }
+    }
+    return dates
+  }
+
+  private static async generateOccurrences(series: Series, now: Date = new Date()): Promise<number> {
+    const today = this.toDateString(now)
+    const until = this.toDateString(new Date(now.getTime() + SERIES_CONFIG.GENERATE_AHEAD_DAYS * 24 * 60 * 60_000))
+    const dates = this.getOccurrenceDates(series, until).filter(date => date >= today)
+    if (dates.length === 0) {
+      return 0
+    }
+
+    // Occurrences already generated, including cancelled or moved ones, are left as they are
+    const created = await db.insert(events).values(dates.map(date => ({
+      title: series.title,
+      description: series.description,
+      theme: series.theme,
+      neighbourhoodId: series.neighbourhoodId,
+      maxParticipants: series.maxParticipants,
+      coverImageUrl: series.coverImageUrl,
+      date,
+      startTime: series.startTime,
+      endTime: series.endTime,
+      matchingStrategy: series.matchingStrategy,
+      minCircleSize: series.minCircleSize,
+      maxCircleSize: series.maxCircleSize,
+      circleFormats: series.circleFormats,
+      minOptIns: series.minOptIns,
+      seriesId: series.id,
+      seriesDate: date,
+    }))).onConflictDoNothing({ target: [events.seriesId, events.seriesDate] }).returning()
+
+    if (created.length > 0) {
+      const subscribers = await db.select().from(seriesOptIns).where(eq(seriesOptIns.seriesId, series.id))
+      for (const event of created) {
+        for (const optIn of subscribers) {
+          await this.optInToEvent(event, optIn)
+        }
+      }
+    }
+    return created.length
+  }
+
+  /**
+   * Opt a series subscriber in to one occurrence, with their household partner if they asked to.
+   * Returns false when the event is no longer open or has no room for them.
+   */
+  private static async optInToEvent(event: Event, optIn: SeriesOptIn): Promise<boolean> {
+    const household = optIn.withPartner ? await HouseholdService.getActivePartnerId(optIn.userId) : null
+
+    // The user and their partner join together or not at all
+    return db.transaction(async (tx) => {
+      // Locking the event makes concurrent opt-ins take turns, so the participant limit holds
+      const [locked] = await tx.select().from(events).where(eq(events.id, event.id)).for('update')
+      if (!locked || locked.matchingStatus !== EVENT_STATUS.OPEN) {
+        return false
+      }
+
+      const [existing] = await tx.select({ id: matchingPool.id }).from(matchingPool)
+        .where(and(eq(matchingPool.eventId, event.id), eq(matchingPool.userId, optIn.userId)))
+      if (existing) {
+        return true
+      }
+
+      const [partnerOptIn] = household
+        ? await tx.select().from(matchingPool)
+          .where(and(eq(matchingPool.eventId, event.id), eq(matchingPool.userId, household.partnerId)))
+        : []
+      // A partner already opted in with someone else is left alone, and the user joins on their own
+      const partner = household && (!partnerOptIn || !partnerOptIn.partnerId) ? household : null
+
+      // Members who withdrew have given up their spot
+      if (locked.maxParticipants !== null) {
+        const [{ optInCount }] = await tx.select({ optInCount: count() }).from(matchingPool)
+          .where(and(eq(matchingPool.eventId, event.id), isNull(matchingPool.withdrawnAt)))
+        const seatsNeeded = partner && !partnerOptIn ? 2 : 1
+        if (optInCount + seatsNeeded > locked.maxParticipants) {
+          return false
+        }
+      }
+
+      await tx.insert(matchingPool).values({
+        eventId: event.id,
+        userId: optIn.userId,
+        partnerId: partner?.partnerId ?? null,
+        householdId: partner?.householdId ?? null,
+        matchAddress: optIn.matchAddress,
+        matchLatitude: optIn.matchLatitude,
+        matchLongitude: optIn.matchLongitude,
+        hostingAvailable: optIn.hostingAvailable,
+      })
+      if (partner && partnerOptIn) {
+        await tx.update(matchingPool)
+          .set({ partnerId: optIn.userId, householdId: partner.householdId })
+          .where(eq(matchingPool.id, partnerOptIn.id))
+      } else if (partner) {
+        await tx.insert(matchingPool).values({
+          eventId: event.id,
+          userId: partner.partnerId,
+          partnerId: optIn.userId,
+          householdId: partner.householdId,
+          matchAddress: optIn.matchAddress,
+          matchLatitude: optIn.matchLatitude,
+          matchLongitude: optIn.matchLongitude,
+          hostingAvailable: false, // Partner doesn't host by default
+        })
+      }
+      return true
+    })
+  }
+
+  // nth is 1-based; -1 is the last such weekday of the month
+  private static getNthWeekday(year: number, month: number, weekday: number, nth: number): Date {
+    if (nth === -1) {
+      const lastDay = new Date(Date.UTC(year, month + 1, 0))
+      return this.addDays(lastDay, -((lastDay.getUTCDay() - weekday + 7) % 7))
+    }
+    const firstDay = new Date(Date.UTC(year, month, 1))
+    return this.addDays(firstDay, (weekday - firstDay.getUTCDay() + 7) % 7 + (nth - 1) * 7)
+  }
+
+  private static parseDate(value: string): Date {
+    return new Date(`${value}T00:00:00Z`)
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * 24 * 60 * 60_000)
+  }
+
+  // Calendar dates are computed in UTC so that DST changes never shift them
+  private static formatDate(date: Date): string {
+    return date.toISOString().split('T')[0]
+  }
+
+  private static toDateString(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  }
+}
@@ -0,0 +1,110 @@
+import axios from 'axios'
+import { db } from '../db/client'
+import { postcodeCentroids } from '../db/schema'
+import { inArray } from 'drizzle-orm'
+import { env } from '../env'
+
+export interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+export interface Geocoder {
+  geocode(address: string): Promise<Coordinates | null>
+}
+
+/**
+ * Offline geocoder that places an address at the centroid of its postcode.
+ * Canadian postcodes fall back to their forward sortation area (first three characters).
+ */
+export class PostcodeCentroidGeocoder implements Geocoder {
+  async geocode(address: string): Promise<Coordinates | null> {
+    const candidates = PostcodeCentroidGeocoder.extractPostcodes(address)
+    if (candidates.length === 0) {
+      return null
+    }
+
+    const rows = await db.select().from(postcodeCentroids).where(inArray(postcodeCentroids.postcode, candidates))
+    // Candidates are ordered most to least specific
+    const match = candidates.map(postcode => rows.find(row => row.postcode === postcode)).find(Boolean)
+    return match ? { latitude: match.latitude, longitude: match.longitude } : null
+  }
+
+  static extractPostcodes(address: string): string[] {
+    const normalized = address.toUpperCase()
+
+    const canadian = normalized.match(/\b([A-Z]\d[A-Z])\s?(\d[A-Z]\d)\b/)
+    if (canadian) {
+      return [`${canadian[1]}${canadian[2]}`, canadian[1]]
+    }
+
+    // Street numbers can also be five digits, so the ZIP is the last match
+    const zips = [...normalized.matchAll(/\b(\d{5})(?:-\d{4})?\b/g)]
+    if (zips.length > 0) {
+      return [zips[zips.length - 1][1]]
+    }
+
+    return []
+  }
+}
+
+/**
+ * Geocoder backed by a Nominatim-compatible search API
+ */
+export class NominatimGeocoder implements Geocoder {
+  constructor(private baseUrl: string) {}
+
+  async geocode(address: string): Promise<Coordinates | null> {
+    const { data } = await axios.get<{ lat: string; lon: string }[]>(`${this.baseUrl}/search`, {
+      params: { q: address, format: 'json', limit: 1 },
+      headers: { 'User-Agent': 'TableHop API' },
+      timeout: 5000,
+    })
+
+    if (!data[0]) {
+      return null
+    }
+    return { latitude: parseFloat(data[0].lat), longitude: parseFloat(data[0].lon) }
+  }
+}
+
+export class GeocodingService {
+  private static geocoder: Geocoder = env.GEOCODER === 'nominatim'
+    ? new NominatimGeocoder(env.GEOCODER_URL)
+    : new PostcodeCentroidGeocoder()
+
+  /**
+   * Swap the geocoder, e.g. for a fixed table in scripts and tests
+   */
+  static useGeocoder(geocoder: Geocoder): void {
+    this.geocoder = geocoder
+  }
+
+  /**
+   * Geocode an address. Failures are logged and treated as "unknown location" so they never block matching.
+   */
+  static async geocode(address: string | null | undefined): Promise<Coordinates | null> {
+    if (!address?.trim()) {
+      return null
+    }
+
+    try {
+      return await this.geocoder.geocode(address.trim())
+    } catch (error) {
+      console.error('Geocoding error:', error)
+      return null
+    }
+  }
+
+  /**
+   * Great-circle distance between two points in kilometres
+   */
+  static distanceKm(a: Coordinates, b: Coordinates): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180
+    const dLat = toRadians(b.latitude - a.latitude)
+    const dLon = toRadians(b.longitude - a.longitude)
+    const h = Math.sin(dLat / 2) ** 2
+      + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2
+    return 2 * 6371 * Math.asin(Math.sqrt(h))
+  }
+}
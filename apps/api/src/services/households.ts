@@ -0,0 +1,181 @@
+import { db } from '../db/client'
+import { households, users, matchingPool, events, emailNotifications } from '../db/schema'
+import { eq, and, or, inArray, desc } from 'drizzle-orm'
+import { HOUSEHOLD_STATUS, EVENT_STATUS } from '../config/constants'
+
+// A household request or change that does not apply to the user's current household
+export class HouseholdError extends Error {}
+
+export interface HouseholdSummary {
+  id: number
+  status: string
+  requestedByMe: boolean // Whether the user asked, rather than being asked to confirm
+  partner: { id: number; name: string | null; email: string }
+  confirmedAt: Date | null
+  createdAt: Date
+}
+
+/**
+ * Partners linked once as a household, with both confirming, and reused for every event.
+ * A user belongs to at most one pending or active household at a time.
+ */
+export class HouseholdService {
+  /**
+   * The user's pending or active household, seen from their side
+   */
+  static async getHousehold(userId: number): Promise<HouseholdSummary | null> {
+    const household = await this.findCurrent(userId)
+    if (!household) {
+      return null
+    }
+
+    const partnerId = this.getPartnerId(household, userId)
+    const [partner] = await db.select({ id: users.id, name: users.name, email: users.email })
+      .from(users).where(eq(users.id, partnerId))
+
+    return {
+      id: household.id,
+      status: household.status,
+      requestedByMe: household.requesterId === userId,
+      partner,
+      confirmedAt: household.confirmedAt,
+      createdAt: household.createdAt,
+    }
+  }
+
+  /**
+   * The partner the user opts in with, once both have confirmed the household
+   */
+  static async getActivePartnerId(userId: number): Promise<{ householdId: number; partnerId: number } | null> {
+    const household = await this.findCurrent(userId)
+    if (!household || household.status !== HOUSEHOLD_STATUS.ACTIVE) {
+      return null
+    }
+    return { householdId: household.id, partnerId: this.getPartnerId(household, userId) }
+  }
+
+  /**
+   * Ask another account to form a household. It takes effect once they confirm.
+   */
+  static async requestLink(userId: number, partnerEmail: string): Promise<HouseholdSummary> {
+    const [partner] = await db.select({ id: users.id, name: users.name }).from(users)
+      .where(eq(users.email, partnerEmail.trim()))
+    if (!partner) {
+      throw new HouseholdError('No account uses that email address')
+    }
+    if (partner.id === userId) {
+      throw new HouseholdError('You cannot form a household with yourself')
+    }
+    if (await this.findCurrent(userId)) {
+      throw new HouseholdError('You are already in a household or have a request pending')
+    }
+    if (await this.findCurrent(partner.id)) {
+      throw new HouseholdError('That person is already in a household or has a request pending')
+    }
+
+    const [requester] = await db.select({ name: users.name }).from(users).where(eq(users.id, userId))
+    await db.insert(households).values({ requesterId: userId, partnerId: partner.id })
+    await db.insert(emailNotifications).values({
+      userId: partner.id,
+      type: 'household_request',
+      subject: `${requester?.name || 'Someone'} wants to join you as a household`,
+      body: `Hi ${partner.name || 'there'}, ${requester?.name || 'someone'} asked to link your accounts as partners. `
+        + `Confirm from your profile to opt in to dinners together.`,
+    })
+
+    return (await this.getHousehold(userId))!
+  }
+
+  /**
+   * The asked partner confirms a pending household
+   */
+  static async confirm(userId: number, householdId: number): Promise<HouseholdSummary> {
+    const household = await this.findPending(householdId, userId)
+    if (household.partnerId !== userId) {
+      throw new HouseholdError('Only the person who was asked can confirm the household')
+    }
+
+    await db.update(households)
+      .set({ status: HOUSEHOLD_STATUS.ACTIVE, confirmedAt: new Date() })
+      .where(eq(households.id, householdId))
+    await this.notify(household.requesterId, userId, 'confirmed your household. You can now opt in to dinners together.')
+
+    return (await this.getHousehold(userId))!
+  }
+
+  /**
+   * Decline a pending household, or withdraw a request the user made
+   */
+  static async decline(userId: number, householdId: number): Promise<void> {
+    const household = await this.findPending(householdId, userId)
+
+    await db.update(households)
+      .set({ status: HOUSEHOLD_STATUS.DECLINED, endedAt: new Date(), endedBy: userId })
+      .where(eq(households.id, householdId))
+    if (household.partnerId === userId) {
+      await this.notify(household.requesterId, userId, 'declined your household request.')
+    }
+  }
+
+  /**
+   * Leave the user's household. Opt-ins for events that are still open stay, but each partner is matched on their own.
+   */
+  static async leave(userId: number): Promise<void> {
+    const household = await this.findCurrent(userId)
+    if (!household || household.status !== HOUSEHOLD_STATUS.ACTIVE) {
+      throw new HouseholdError('You are not in a household')
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(households)
+        .set({ status: HOUSEHOLD_STATUS.ENDED, endedAt: new Date(), endedBy: userId })
+        .where(eq(households.id, household.id))
+
+      const openOptIns = await tx.select({ id: matchingPool.id }).from(matchingPool)
+        .innerJoin(events, eq(matchingPool.eventId, events.id))
+        .where(and(eq(matchingPool.householdId, household.id), eq(events.matchingStatus, EVENT_STATUS.OPEN)))
+      if (openOptIns.length > 0) {
+        await tx.update(matchingPool)
+          .set({ partnerId: null, householdId: null })
+          .where(inArray(matchingPool.id, openOptIns.map(optIn => optIn.id)))
+      }
+    })
+    await this.notify(this.getPartnerId(household, userId), userId, 'left your household. You will be matched on your own from now on.')
+  }
+
+  private static async findCurrent(userId: number) {
+    const [household] = await db.select().from(households)
+      .where(and(
+        or(eq(households.requesterId, userId), eq(households.partnerId, userId)),
+        inArray(households.status, [HOUSEHOLD_STATUS.PENDING, HOUSEHOLD_STATUS.ACTIVE])
+      ))
+      .orderBy(desc(households.createdAt))
+      .limit(1)
+    return household ?? null
+  }
+
+  private static async findPending(householdId: number, userId: number) {
+    const [household] = await db.select().from(households).where(eq(households.id, householdId))
+    if (!household || (household.requesterId !== userId && household.partnerId !== userId)) {
+      throw new Error('Household not found')
+    }
+    if (household.status !== HOUSEHOLD_STATUS.PENDING) {
+      throw new HouseholdError('This household request has already been answered')
+    }
+    return household
+  }
+
+  private static getPartnerId(household: typeof households.$inferSelect, userId: number): number {
+    return household.requesterId === userId ? household.partnerId : household.requesterId
+  }
+
+  private static async notify(userId: number, actorId: number, action: string): Promise<void> {
+    const [actor] = await db.select({ name: users.name }).from(users).where(eq(users.id, actorId))
+    await db.insert(emailNotifications).values({
+      userId,
+      type: 'household_update',
+      subject: 'Your household has changed',
+      body: `${actor?.name || 'Your partner'} ${action}`,
+    })
+  }
+}
@@ -0,0 +1,141 @@
+import { db } from '../db/client'
+import { circles, circleMembers, events, users } from '../db/schema'
+import { eq } from 'drizzle-orm'
+import { CIRCLE_FORMAT, ITINERARY_CONFIG, ROTATING_COURSES } from '../config/constants'
+
+export interface ItineraryStop {
+  order: number
+  course: string
+  startTime: string
+  endTime: string
+  hosts: { userId: number; name: string | null }[]
+  address: string | null
+  isYourHousehold: boolean
+}
+
+export interface ItineraryLeg {
+  fromCourse: string
+  toCourse: string
+  from: string | null
+  to: string | null
+  departAt: string
+  arriveBy: string
+}
+
+export interface Itinerary {
+  circleId: number
+  circleName: string
+  eventId: number
+  date: string
+  stops: ItineraryStop[]
+  walkingOrder: ItineraryLeg[]
+}
+
+export class ItineraryService {
+  /**
+   * Build the evening plan for a rotating circle: one stop per course, in serving order,
+   * with the host household, its address and a time slot carved out of the event window.
+   * Returns null if the circle does not exist.
+   */
+  static async getCircleItinerary(circleId: number, viewerId: number): Promise<Itinerary | null> {
+    const [circle] = await db.select({
+      id: circles.id,
+      name: circles.name,
+      format: circles.format,
+      event: {
+        id: events.id,
+        date: events.date,
+        startTime: events.startTime,
+        endTime: events.endTime,
+      },
+    }).from(circles)
+    .innerJoin(events, eq(circles.eventId, events.id))
+    .where(eq(circles.id, circleId))
+
+    if (!circle) {
+      return null
+    }
+
+    if (circle.format !== CIRCLE_FORMAT.ROTATING) {
+      throw new Error('Itineraries are only available for rotating circles')
+    }
+
+    const members = await db.select({
+      userId: circleMembers.userId,
+      role: circleMembers.role,
+      venueAddress: circleMembers.venueAddress,
+      name: users.name,
+    }).from(circleMembers)
+    .innerJoin(users, eq(circleMembers.userId, users.id))
+    .where(eq(circleMembers.circleId, circleId))
+
+    const viewerCourse = members.find(member => member.userId === viewerId)?.role
+    const slots = this.splitTimeSlots(circle.event.startTime, circle.event.endTime, ROTATING_COURSES.length)
+
+    const stops: ItineraryStop[] = ROTATING_COURSES.map((course, i) => {
+      const hosts = members.filter(member => member.role === course)
+      return {
+        order: i + 1,
+        course,
+        startTime: slots[i].start,
+        endTime: slots[i].end,
+        hosts: hosts.map(host => ({ userId: host.userId, name: host.name })),
+        address: hosts.find(host => host.venueAddress)?.venueAddress || null,
+        isYourHousehold: viewerCourse === course,
+      }
+    })
+
+    const walkingOrder: ItineraryLeg[] = stops.slice(1).map((stop, i) => ({
+      fromCourse: stops[i].course,
+      toCourse: stop.course,
+      from: stops[i].address,
+      to: stop.address,
+      departAt: stops[i].endTime,
+      arriveBy: stop.startTime,
+    }))
+
+    return {
+      circleId: circle.id,
+      circleName: circle.name,
+      eventId: circle.event.id,
+      date: circle.event.date,
+      stops,
+      walkingOrder,
+    }
+  }
+
+  /**
+   * Split the event window into equal course slots with a travel buffer between them
+   */
+  static splitTimeSlots(startTime: string, endTime: string, count: number): { start: string; end: string }[] {
+    const start = this.toMinutes(startTime)
+    let end = this.toMinutes(endTime)
+    if (end <= start) {
+      end += 24 * 60 // Event runs past midnight
+    }
+
+    const buffer = ITINERARY_CONFIG.TRAVEL_BUFFER_MINUTES
+    const rounding = ITINERARY_CONFIG.SLOT_ROUNDING_MINUTES
+    const available = end - start - buffer * (count - 1)
+    const slotLength = Math.max(Math.floor(available / count / rounding) * rounding, rounding)
+
+    return Array.from({ length: count }, (_, i) => {
+      const slotStart = start + i * (slotLength + buffer)
+      // The last course runs until the event ends
+      const slotEnd = i === count - 1 ? Math.max(end, slotStart + slotLength) : slotStart + slotLength
+      return { start: this.fromMinutes(slotStart), end: this.fromMinutes(slotEnd) }
+    })
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(part => parseInt(part, 10))
+    return (hours || 0) * 60 + (minutes || 0)
+  }
+
+  private static fromMinutes(total: number): string {
+    const minutesInDay = ((total % (24 * 60)) + 24 * 60) % (24 * 60)
+    const hours = Math.floor(minutesInDay / 60)
+    const minutes = minutesInDay % 60
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+  }
+}
@@ -1,7 +1,16 @@
 import { db } from '../db/client'
-import { matchingPool, circles, circleMembers, users, events } from '../db/schema'
-import { eq, and, inArray, sql, desc } from 'drizzle-orm'
-import { MATCHING_CONFIG, CIRCLE_FORMAT, CIRCLE_ROLES, EVENT_STATUS } from '../config/constants'
+import { matchingPool, matchingProposals, matchingReports, matchingResets, circles, circleMembers, chatMessages, emailNotifications, users, events, partnerInvitations } from '../db/schema'
+import { eq, and, inArray, notInArray, sql, desc, isNull, isNotNull, lt, ne, SQL } from 'drizzle-orm'
+import { createHash } from 'crypto'
+import { MATCHING_CONFIG, COMPATIBILITY_WEIGHTS, CIRCLE_FORMAT, CIRCLE_FORMAT_MIX, CIRCLE_ROLES, ROTATING_COURSES, EVENT_STATUS, ALLERGY_SEVERITY, CHAT_MESSAGE_TYPE, INVITATION_STATUS } from '../config/constants'
+import { getMatchingStrategy, MatchingStrategy, MatchingStrategyParams } from './matchingStrategies'
+import { GeocodingService, Coordinates } from './geocoding'
+import { VenueService, VenueProfile } from './venues'
+import { BlockService } from './blocks'
+import { EventLifecycleService, EventLifecycleError } from './eventLifecycle'
+import { AttendanceService } from './attendance'
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
 
 interface OptInUser {
   id: number
@@ -9,6 +18,12 @@ interface OptInUser {
   partnerId: number | null
   matchAddress: string | null
   hostingAvailable: boolean
+  venueOverride: Partial<VenueProfile> | null
+  waitlistPriority?: boolean // Waitlisted at their previous event, so seated first this time
+  repeatNoShow?: boolean // Missed several recent dinners, so seated after everyone else
+  recentCompanions?: Set<number> // Users they shared a circle with in recent events
+  keptApartFrom?: Set<number> // Users they must never share a circle with (blocks either way and admin exclusions)
+  coordinates?: Coordinates | null // Geocoded match address
   user: {
     id: number
     name: string | null
@@ -17,6 +32,12 @@ interface OptInUser {
     cookingExperience: string | null
     dietaryRestrictions: string | null
     socialPreferences: string[] | null
+    dietaryNeeds: string[] | null
+    allergies: { allergen: string; severity: string }[] | null
+    cuisineCapabilities: string[] | null
+    allergenRisks: string[] | null
+    venueProfile: VenueProfile | null
+    venueNeeds: string[] | null
   }
   partner?: {
     id: number
@@ -33,6 +54,8 @@ interface Circle {
   id: number
   name: string
   format: string
+  compatibilityScore: number | null
+  matchSummary?: Omit<MemberHighlight, 'userId'> // The viewing member's highlight, on their own circle
   members: {
     id: number
     userId: number
@@ -49,11 +72,317 @@ interface Circle {
   }[]
 }
 
+// The strategy a run groups circles with, and the params it resolved to
+interface StrategyRun {
+  strategy: MatchingStrategy
+  params: MatchingStrategyParams
+}
+
+// How an event wants its circles formed
+export interface EventMatchingSettings {
+  minCircleSize: number
+  maxCircleSize: number
+  circleFormats: string
+}
+
+// What a hosting household can and cannot safely serve the rest of its circle
+interface KitchenAssessment {
+  allergenConflicts: { guest: OptInUser; allergens: string[] }[]
+  uncoveredNeeds: { guest: OptInUser; needs: string[] }[]
+  venueConflicts: { guest: OptInUser; needs: string[] }[] // Guests the venue cannot accommodate
+  seatsOver: number // Members beyond the venue's seat capacity
+}
+
+export interface RepeatPair {
+  userIds: [number, number]
+  names: [string | null, string | null]
+}
+
+// Score components of a circle. Compatibility is everything but kitchen and distance.
+export interface ScoreBreakdown {
+  interests: number
+  dietary: number // Shared dietary needs
+  kitchen: number // Whether the hosting kitchen(s) can cater for every guest
+  personality: number
+  cooking: number
+  distance: number // Penalty for households spread far apart (zero or negative)
+  repeatPairs: number // Penalty for pairs who dined together recently (zero or negative)
+  total: number
+}
+
+// What a member has in common with the rest of their circle, other than their own partner
+export interface MemberHighlight {
+  userId: number
+  sharedInterests: string[]
+  sharedDietaryNeeds: string[]
+  samePersonality: boolean
+}
+
+export interface CircleReport {
+  scoreBreakdown: ScoreBreakdown
+  hostReason: string | null // Hosted circles only
+  relaxedConstraints: string[]
+  highlights: MemberHighlight[]
+}
+
+export interface ProposedCircle {
+  name: string
+  format: string
+  compatibilityScore: number
+  members: {
+    userId: number
+    name: string | null
+    role: string
+    venueAddress: string | null
+  }[]
+  repeatPairs: RepeatPair[]
+  report: CircleReport
+}
+
+export interface MatchingProposal {
+  strategy: string
+  strategyParams: MatchingStrategyParams
+  settings: EventMatchingSettings
+  circles: ProposedCircle[]
+  leftoverUsers: { userId: number; name: string | null }[]
+  warnings: string[]
+}
+
+export type UserMatchStatus = 'not_opted_in' | 'opted_in' | 'matching' | 'matched' | 'waitlisted' | 'withdrawn'
+
+export interface WithdrawalResult {
+  circleId: number
+  replacement: { userId: number; name: string | null } | null
+  newHost: { userId: number; name: string | null } | null
+  released: { userId: number; name: string | null }[] // Guests the new host could not cater for, now waitlisted
+  dissolved: boolean // The host left and nobody could take over safely, so the circle was broken up
+}
+
+export interface WaitlistedUser {
+  userId: number
+  name: string | null
+  email: string
+  partnerId: number | null
+  waitlistedAt: Date
+}
+
+export interface MatchingPreview extends MatchingProposal {
+  proposalId: number
+  eventId: number
+  totalScore: number
+}
+
 export class MatchingService {
   /**
-   * Trigger matching for a specific event
+   * Run matching for an event without persisting circles.
+   * The proposal is stored so that committing it later persists exactly what was previewed.
+   * A strategy can be given to compare it against the event's own on the same pool.
+   */
+  static async previewMatching(
+    eventId: number,
+    adminId: number,
+    strategyName?: string,
+    strategyParams?: MatchingStrategyParams
+  ): Promise<MatchingPreview> {
+    const { event, optIns } = await this.loadMatchableOptIns(eventId)
+    // Only an event that could be matched now is worth previewing, by the same rule triggering follows
+    if (!EventLifecycleService.canTransition(event.matchingStatus, EVENT_STATUS.MATCHING)) {
+      throw new EventLifecycleError(`An event that is ${event.matchingStatus.replace('_', ' ')} cannot be matched`)
+    }
+    const run = strategyName
+      ? this.resolveStrategy(strategyName, strategyParams)
+      : this.resolveStrategy(event.matchingStrategy, strategyParams ?? event.matchingStrategyParams)
+    const proposal = this.planMatching(optIns, run, this.getMatchingSettings(event))
+
+    const [stored] = await db.insert(matchingProposals).values({
+      eventId,
+      createdBy: adminId,
+      poolSignature: this.getPoolSignature(optIns),
+      proposal,
+    }).returning({ id: matchingProposals.id })
+
+    return {
+      proposalId: stored.id,
+      eventId,
+      totalScore: this.getTotalScore(proposal),
+      ...proposal,
+    }
+  }
+
+  /**
+   * Trigger matching for a specific event.
+   * With a proposal ID the previewed proposal is committed as-is; otherwise a fresh run is persisted.
+   * The event is held in MATCHING status while the run is planned, and everything is written in one transaction.
+   */
+  static async triggerMatching(eventId: number, proposalId?: number): Promise<Circle[]> {
+    await this.claimEventForMatching(eventId)
+
+    let circleIds: number[]
+    try {
+      const { event, optIns } = await this.loadMatchableOptIns(eventId)
+
+      let proposal: MatchingProposal
+      if (proposalId !== undefined) {
+        const [stored] = await db.select().from(matchingProposals).where(and(
+          eq(matchingProposals.id, proposalId),
+          eq(matchingProposals.eventId, eventId),
+          isNull(matchingProposals.committedAt)
+        ))
+        if (!stored) {
+          throw new Error('Matching proposal not found')
+        }
+        if (stored.poolSignature !== this.getPoolSignature(optIns)) {
+          throw new Error('The matching pool has changed since this proposal was previewed')
+        }
+        if (JSON.stringify(stored.proposal.settings) !== JSON.stringify(this.getMatchingSettings(event))) {
+          throw new Error('The event\'s matching settings have changed since this proposal was previewed')
+        }
+        proposal = stored.proposal
+      } else {
+        proposal = this.planMatching(
+          optIns,
+          this.resolveStrategy(event.matchingStrategy, event.matchingStrategyParams),
+          this.getMatchingSettings(event)
+        )
+      }
+
+      circleIds = await db.transaction(async (tx) => {
+        const ids = await this.persistProposal(tx, eventId, proposal)
+        await this.waitlistLeftovers(tx, eventId, proposal.leftoverUsers)
+        await tx.insert(matchingReports).values({
+          eventId,
+          totalScore: this.getTotalScore(proposal),
+          report: proposal,
+        })
+
+        if (proposalId !== undefined) {
+          await tx.update(matchingProposals)
+            .set({ committedAt: new Date() })
+            .where(eq(matchingProposals.id, proposalId))
+        }
+
+        // Partners who never answered are left out; their inviters are matched on their own
+        await tx.update(partnerInvitations)
+          .set({ status: INVITATION_STATUS.EXPIRED })
+          .where(and(eq(partnerInvitations.eventId, eventId), eq(partnerInvitations.status, INVITATION_STATUS.PENDING)))
+
+        // Mark the event matched and record how its circles were formed
+        const [locked] = await tx.select().from(events).where(eq(events.id, eventId)).for('update')
+        await EventLifecycleService.applyTransition(tx, locked, EVENT_STATUS.MATCHED, {
+          changes: {
+            matchingStrategy: proposal.strategy,
+            matchingStrategyParams: proposal.strategyParams,
+          },
+        })
+
+        return ids
+      })
+    } catch (error) {
+      // Hand the event back so matching can be retried
+      await db.transaction(async (tx) => {
+        const [locked] = await tx.select().from(events).where(eq(events.id, eventId)).for('update')
+        if (locked?.matchingStatus === EVENT_STATUS.MATCHING) {
+          await EventLifecycleService.applyTransition(tx, locked, EVENT_STATUS.OPEN, {
+            reason: `Matching failed: ${error instanceof Error ? error.message : String(error)}`,
+          })
+        }
+      })
+      throw error
+    }
+
+    return Promise.all(circleIds.map(circleId => this.getCircleWithMembers(circleId)))
+  }
+
+  /**
+   * Move an open event into MATCHING status under a row lock so concurrent triggers cannot both run
+   */
+  private static async claimEventForMatching(eventId: number): Promise<void> {
+    return db.transaction(async (tx) => {
+      const [event] = await tx.select().from(events).where(eq(events.id, eventId)).for('update')
+      if (!event) {
+        throw new Error('Event not found')
+      }
+
+      if (event.matchingStatus === EVENT_STATUS.MATCHING) {
+        throw new Error('Matching is already in progress for this event')
+      }
+
+      const [existingCircle] = await tx.select({ id: circles.id }).from(circles).where(eq(circles.eventId, eventId)).limit(1)
+      if (existingCircle) {
+        throw new Error('Matching has already been completed for this event')
+      }
+
+      // Pending invitations stay open until the run commits; accepting one needs an open event anyway
+      await EventLifecycleService.applyTransition(tx, event, EVENT_STATUS.MATCHING)
+    })
+  }
+
+  /**
+   * Undo matching for an event so it can be re-run.
+   * Circles, their members and their chat are removed in one transaction; the opt-ins are kept.
+   */
+  static async resetMatching(eventId: number, adminId: number, reason: string): Promise<{ circlesRemoved: number }> {
+    return db.transaction(async (tx) => {
+      const [event] = await tx.select().from(events).where(eq(events.id, eventId)).for('update')
+      if (!event) {
+        throw new Error('Event not found')
+      }
+
+      // An event left in MATCHING by an interrupted run can be reset even though it has no circles
+      const eventCircles = await tx.select({ id: circles.id }).from(circles).where(eq(circles.eventId, eventId))
+      if (eventCircles.length === 0 && event.matchingStatus !== EVENT_STATUS.MATCHING) {
+        throw new Error('Matching has not been run for this event')
+      }
+
+      // Only matched events go back; a dinner under way or finished keeps its circles
+      await EventLifecycleService.applyTransition(tx, event, EVENT_STATUS.OPEN, { changedBy: adminId, reason })
+
+      const circleIds = eventCircles.map(circle => circle.id)
+      if (circleIds.length > 0) {
+        await tx.delete(chatMessages).where(inArray(chatMessages.circleId, circleIds))
+        await tx.delete(circleMembers).where(inArray(circleMembers.circleId, circleIds))
+        await tx.delete(circles).where(inArray(circles.id, circleIds))
+      }
+
+      // Nobody is waitlisted until matching runs again
+      await tx.update(matchingPool)
+        .set({ waitlistedAt: null })
+        .where(eq(matchingPool.eventId, eventId))
+
+      await tx.insert(matchingResets).values({
+        eventId,
+        resetBy: adminId,
+        reason,
+        circlesRemoved: circleIds.length,
+      })
+
+      return { circlesRemoved: circleIds.length }
+    })
+  }
+
+  /**
+   * The circle size and format settings an event is matched with
+   */
+  private static getMatchingSettings(event: typeof events.$inferSelect): EventMatchingSettings {
+    return {
+      minCircleSize: event.minCircleSize,
+      maxCircleSize: event.maxCircleSize,
+      circleFormats: event.circleFormats,
+    }
+  }
+
+  /**
+   * Look up a strategy and resolve its params
    */
-  static async triggerMatching(eventId: number): Promise<Circle[]> {
+  private static resolveStrategy(name: string, params?: MatchingStrategyParams | null): StrategyRun {
+    const strategy = getMatchingStrategy(name)
+    return { strategy, params: strategy.resolveParams(params ?? {}) }
+  }
+
+  /**
+   * Load an event and its opt-ins after checking it can still be matched
+   */
+  private static async loadMatchableOptIns(eventId: number): Promise<{ event: typeof events.$inferSelect; optIns: OptInUser[] }> {
     // Get event details
     const [event] = await db.select().from(events).where(eq(events.id, eventId))
     if (!event) {
@@ -72,7 +401,10 @@ export class MatchingService {
       userId: matchingPool.userId,
       partnerId: matchingPool.partnerId,
       matchAddress: matchingPool.matchAddress,
+      matchLatitude: matchingPool.matchLatitude,
+      matchLongitude: matchingPool.matchLongitude,
       hostingAvailable: matchingPool.hostingAvailable,
+      venueOverride: matchingPool.venueOverride,
       user: {
         id: users.id,
         name: users.name,
@@ -81,193 +413,734 @@ export class MatchingService {
         cookingExperience: users.cookingExperience,
         dietaryRestrictions: users.dietaryRestrictions,
         socialPreferences: users.socialPreferences,
+        dietaryNeeds: users.dietaryNeeds,
+        allergies: users.allergies,
+        cuisineCapabilities: users.cuisineCapabilities,
+        allergenRisks: users.allergenRisks,
+        venueProfile: users.venueProfile,
+        venueNeeds: users.venueNeeds,
       }
     }).from(matchingPool)
     .innerJoin(users, eq(matchingPool.userId, users.id))
-    .where(eq(matchingPool.eventId, eventId))
+    .where(and(eq(matchingPool.eventId, eventId), isNull(matchingPool.withdrawnAt)))
 
-    if (optIns.length < MATCHING_CONFIG.DEFAULT_CIRCLE_SIZE) {
-      throw new Error(`Need at least ${MATCHING_CONFIG.DEFAULT_CIRCLE_SIZE} opt-ins to start matching`)
+    if (optIns.length < event.minOptIns) {
+      throw new Error(`Need at least ${event.minOptIns} opt-ins to start matching`)
     }
 
-    // Get partner information for partnered users
-    const optInsWithPartners = await Promise.all(
-      optIns.map(async (optIn) => {
-        if (optIn.partnerId) {
-          const partner = await db.select({
-            id: users.id,
-            name: users.name,
-            interests: users.interests,
-            personalityType: users.personalityType,
-            cookingExperience: users.cookingExperience,
-            dietaryRestrictions: users.dietaryRestrictions,
-            socialPreferences: users.socialPreferences,
-          }).from(users).where(eq(users.id, optIn.partnerId)).then(res => res[0])
-          
-          return { ...optIn, partner }
-        }
-        return optIn
-      })
-    )
+    const userIds = optIns.map(optIn => optIn.userId)
+    const priorityUserIds = await this.getWaitlistPriorityUserIds(event.id, event.date, userIds)
+    const repeatNoShowUserIds = await AttendanceService.getRepeatNoShowUserIds(userIds)
+    const recentCompanions = await this.getRecentCompanions(event.id, event.date, userIds)
+    const exclusions = await BlockService.getExclusions(userIds)
+    const coordinates = await this.locateOptIns(eventId, optIns)
+    return {
+      event,
+      optIns: optIns.map(({ matchLatitude, matchLongitude, ...optIn }) => ({
+        ...optIn,
+        waitlistPriority: priorityUserIds.has(optIn.userId),
+        repeatNoShow: repeatNoShowUserIds.has(optIn.userId),
+        recentCompanions: recentCompanions.get(optIn.userId),
+        keptApartFrom: exclusions.get(optIn.userId),
+        coordinates: coordinates.get(optIn.userId) ?? null,
+      })),
+    }
+  }
+
+  /**
+   * Resolve each opt-in's match address to coordinates.
+   * Addresses that were not geocoded at opt-in time are geocoded now and saved.
+   */
+  private static async locateOptIns(
+    eventId: number,
+    optIns: { userId: number; matchAddress: string | null; matchLatitude: number | null; matchLongitude: number | null }[]
+  ): Promise<Map<number, Coordinates | null>> {
+    const located = new Map<number, Coordinates | null>()
+    const byAddress = new Map<string, Coordinates | null>()
 
-    // Perform matching
-    const resultCircles = await this.performMatching(optInsWithPartners, eventId)
+    for (const optIn of optIns) {
+      if (optIn.matchLatitude !== null && optIn.matchLongitude !== null) {
+        located.set(optIn.userId, { latitude: optIn.matchLatitude, longitude: optIn.matchLongitude })
+        continue
+      }
+      if (!optIn.matchAddress?.trim()) {
+        continue
+      }
 
-    // Update event status
-    await db.update(events)
-      .set({ 
-        matchingStatus: EVENT_STATUS.CLOSED,
-        matchingCompletedAt: new Date()
-      })
-      .where(eq(events.id, eventId))
+      const address = optIn.matchAddress.trim()
+      if (!byAddress.has(address)) {
+        byAddress.set(address, await GeocodingService.geocode(address))
+      }
+      const coordinates = byAddress.get(address)!
+      located.set(optIn.userId, coordinates)
+
+      if (coordinates) {
+        await db.update(matchingPool)
+          .set({ matchLatitude: coordinates.latitude, matchLongitude: coordinates.longitude })
+          .where(and(eq(matchingPool.eventId, eventId), eq(matchingPool.userId, optIn.userId)))
+      }
+    }
+
+    return located
+  }
+
+  /**
+   * Who each user shared a circle with over the last few matched events
+   */
+  private static async getRecentCompanions(eventId: number, eventDate: string, userIds: number[]): Promise<Map<number, Set<number>>> {
+    const companions = new Map<number, Set<number>>()
+
+    const recentEvents = await db.select({ id: events.id }).from(events)
+      .where(and(
+        ne(events.id, eventId),
+        lt(events.date, eventDate),
+        isNotNull(events.matchingCompletedAt)
+      ))
+      .orderBy(desc(events.date))
+      .limit(MATCHING_CONFIG.REPEAT_PAIRING_LOOKBACK_EVENTS)
+    if (recentEvents.length === 0 || userIds.length === 0) {
+      return companions
+    }
+
+    const memberships = await db.select({
+      circleId: circleMembers.circleId,
+      userId: circleMembers.userId,
+    }).from(circleMembers)
+    .innerJoin(circles, eq(circleMembers.circleId, circles.id))
+    .where(inArray(circles.eventId, recentEvents.map(event => event.id)))
+
+    const membersByCircle = new Map<number, number[]>()
+    for (const membership of memberships) {
+      membersByCircle.set(membership.circleId, [...(membersByCircle.get(membership.circleId) || []), membership.userId])
+    }
+
+    const poolUserIds = new Set(userIds)
+    for (const members of membersByCircle.values()) {
+      for (const userId of members.filter(id => poolUserIds.has(id))) {
+        const seen = companions.get(userId) || new Set<number>()
+        members.filter(id => id !== userId).forEach(id => seen.add(id))
+        companions.set(userId, seen)
+      }
+    }
+
+    return companions
+  }
+
+  /**
+   * Users whose most recent earlier opt-in ended on the waitlist get priority in this event's matching
+   */
+  private static async getWaitlistPriorityUserIds(eventId: number, eventDate: string, userIds: number[]): Promise<Set<number>> {
+    if (userIds.length === 0) {
+      return new Set()
+    }
+
+    const previousOptIns = await db.select({
+      userId: matchingPool.userId,
+      waitlistedAt: matchingPool.waitlistedAt,
+    }).from(matchingPool)
+    .innerJoin(events, eq(matchingPool.eventId, events.id))
+    .where(and(
+      inArray(matchingPool.userId, userIds),
+      ne(matchingPool.eventId, eventId),
+      lt(events.date, eventDate),
+      isNotNull(events.matchingCompletedAt)
+    ))
+    .orderBy(desc(events.date))
+
+    const latestByUser = new Map<number, Date | null>()
+    for (const optIn of previousOptIns) {
+      if (!latestByUser.has(optIn.userId)) {
+        latestByUser.set(optIn.userId, optIn.waitlistedAt)
+      }
+    }
 
-    return resultCircles
+    return new Set([...latestByUser].filter(([, waitlistedAt]) => waitlistedAt).map(([userId]) => userId))
+  }
+
+  private static getTotalScore(proposal: MatchingProposal): number {
+    return proposal.circles.reduce((total, circle) => total + circle.compatibilityScore, 0)
+  }
+
+  /**
+   * Fingerprint of the pool, used to detect opt-in changes between preview and commit
+   */
+  private static getPoolSignature(optIns: OptInUser[]): string {
+    const entries = optIns
+      .map(optIn => [optIn.userId, optIn.partnerId, optIn.hostingAvailable, optIn.matchAddress])
+      .sort((a, b) => (a[0] as number) - (b[0] as number))
+    return createHash('sha256').update(JSON.stringify(entries)).digest('hex')
   }
 
   /**
-   * Perform the actual matching algorithm
+   * Perform the actual matching algorithm in memory
    */
-  private static async performMatching(optIns: OptInUser[], eventId: number): Promise<Circle[]> {
-    const resultCircles: Circle[] = []
+  private static planMatching(optIns: OptInUser[], run: StrategyRun, settings: EventMatchingSettings): MatchingProposal {
+    const proposal: MatchingProposal = {
+      strategy: run.strategy.name,
+      strategyParams: run.params,
+      settings,
+      circles: [],
+      leftoverUsers: [],
+      warnings: [],
+    }
     const usedUsers = new Set<number>()
-    
-    // Separate partnered and single users
-    const partneredUsers = optIns.filter(optIn => optIn.partnerId)
-    const singleUsers = optIns.filter(optIn => !optIn.partnerId)
-
-    // Calculate target number of rotating vs hosted circles
-    const totalUsers = optIns.length
-    const targetRotatingCircles = Math.floor(partneredUsers.length / MATCHING_CONFIG.DEFAULT_CIRCLE_SIZE)
-    const targetHostedCircles = Math.ceil(totalUsers / MATCHING_CONFIG.DEFAULT_CIRCLE_SIZE) - targetRotatingCircles
-    
-    // Create rotating circles first (partnered users only)
-    const rotatingCircles = await this.createRotatingCircles(partneredUsers, eventId, usedUsers)
-    resultCircles.push(...rotatingCircles)
 
-    // Create hosted circles with remaining users (both partnered and single)
-    const remainingUsers = optIns.filter(optIn => !usedUsers.has(optIn.userId))
-    const hostedCircles = await this.createHostedCircles(remainingUsers, eventId, usedUsers)
-    resultCircles.push(...hostedCircles)
+    // Partners who both opted in are always seated together
+    const units = this.buildUnits(optIns)
+    const households = units.filter(unit => unit.length === 2)
+
+    const allowsRotating = settings.circleFormats !== CIRCLE_FORMAT_MIX.HOSTED_ONLY
+    const allowsHosted = settings.circleFormats !== CIRCLE_FORMAT_MIX.ROTATING_ONLY
+    const rotatingFits = settings.minCircleSize <= MATCHING_CONFIG.ROTATING_CIRCLE_SIZE
+      && MATCHING_CONFIG.ROTATING_CIRCLE_SIZE <= settings.maxCircleSize
+    if (allowsRotating && !rotatingFits) {
+      proposal.warnings.push(
+        `Rotating circles seat ${MATCHING_CONFIG.ROTATING_CIRCLE_SIZE}, outside this event's ${settings.minCircleSize}-${settings.maxCircleSize} circle size, so none were formed`
+      )
+    }
+
+    const householdsWithoutAddress = households.filter(household => !this.getHouseholdAddress(household))
+    if (allowsRotating && rotatingFits && householdsWithoutAddress.length > 0) {
+      proposal.warnings.push(
+        `${householdsWithoutAddress.length} partnered household(s) have no address and cannot join rotating circles`
+      )
+    }
 
-    // Handle any remaining users by creating smaller circles or adding to existing ones
-    const finalRemainingUsers = optIns.filter(optIn => !usedUsers.has(optIn.userId))
-    if (finalRemainingUsers.length > 0) {
-      const incompleteCircles = await this.handleIncompleteCircles(finalRemainingUsers, eventId, usedUsers)
-      resultCircles.push(...incompleteCircles)
+    const unlocatedUnits = units.filter(unit => unit.some(member => member.matchAddress?.trim()) && !this.getHouseholdCoordinates(unit))
+    if (unlocatedUnits.length > 0) {
+      proposal.warnings.push(
+        `${unlocatedUnits.length} address(es) could not be located, so distance was not considered for them`
+      )
     }
 
-    return resultCircles
+    // Create rotating circles first (partnered households only)
+    if (allowsRotating && rotatingFits) {
+      proposal.circles.push(...this.planRotatingCircles(households, usedUsers, proposal.warnings, run, settings))
+    }
+
+    if (allowsHosted) {
+      // Create hosted circles with remaining users (both partnered and single)
+      const remainingUnits = units.filter(unit => !usedUsers.has(unit[0].userId))
+      proposal.circles.push(...this.planHostedCircles(remainingUnits, usedUsers, proposal.warnings, run, settings))
+
+      // Handle any remaining users by creating smaller circles or adding to existing ones
+      const finalRemainingUsers = optIns.filter(optIn => !usedUsers.has(optIn.userId))
+      if (finalRemainingUsers.length > 0) {
+        this.planIncompleteCircles(finalRemainingUsers, optIns, proposal, usedUsers, settings)
+      }
+    }
+
+    const optedInIds = new Set(optIns.map(optIn => optIn.userId))
+    for (const optIn of optIns.filter(optIn => !usedUsers.has(optIn.userId))) {
+      proposal.leftoverUsers.push({ userId: optIn.userId, name: optIn.user.name })
+      proposal.warnings.push(`${optIn.user.name || `User ${optIn.userId}`} could not be placed in a circle and will be waitlisted`)
+
+      const keptApartCount = [...optIn.keptApartFrom ?? []].filter(userId => optedInIds.has(userId)).length
+      if (keptApartCount > 0) {
+        proposal.warnings.push(
+          `${optIn.user.name || `User ${optIn.userId}`} must be kept apart from ${keptApartCount} other opt-in(s), which limited where they could be seated`
+        )
+      }
+    }
+
+    for (const circle of proposal.circles) {
+      if (circle.members.length < settings.minCircleSize) {
+        proposal.warnings.push(`${circle.name} only has ${circle.members.length} members`)
+      }
+    }
+
+    return proposal
   }
 
   /**
-   * Create rotating dinner circles (partnered users only)
+   * Group opt-ins into units that must share a circle.
+   * Partners who both opted in form a two-person household; everyone else is a unit of one.
    */
-  private static async createRotatingCircles(
-    partneredUsers: OptInUser[], 
-    eventId: number, 
-    usedUsers: Set<number>
-  ): Promise<Circle[]> {
-    const resultCircles: Circle[] = []
-    
-    // Only partnered users can be in rotating circles
-    const availablePartners = partneredUsers.filter(optIn => !usedUsers.has(optIn.userId))
-    
-    // Create as many rotating circles as possible with partnered users
-    while (availablePartners.length >= MATCHING_CONFIG.DEFAULT_CIRCLE_SIZE) {
-      const membersToAdd: OptInUser[] = []
-      
-      // Add partnered users to this circle
-      for (let i = 0; i < MATCHING_CONFIG.DEFAULT_CIRCLE_SIZE && availablePartners.length > 0; i++) {
-        const partnered = availablePartners.shift()!
-        membersToAdd.push(partnered)
-        
-        // Mark both user and partner as used
-        usedUsers.add(partnered.userId)
-        if (partnered.partnerId) {
-          usedUsers.add(partnered.partnerId)
+  private static buildUnits(optIns: OptInUser[]): OptInUser[][] {
+    const byUserId = new Map(optIns.map(optIn => [optIn.userId, optIn]))
+    const seen = new Set<number>()
+    const units: OptInUser[][] = []
+
+    for (const optIn of optIns) {
+      if (seen.has(optIn.userId)) continue
+      seen.add(optIn.userId)
+
+      const partner = optIn.partnerId ? byUserId.get(optIn.partnerId) : undefined
+      if (partner && !seen.has(partner.userId)) {
+        seen.add(partner.userId)
+        units.push([optIn, partner])
+      } else {
+        units.push([optIn])
+      }
+    }
+
+    return units
+  }
+
+  /**
+   * Form the given number of circles from units using the run's strategy
+   */
+  private static optimizeCircles(
+    units: OptInUser[][],
+    circleCount: number,
+    circleSize: number,
+    format: string,
+    run: StrategyRun,
+    settings: EventMatchingSettings
+  ) {
+    return run.strategy.formGroups(units, {
+      groupCount: circleCount,
+      groupSize: circleSize,
+      // Waitlist priority outweighs any compatibility gain, so those members are never the ones left over,
+      // and repeat no-shows are left over before anyone else.
+      // Short circles are penalized so every circle is filled to the minimum before any grows past it.
+      scoreGroup: members => this.scoreCircle(members)
+        + this.scoreDietaryFit(members, format)
+        - this.getDistancePenalty(members, format)
+        - Math.max(0, settings.minCircleSize - members.length) * MATCHING_CONFIG.UNDERSIZED_CIRCLE_PENALTY
+        - this.countKeptApartPairs(members) * MATCHING_CONFIG.BLOCKED_PAIR_PENALTY
+        + members.filter(member => member.waitlistPriority).length * MATCHING_CONFIG.WAITLIST_PRIORITY_BONUS
+        - members.filter(member => member.repeatNoShow).length * MATCHING_CONFIG.REPEAT_NO_SHOW_PENALTY,
+      unitKey: unit => Math.min(...unit.map(member => member.userId)),
+    }, run.params)
+  }
+
+  /**
+   * Plan rotating dinner circles from partnered households.
+   * Each circle has one household per course; both partners share the course
+   * and the household's match address is the venue for it.
+   */
+  private static planRotatingCircles(
+    households: OptInUser[][],
+    usedUsers: Set<number>,
+    warnings: string[],
+    run: StrategyRun,
+    settings: EventMatchingSettings
+  ): ProposedCircle[] {
+    const proposed: ProposedCircle[] = []
+
+    // A household can only host a course if we know where it lives
+    const availableHouseholds = households.filter(household =>
+      !usedUsers.has(household[0].userId) && this.getHouseholdAddress(household)
+    )
+    const householdsPerCircle = MATCHING_CONFIG.ROTATING_HOUSEHOLDS_PER_CIRCLE
+    const circleCount = Math.floor(availableHouseholds.length / householdsPerCircle)
+    if (circleCount === 0) {
+      return proposed
+    }
+
+    const { groups } = this.optimizeCircles(
+      availableHouseholds, circleCount, MATCHING_CONFIG.ROTATING_CIRCLE_SIZE, CIRCLE_FORMAT.ROTATING, run, settings
+    )
+
+    for (const group of groups) {
+      const name = `Rotating Circle ${proposed.length + 1}`
+
+      // Households too far apart to travel between courses are left for hosted circles instead
+      const maxLegKm = this.getMaxDistanceKm(group.units)
+      if (maxLegKm > MATCHING_CONFIG.MAX_ROTATING_LEG_KM) {
+        const names = group.units.map(household => household.map(m => m.user.name || `User ${m.userId}`).join(' & '))
+        warnings.push(
+          `Households ${names.join(', ')} are ${maxLegKm.toFixed(1)} km apart, beyond the ${MATCHING_CONFIG.MAX_ROTATING_LEG_KM} km rotating limit, and were not given a rotating circle`
+        )
+        continue
+      }
+
+      // Households kept apart by a block are left for hosted circles instead
+      if (this.countKeptApartPairs(group.members) > 0) {
+        warnings.push(`A rotating circle could not be formed because two of its households must be kept apart`)
+        continue
+      }
+
+      // Every household receives the rest of the circle, so each venue must take everyone
+      const unsuitedVenues = group.units.filter(household => !this.venueFits(this.assessKitchen(household, group.members)))
+      if (unsuitedVenues.length > 0) {
+        const names = unsuitedVenues.map(household => household.map(m => m.user.name || `User ${m.userId}`).join(' & '))
+        warnings.push(
+          `The venues of ${names.join(', ')} cannot seat or accommodate everyone in a rotating circle, so it was not formed`
+        )
+        continue
+      }
+
+      // Every household cooks a course for the rest of the circle
+      const circleWarnings = this.getCircleWarnings(name, CIRCLE_FORMAT.ROTATING, group.members, null)
+      warnings.push(...circleWarnings)
+
+      const members = this.assignCourses(group.units).flatMap(({ household, course }) =>
+        household.map(member => ({
+          userId: member.userId,
+          name: member.user.name,
+          role: course,
+          venueAddress: this.getHouseholdAddress(household),
+        }))
+      )
+
+      proposed.push({
+        name,
+        format: CIRCLE_FORMAT.ROTATING,
+        compatibilityScore: this.scoreCircle(group.members),
+        members,
+        repeatPairs: this.findRepeatPairs(group.members),
+        report: this.buildCircleReport(CIRCLE_FORMAT.ROTATING, group.members, null, circleWarnings),
+      })
+      members.forEach(member => usedUsers.add(member.userId))
+    }
+
+    return proposed
+  }
+
+  /**
+   * Give each household one course, as many as possible one their kitchen is suited to;
+   * otherwise the most experienced kitchen takes the main
+   */
+  private static assignCourses(households: OptInUser[][]): { household: OptInUser[]; course: string }[] {
+    const cookingScore = (household: OptInUser[]) =>
+      Math.max(...household.map(member => this.getCookingExperienceScore(member.user.cookingExperience)))
+    const byExperience = [...households].sort((a, b) =>
+      cookingScore(b) - cookingScore(a) || Math.min(...a.map(m => m.userId)) - Math.min(...b.map(m => m.userId))
+    )
+    const suits = (household: OptInUser[], course: string) =>
+      !!this.getHouseholdVenue(household)?.suitedCourses.includes(course)
+
+    // Every order of the courses, starting from the one that gives the most experienced household the main
+    type Course = typeof ROTATING_COURSES[number]
+    const permute = (courses: Course[]): Course[][] => courses.length <= 1
+      ? [courses]
+      : courses.flatMap((course, i) => permute([...courses.slice(0, i), ...courses.slice(i + 1)]).map(rest => [course, ...rest]))
+    const suitedCount = (order: Course[]) => byExperience.filter((household, i) => suits(household, order[i])).length
+    const courseOrder = permute([CIRCLE_ROLES.MAIN, CIRCLE_ROLES.STARTER, CIRCLE_ROLES.DESSERT])
+      .reduce((best, order) => suitedCount(order) > suitedCount(best) ? order : best)
+
+    return byExperience
+      .map((household, i) => ({ household, course: courseOrder[i] }))
+      .sort((a, b) => ROTATING_COURSES.indexOf(a.course) - ROTATING_COURSES.indexOf(b.course))
+  }
+
+  /**
+   * The address a household entered when opting in (partners share one)
+   */
+  private static getHouseholdAddress(household: OptInUser[]): string | null {
+    return household.find(member => member.matchAddress?.trim())?.matchAddress?.trim() || null
+  }
+
+  /**
+   * Where a household lives, if its address could be geocoded
+   */
+  private static getHouseholdCoordinates(household: OptInUser[]): Coordinates | null {
+    return household.find(member => member.coordinates)?.coordinates || null
+  }
+
+  /**
+   * Greatest distance between any two located households
+   */
+  private static getMaxDistanceKm(households: OptInUser[][]): number {
+    const points = households.map(household => this.getHouseholdCoordinates(household)).filter((p): p is Coordinates => !!p)
+    let max = 0
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        max = Math.max(max, GeocodingService.distanceKm(points[i], points[j]))
+      }
+    }
+    return max
+  }
+
+  /**
+   * Penalty for spreading a circle across town: a cost per km between every pair of located households,
+   * plus a heavy cost for rotating venues beyond walking/driving range of each other
+   */
+  private static getDistancePenalty(members: OptInUser[], format: string): number {
+    const points = this.buildUnits(members)
+      .map(household => this.getHouseholdCoordinates(household))
+      .filter((p): p is Coordinates => !!p)
+
+    let penalty = 0
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const km = GeocodingService.distanceKm(points[i], points[j])
+        penalty += km * MATCHING_CONFIG.DISTANCE_PENALTY_PER_KM
+        if (format === CIRCLE_FORMAT.ROTATING && km > MATCHING_CONFIG.MAX_ROTATING_LEG_KM) {
+          penalty += MATCHING_CONFIG.ROTATING_LEG_PENALTY
         }
       }
-      
-      // Create circle
-      const [circle] = await db.insert(circles).values({
+    }
+    return penalty
+  }
+
+  /**
+   * Plan hosted dinner circles (can include both partnered and single users)
+   */
+  private static planHostedCircles(
+    remainingUnits: OptInUser[][],
+    usedUsers: Set<number>,
+    warnings: string[],
+    run: StrategyRun,
+    settings: EventMatchingSettings
+  ): ProposedCircle[] {
+    const proposed: ProposedCircle[] = []
+
+    // Filter out already used users
+    const availableUnits = remainingUnits.filter(unit => !usedUsers.has(unit[0].userId))
+    const memberCount = availableUnits.reduce((total, unit) => total + unit.length, 0)
+
+    // As few circles as the volunteers' venues can seat everyone in, as long as each can still reach the minimum.
+    // A venue without a stated limit, or a host who has yet to volunteer, seats the event's maximum.
+    const seatCapacities = availableUnits
+      .filter(unit => unit.some(member => member.hostingAvailable))
+      .map(unit => Math.min(this.getHouseholdVenue(unit)?.maxSeats || settings.maxCircleSize, settings.maxCircleSize))
+      .sort((a, b) => b - a)
+    const maxCircleCount = Math.floor(memberCount / settings.minCircleSize)
+    let circleCount = 1
+    let seats = seatCapacities[0] ?? settings.maxCircleSize
+    while (seats < memberCount && circleCount < maxCircleCount) {
+      seats += seatCapacities[circleCount] ?? settings.maxCircleSize
+      circleCount++
+    }
+    circleCount = Math.min(circleCount, maxCircleCount)
+    if (circleCount === 0) {
+      return proposed
+    }
+
+    const { groups } = this.optimizeCircles(
+      availableUnits, circleCount, settings.maxCircleSize, CIRCLE_FORMAT.HOSTED, run, settings
+    )
+
+    for (const group of groups) {
+      // Guests the host cannot cook safely for, the venue cannot take, or who must be kept apart from someone, are released for planIncompleteCircles
+      const { host, members } = this.fitHostedCircle(group.members)
+
+      // Circles the grouping could not fill to the minimum are released for planIncompleteCircles
+      if (members.length < settings.minCircleSize) continue
+
+      const circle = this.buildHostedCircle(`Hosted Circle ${proposed.length + 1}`, members, this.scoreCircle(members), warnings, host)
+      proposed.push(circle)
+      members.forEach(member => usedUsers.add(member.userId))
+    }
+
+    return proposed
+  }
+
+  /**
+   * Choose a host and keep only the members their circle can take: units with a guest whose severe
+   * allergies the host's kitchen cannot rule out, whose access needs the venue cannot meet, or who must
+   * be kept apart from someone already kept, are dropped, then the units adding least to the circle
+   * until the venue seats everyone. The host's own household always stays.
+   */
+  private static fitHostedCircle(members: OptInUser[]): { host: OptInUser; members: OptInUser[] } {
+    const host = this.selectHost(members)
+    const household = this.getHousehold(host, members)
+    const venue = this.getHouseholdVenue(household)
+    const unsafeGuests = new Set(this.assessKitchen(household, members).allergenConflicts.map(({ guest }) => guest.userId))
+
+    let guestUnits: OptInUser[][] = []
+    for (const unit of this.buildUnits(members.filter(member => !household.includes(member)))) {
+      if (unit.some(guest => unsafeGuests.has(guest.userId))) continue
+      if (unit.some(guest => VenueService.getUnmetNeeds(venue, guest.user.venueNeeds).length > 0)) continue
+      if (this.isKeptApart(unit, [...household, ...guestUnits.flat()])) continue
+      guestUnits.push(unit)
+    }
+
+    const seated = () => [...household, ...guestUnits.flat()]
+    while (VenueService.getSeatsOver(venue, seated().length) > 0 && guestUnits.length > 0) {
+      // Previously waitlisted guests are the last to be dropped, and repeat no-shows the first
+      const dropped = guestUnits
+        .map(unit => ({
+          unit,
+          score: this.scoreCircle(seated().filter(member => !unit.includes(member)))
+            - unit.filter(member => member.waitlistPriority).length * MATCHING_CONFIG.WAITLIST_PRIORITY_BONUS
+            + unit.filter(member => member.repeatNoShow).length * MATCHING_CONFIG.REPEAT_NO_SHOW_PENALTY,
+        }))
+        .sort((a, b) => b.score - a.score)[0].unit
+      guestUnits = guestUnits.filter(unit => unit !== dropped)
+    }
+
+    return { host, members: seated() }
+  }
+
+  /**
+   * Pick a host for a hosted circle (unless one was already chosen) and seat everyone else as guests
+   */
+  private static buildHostedCircle(
+    name: string,
+    members: OptInUser[],
+    score: number,
+    warnings: string[],
+    host: OptInUser = this.selectHost(members)
+  ): ProposedCircle {
+    const guests = members.filter(member => member.userId !== host.userId)
+
+    const circleWarnings = this.getCircleWarnings(name, CIRCLE_FORMAT.HOSTED, members, host)
+    warnings.push(...circleWarnings)
+
+    return {
+      name,
+      format: CIRCLE_FORMAT.HOSTED,
+      compatibilityScore: score,
+      members: [
+        { userId: host.userId, name: host.user.name, role: CIRCLE_ROLES.HOST, venueAddress: null },
+        ...guests.map(guest => ({
+          userId: guest.userId,
+          name: guest.user.name,
+          role: CIRCLE_ROLES.PARTICIPANT,
+          venueAddress: null,
+        })),
+      ],
+      repeatPairs: this.findRepeatPairs(members),
+      report: this.buildCircleReport(CIRCLE_FORMAT.HOSTED, members, host, circleWarnings),
+    }
+  }
+
+  /**
+   * Constraints a circle does not fully meet: an assigned (non-volunteer) host and
+   * kitchens that cannot cater for every guest's allergies or dietary needs
+   */
+  private static getCircleWarnings(name: string, format: string, members: OptInUser[], host: OptInUser | null): string[] {
+    const warnings: string[] = []
+
+    if (host && !host.hostingAvailable) {
+      warnings.push(`${name} has no volunteer host; ${host.user.name || `User ${host.userId}`} was assigned`)
+    }
+    if (format === CIRCLE_FORMAT.HOSTED && !host) {
+      warnings.push(`${name} has no host`)
+    }
+
+    const kitchens = format === CIRCLE_FORMAT.ROTATING ? this.buildUnits(members) : host ? [this.getHousehold(host, members)] : []
+    for (const household of kitchens) {
+      warnings.push(...this.getDietaryWarnings(name, household, this.assessKitchen(household, members)))
+    }
+
+    return warnings
+  }
+
+  /**
+   * Explain a circle: its score by component, why the host was chosen, what had to give, and what members share
+   */
+  private static buildCircleReport(
+    format: string,
+    members: OptInUser[],
+    host: OptInUser | null,
+    circleWarnings: string[]
+  ): CircleReport {
+    const compatibility = this.getCompatibilityBreakdown(members)
+    const kitchen = host
+      ? this.scoreKitchen(this.assessKitchen(this.getHousehold(host, members), members))
+      : this.scoreDietaryFit(members, format)
+    const distance = -Math.round(this.getDistancePenalty(members, format))
+
+    const repeatPairs = this.findRepeatPairs(members)
+    const relaxedConstraints = [...circleWarnings]
+    if (repeatPairs.length > 0) {
+      relaxedConstraints.push(`${repeatPairs.length} pair(s) dined together at a recent event`)
+    }
+
+    return {
+      scoreBreakdown: {
+        ...compatibility,
+        kitchen,
+        distance,
+        total: compatibility.interests + compatibility.dietary + compatibility.personality
+          + compatibility.cooking + compatibility.repeatPairs + kitchen + distance,
+      },
+      hostReason: host ? this.describeHostChoice(host, members) : null,
+      relaxedConstraints,
+      highlights: members.map(member => {
+        const others = members.filter(other => !this.isSameHousehold(member, other))
+        return {
+          userId: member.userId,
+          sharedInterests: (member.user.interests ?? []).filter(interest =>
+            others.some(other => other.user.interests?.includes(interest))
+          ),
+          sharedDietaryNeeds: (member.user.dietaryNeeds ?? []).filter(need =>
+            others.some(other => other.user.dietaryNeeds?.includes(need))
+          ),
+          samePersonality: !!member.user.personalityType
+            && others.some(other => other.user.personalityType === member.user.personalityType),
+        }
+      }),
+    }
+  }
+
+  /**
+   * The selectHost criteria the chosen host meets, in the order selectHost weighs them
+   */
+  private static describeHostChoice(host: OptInUser, members: OptInUser[]): string {
+    const assessment = this.assessKitchen(this.getHousehold(host, members), members)
+    const reasons = [
+      host.hostingAvailable ? 'volunteered to host' : 'was assigned because no volunteer could host safely',
+      assessment.allergenConflicts.length === 0
+        ? 'has a kitchen that is safe for every guest\'s allergies'
+        : 'cannot guarantee an allergen-safe kitchen, but nobody safer was available',
+    ]
+    if (assessment.uncoveredNeeds.length === 0) {
+      reasons.push('can cook for every guest\'s dietary needs')
+    }
+    if (this.venueFits(assessment)) {
+      reasons.push('has a venue with room and access for everyone')
+    }
+    if (host.partnerId && members.some(m => m.userId === host.partnerId)) {
+      reasons.push('can co-host with their partner')
+    }
+    if (host.user.cookingExperience) {
+      reasons.push(`has ${host.user.cookingExperience} cooking experience`)
+    }
+
+    const name = host.user.name || `User ${host.userId}`
+    return `${name} ${reasons.slice(0, -1).join(', ')}${reasons.length > 1 ? ' and ' : ''}${reasons[reasons.length - 1]}`
+  }
+
+  /**
+   * Persist a proposal's circles and members inside the caller's transaction
+   */
+  private static async persistProposal(tx: DbTransaction, eventId: number, proposal: MatchingProposal): Promise<number[]> {
+    const circleIds: number[] = []
+
+    for (const circle of proposal.circles) {
+      const [inserted] = await tx.insert(circles).values({
         eventId,
-        name: `Rotating Circle ${resultCircles.length + 1}`,
-        format: CIRCLE_FORMAT.ROTATING,
-      }).returning()
+        name: circle.name,
+        format: circle.format,
+        compatibilityScore: circle.compatibilityScore,
+        matchingReport: circle.report,
+      }).returning({ id: circles.id })
 
-      // Add members with course assignments
-      const courseRoles = [CIRCLE_ROLES.STARTER, CIRCLE_ROLES.MAIN, CIRCLE_ROLES.DESSERT]
-      for (let i = 0; i < membersToAdd.length; i++) {
-        const member = membersToAdd[i]
-        const role = courseRoles[i % 3] // Distribute courses evenly
-        
-        await db.insert(circleMembers).values({
-          circleId: circle.id,
+      if (circle.members.length > 0) {
+        await tx.insert(circleMembers).values(circle.members.map(member => ({
+          circleId: inserted.id,
           userId: member.userId,
-          role,
-        })
+          role: member.role,
+          venueAddress: member.venueAddress,
+        })))
       }
 
-      // Get circle with members for response
-      const circleWithMembers = await this.getCircleWithMembers(circle.id)
-      resultCircles.push(circleWithMembers)
+      circleIds.push(inserted.id)
     }
 
-    return resultCircles
+    return circleIds
   }
 
   /**
-   * Create hosted dinner circles (can include both partnered and single users)
+   * Mark users the run could not place as waitlisted and queue a notification explaining why
    */
-  private static async createHostedCircles(
-    remainingUsers: OptInUser[], 
-    eventId: number, 
-    usedUsers: Set<number>
-  ): Promise<Circle[]> {
-    const resultCircles: Circle[] = []
-    
-    // Filter out already used users
-    const availableUsers = remainingUsers.filter(optIn => !usedUsers.has(optIn.userId))
-    
-    // Create hosted circles
-    while (availableUsers.length >= MATCHING_CONFIG.DEFAULT_CIRCLE_SIZE) {
-      const membersToAdd = availableUsers.splice(0, MATCHING_CONFIG.DEFAULT_CIRCLE_SIZE)
-      
-      // Select host using smart selection
-      const host = this.selectHost(membersToAdd)
-      const guests = membersToAdd.filter(member => member.userId !== host.userId)
-
-      // Create circle
-      const [circle] = await db.insert(circles).values({
-        eventId,
-        name: `Hosted Circle ${resultCircles.length + 1}`,
-        format: CIRCLE_FORMAT.HOSTED,
-      }).returning()
-
-      // Add host
-      await db.insert(circleMembers).values({
-        circleId: circle.id,
-        userId: host.userId,
-        role: CIRCLE_ROLES.HOST,
-      })
-      usedUsers.add(host.userId)
-
-      // Add guests
-      for (const guest of guests) {
-        await db.insert(circleMembers).values({
-          circleId: circle.id,
-          userId: guest.userId,
-          role: CIRCLE_ROLES.PARTICIPANT,
-        })
-        usedUsers.add(guest.userId)
-      }
-
-      // Get circle with members for response
-      const circleWithMembers = await this.getCircleWithMembers(circle.id)
-      resultCircles.push(circleWithMembers)
+  private static async waitlistLeftovers(
+    tx: DbTransaction,
+    eventId: number,
+    leftoverUsers: MatchingProposal['leftoverUsers']
+  ): Promise<void> {
+    if (leftoverUsers.length === 0) {
+      return
     }
 
-    return resultCircles
+    const userIds = leftoverUsers.map(user => user.userId)
+    await tx.update(matchingPool)
+      .set({ waitlistedAt: new Date() })
+      .where(and(eq(matchingPool.eventId, eventId), inArray(matchingPool.userId, userIds)))
+
+    await tx.insert(emailNotifications).values(leftoverUsers.map(user => ({
+      userId: user.userId,
+      type: 'waitlisted',
+      subject: 'You are on the waitlist for this dinner',
+      body: `Hi ${user.name || 'there'}, we couldn't fit you into a circle this time. `
+        + `You're on the waitlist in case a spot opens up, and you'll get priority when you opt in to the next dinner.`,
+    })))
   }
 
   /**
@@ -278,6 +1151,7 @@ export class MatchingService {
       id: circles.id,
       name: circles.name,
       format: circles.format,
+      compatibilityScore: circles.compatibilityScore,
     }).from(circles).where(eq(circles.id, circleId))
 
     const members = await db.select({
@@ -304,13 +1178,23 @@ export class MatchingService {
   }
 
   /**
-   * Smart host selection for hosted circles
+   * Smart host selection for hosted circles, from the given hosts (by default, anyone in the circle)
    */
-  private static selectHost(members: OptInUser[]): OptInUser {
-    // Prioritize users who want to host and have partners in the same circle
-    const potentialHosts = members
+  private static selectHost(members: OptInUser[], hosts: OptInUser[] = members): OptInUser {
+    const assessments = new Map(members.map(m => [m.userId, this.assessKitchen(this.getHousehold(m, members), members)]))
+    const isSafe = (m: OptInUser) => assessments.get(m.userId)!.allergenConflicts.length === 0
+    const coversAll = (m: OptInUser) => assessments.get(m.userId)!.uncoveredNeeds.length === 0
+    const fits = (m: OptInUser) => this.venueFits(assessments.get(m.userId)!)
+
+    // Prioritize users who want to host, have room for and access suited to every guest,
+    // can cook safely for them, and have partners in the same circle
+    const potentialHosts = hosts
       .filter(m => m.hostingAvailable)
       .sort((a, b) => {
+        if (fits(a) !== fits(b)) return fits(a) ? -1 : 1
+        if (isSafe(a) !== isSafe(b)) return isSafe(a) ? -1 : 1
+        if (coversAll(a) !== coversAll(b)) return coversAll(a) ? -1 : 1
+
         const aHasPartnerInCircle = a.partnerId && members.some(m => m.userId === a.partnerId)
         const bHasPartnerInCircle = b.partnerId && members.some(m => m.userId === b.partnerId)
         
@@ -323,7 +1207,145 @@ export class MatchingService {
         return bExp - aExp
       })
     
-    return potentialHosts[0] || members[0]
+    // A guest is never sent to an unsafe kitchen or an unsuitable venue while anyone else could host
+    if (potentialHosts[0] && isSafe(potentialHosts[0]) && fits(potentialHosts[0])) {
+      return potentialHosts[0]
+    }
+    // Nobody can cook safely for everyone: the host with the fewest conflicts is chosen,
+    // and fitHostedCircle releases the guests their kitchen is unsafe for
+    const conflicts = (m: OptInUser) => assessments.get(m.userId)!.allergenConflicts.length
+    return hosts.find(m => fits(m) && isSafe(m) && coversAll(m))
+      || hosts.find(m => fits(m) && isSafe(m))
+      || hosts.find(isSafe)
+      || [...(potentialHosts.length > 0 ? potentialHosts : hosts)].sort((a, b) => conflicts(a) - conflicts(b))[0]
+  }
+
+  /**
+   * The member plus their partner, if the partner is in the same circle
+   */
+  private static getHousehold(member: OptInUser, members: OptInUser[]): OptInUser[] {
+    return members.filter(m => this.isSameHousehold(member, m))
+  }
+
+  private static isSameHousehold(a: OptInUser, b: OptInUser): boolean {
+    return a.userId === b.userId || a.partnerId === b.userId || b.partnerId === a.userId
+  }
+
+  /**
+   * Check a hosting household's kitchen against every other member of the circle.
+   * Partners cook together, so the household can cook whatever either of them can,
+   * and cannot rule out an allergen that either of them has flagged.
+   */
+  private static assessKitchen(household: OptInUser[], members: OptInUser[]): KitchenAssessment {
+    const allergenRisks = new Set(household.flatMap(host => host.user.allergenRisks || []))
+    const cuisineCapabilities = new Set(household.flatMap(host => host.user.cuisineCapabilities || []))
+    const venue = this.getHouseholdVenue(household)
+    const assessment: KitchenAssessment = {
+      allergenConflicts: [],
+      uncoveredNeeds: [],
+      venueConflicts: [],
+      seatsOver: VenueService.getSeatsOver(venue, members.length),
+    }
+
+    for (const guest of members.filter(m => !household.some(host => host.userId === m.userId))) {
+      const allergens = (guest.user.allergies || [])
+        .filter(allergy => allergy.severity === ALLERGY_SEVERITY.SEVERE && allergenRisks.has(allergy.allergen))
+        .map(allergy => allergy.allergen)
+      if (allergens.length > 0) {
+        assessment.allergenConflicts.push({ guest, allergens })
+      }
+
+      const needs = (guest.user.dietaryNeeds || []).filter(need => !cuisineCapabilities.has(need))
+      if (needs.length > 0) {
+        assessment.uncoveredNeeds.push({ guest, needs })
+      }
+
+      const unmetNeeds = VenueService.getUnmetNeeds(venue, guest.user.venueNeeds)
+      if (unmetNeeds.length > 0) {
+        assessment.venueConflicts.push({ guest, needs: unmetNeeds })
+      }
+    }
+
+    return assessment
+  }
+
+  /**
+   * The venue a household hosts at. Partners share a home, so the first one described is used.
+   */
+  private static getHouseholdVenue(household: OptInUser[]): VenueProfile | null {
+    return household
+      .map(member => VenueService.resolve(member.user.venueProfile, member.venueOverride))
+      .find(venue => venue !== null) ?? null
+  }
+
+  /**
+   * Whether a household can host every other member: a kitchen free of their severe allergens, and a venue that fits them
+   */
+  private static isSafeKitchen(household: OptInUser[], members: OptInUser[]): boolean {
+    const assessment = this.assessKitchen(household, members)
+    return assessment.allergenConflicts.length === 0 && this.venueFits(assessment)
+  }
+
+  /**
+   * Whether a household's venue can take every other member, both for access and for seats
+   */
+  private static venueFits(assessment: KitchenAssessment): boolean {
+    return assessment.venueConflicts.length === 0 && assessment.seatsOver === 0
+  }
+
+  /**
+   * Score how well a circle's kitchens suit its guests: a heavy penalty per unsafe severe allergy,
+   * and a bonus when the host(s) can cook for everyone's dietary needs
+   */
+  private static scoreDietaryFit(members: OptInUser[], format: string): number {
+    if (members.length === 0) {
+      return 0
+    }
+
+    if (format === CIRCLE_FORMAT.ROTATING) {
+      // Every household hosts a course, so every kitchen has to work
+      return this.buildUnits(members).reduce(
+        (total, household) => total + this.scoreKitchen(this.assessKitchen(household, members)),
+        0
+      )
+    }
+
+    // A hosted circle is as good as the best host it could be given
+    const volunteers = members.filter(m => m.hostingAvailable)
+    return Math.max(...(volunteers.length > 0 ? volunteers : members).map(host =>
+      this.scoreKitchen(this.assessKitchen(this.getHousehold(host, members), members))
+    ))
+  }
+
+  private static scoreKitchen(assessment: KitchenAssessment): number {
+    return (assessment.uncoveredNeeds.length === 0 ? COMPATIBILITY_WEIGHTS.DIETARY_COVERAGE : 0)
+      - assessment.allergenConflicts.length * MATCHING_CONFIG.ALLERGEN_CONFLICT_PENALTY
+      - assessment.venueConflicts.length * MATCHING_CONFIG.VENUE_CONFLICT_PENALTY
+      - assessment.seatsOver * MATCHING_CONFIG.OVER_CAPACITY_PENALTY
+  }
+
+  /**
+   * Describe dietary, allergy and venue problems with a hosting household's kitchen
+   */
+  private static getDietaryWarnings(circleName: string, household: OptInUser[], assessment: KitchenAssessment): string[] {
+    const label = (value: string) => value.replace(/_/g, ' ')
+    const hostNames = household.map(host => host.user.name || `User ${host.userId}`).join(' & ')
+    const guestName = (guest: OptInUser) => guest.user.name || `User ${guest.userId}`
+
+    return [
+      ...assessment.allergenConflicts.map(({ guest, allergens }) =>
+        `${circleName}: ${guestName(guest)} has a severe ${allergens.map(label).join(', ')} allergy but ${hostNames} cannot guarantee an allergen-free kitchen`
+      ),
+      ...assessment.uncoveredNeeds.map(({ guest, needs }) =>
+        `${circleName}: ${hostNames} may not be able to cook ${needs.map(label).join(', ')} for ${guestName(guest)}`
+      ),
+      ...assessment.venueConflicts.map(({ guest, needs }) =>
+        `${circleName}: ${guestName(guest)} needs a ${needs.map(label).join(', ')} venue but ${hostNames}'s venue is not known to be`
+      ),
+      ...(assessment.seatsOver > 0
+        ? [`${circleName}: ${hostNames}'s venue is ${assessment.seatsOver} seat(s) short`]
+        : []),
+    ]
   }
 
   /**
@@ -341,96 +1363,209 @@ export class MatchingService {
   /**
    * Calculate compatibility score between two users
    */
-  private static calculateCompatibility(user1: OptInUser, user2: OptInUser): number {
-    let score = 0
+  private static calculateCompatibility(user1: OptInUser, user2: OptInUser): { interests: number; dietary: number; personality: number } {
+    const score = { interests: 0, dietary: 0, personality: 0 }
     
     // Dietary compatibility
-    if (user1.user.dietaryRestrictions === user2.user.dietaryRestrictions) {
-      score += 3
+    if (user1.user.dietaryNeeds?.some(need => user2.user.dietaryNeeds?.includes(need))) {
+      score.dietary += COMPATIBILITY_WEIGHTS.DIETARY_MATCH
     }
     
     // Interest overlap
     const commonInterests = user1.user.interests?.filter(i => 
       user2.user.interests?.includes(i)
     ).length || 0
-    score += commonInterests * 2
+    score.interests += commonInterests * COMPATIBILITY_WEIGHTS.SHARED_INTEREST
     
     // Personality compatibility (basic scoring)
     if (user1.user.personalityType && user2.user.personalityType) {
       if (user1.user.personalityType === user2.user.personalityType) {
-        score += 2
+        score.personality += COMPATIBILITY_WEIGHTS.PERSONALITY_MATCH
       }
     }
     
     return score
   }
 
+  /**
+   * Score a whole circle: pairwise compatibility plus personality mix and cooking experience spread
+   */
+  private static scoreCircle(members: OptInUser[]): number {
+    const breakdown = this.getCompatibilityBreakdown(members)
+    return breakdown.interests + breakdown.dietary + breakdown.personality + breakdown.cooking + breakdown.repeatPairs
+  }
+
+  /**
+   * The compatibility part of a circle's score, split by component
+   */
+  private static getCompatibilityBreakdown(
+    members: OptInUser[]
+  ): Pick<ScoreBreakdown, 'interests' | 'dietary' | 'personality' | 'cooking' | 'repeatPairs'> {
+    const breakdown = { interests: 0, dietary: 0, personality: 0, cooking: 0, repeatPairs: 0 }
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const pair = this.calculateCompatibility(members[i], members[j])
+        breakdown.interests += pair.interests
+        breakdown.dietary += pair.dietary
+        breakdown.personality += pair.personality
+        if (this.isRepeatPair(members[i], members[j])) {
+          breakdown.repeatPairs -= MATCHING_CONFIG.REPEAT_PAIRING_PENALTY
+        }
+      }
+    }
+
+    const personalities = new Set(members.map(m => m.user.personalityType).filter(Boolean))
+    if (personalities.size > 1) {
+      breakdown.personality += (personalities.size - 1) * COMPATIBILITY_WEIGHTS.PERSONALITY_MIX
+    }
+
+    const cookingLevels = new Set(members.map(m => m.user.cookingExperience).filter(Boolean))
+    breakdown.cooking += cookingLevels.size * COMPATIBILITY_WEIGHTS.COOKING_SPREAD
+    if (members.some(m => this.getCookingExperienceScore(m.user.cookingExperience) >= 2)) {
+      breakdown.cooking += COMPATIBILITY_WEIGHTS.EXPERIENCED_COOK
+    }
+
+    return breakdown
+  }
+
+
+  /**
+   * Two members who sat together recently. Partners always sit together, so they never count.
+   */
+  private static isRepeatPair(a: OptInUser, b: OptInUser): boolean {
+    if (this.isSameHousehold(a, b)) {
+      return false
+    }
+    return !!a.recentCompanions?.has(b.userId)
+  }
+
+  /**
+   * List the pairs in a circle who shared a circle within the lookback window
+   */
+  private static findRepeatPairs(members: OptInUser[]): RepeatPair[] {
+    const pairs: RepeatPair[] = []
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        if (this.isRepeatPair(members[i], members[j])) {
+          pairs.push({
+            userIds: [members[i].userId, members[j].userId],
+            names: [members[i].user.name, members[j].user.name],
+          })
+        }
+      }
+    }
+
+    return pairs
+  }
+
+  /**
+   * Pairs within a circle that a block or admin exclusion keeps apart
+   */
+  private static countKeptApartPairs(members: OptInUser[]): number {
+    let count = 0
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        if (members[i].keptApartFrom?.has(members[j].userId) || members[j].keptApartFrom?.has(members[i].userId)) {
+          count++
+        }
+      }
+    }
+    return count
+  }
+
+  /**
+   * Whether anyone in a unit must be kept apart from any of the members.
+   * Partners share a unit, so a block on either partner keeps the whole household away.
+   */
+  private static isKeptApart(unit: OptInUser[], members: OptInUser[]): boolean {
+    return unit.some(a => members.some(b => a.keptApartFrom?.has(b.userId) || b.keptApartFrom?.has(a.userId)))
+  }
+
+  // Higher goes first when seating the remaining units
+  private static getSeatingPriority(unit: OptInUser[]): number {
+    return Number(unit.some(member => member.waitlistPriority)) - Number(unit.some(member => member.repeatNoShow))
+  }
+
   /**
    * Handle users who couldn't be placed in full circles
    */
-  private static async handleIncompleteCircles(
-    remainingUsers: OptInUser[], 
-    eventId: number, 
-    usedUsers: Set<number>
-  ): Promise<Circle[]> {
-    const resultCircles: Circle[] = []
-    
-    // Try to add remaining users to existing circles if they have space
-    const existingCircles = await db.select().from(circles).where(eq(circles.eventId, eventId))
-    
-    for (const circle of existingCircles) {
-      const currentMembers = await db.select().from(circleMembers).where(eq(circleMembers.circleId, circle.id))
-      
-      if (currentMembers.length < MATCHING_CONFIG.DEFAULT_CIRCLE_SIZE && remainingUsers.length > 0) {
-        const spaceAvailable = MATCHING_CONFIG.DEFAULT_CIRCLE_SIZE - currentMembers.length
-        const usersToAdd = remainingUsers.splice(0, spaceAvailable)
-        
-        for (const user of usersToAdd) {
-          await db.insert(circleMembers).values({
-            circleId: circle.id,
+  private static planIncompleteCircles(
+    remainingUsers: OptInUser[],
+    optIns: OptInUser[],
+    proposal: MatchingProposal,
+    usedUsers: Set<number>,
+    settings: EventMatchingSettings
+  ): void {
+    const byUserId = new Map(optIns.map(optIn => [optIn.userId, optIn]))
+
+    // Try to add remaining users to hosted circles if they have space.
+    // Rotating circles are always exactly one household per course, so they never take extras.
+    for (const circle of proposal.circles.filter(c => c.format === CIRCLE_FORMAT.HOSTED)) {
+      let spaceAvailable = settings.maxCircleSize - circle.members.length
+      const host = byUserId.get(circle.members.find(member => member.role === CIRCLE_ROLES.HOST)!.userId)!
+
+      // Partners are only added together, previously waitlisted users are offered space first and repeat no-shows last
+      const units = this.buildUnits(remainingUsers)
+        .sort((a, b) => this.getSeatingPriority(b) - this.getSeatingPriority(a))
+      for (const unit of units) {
+        if (unit.length > spaceAvailable) continue
+        const seated = circle.members.map(member => byUserId.get(member.userId)!)
+        const household = this.getHousehold(host, seated)
+        const assessment = this.assessKitchen(household, unit)
+        if (assessment.allergenConflicts.length > 0 || assessment.venueConflicts.length > 0) continue
+        if (this.isKeptApart(unit, seated)) continue
+        if (VenueService.getSeatsOver(this.getHouseholdVenue(household), seated.length + unit.length) > 0) continue
+
+        for (const user of unit) {
+          circle.members.push({
             userId: user.userId,
-            role: circle.format === CIRCLE_FORMAT.ROTATING ? 
-              [CIRCLE_ROLES.STARTER, CIRCLE_ROLES.MAIN, CIRCLE_ROLES.DESSERT][currentMembers.length % 3] :
-              CIRCLE_ROLES.PARTICIPANT
+            name: user.user.name,
+            role: CIRCLE_ROLES.PARTICIPANT,
+            venueAddress: null,
           })
           usedUsers.add(user.userId)
+          remainingUsers.splice(remainingUsers.indexOf(user), 1)
         }
+        spaceAvailable -= unit.length
+        const members = circle.members.map(member => byUserId.get(member.userId)!)
+        circle.compatibilityScore = this.scoreCircle(members)
+        circle.repeatPairs = this.findRepeatPairs(members)
+        circle.report = this.buildCircleReport(
+          CIRCLE_FORMAT.HOSTED, members, host, this.getCircleWarnings(circle.name, CIRCLE_FORMAT.HOSTED, members, host)
+        )
       }
     }
     
-    // Create a small circle for any remaining users (minimum 4 people)
-    if (remainingUsers.length >= 4) {
-      const [circle] = await db.insert(circles).values({
-        eventId,
-        name: `Small Circle ${resultCircles.length + 1}`,
-        format: CIRCLE_FORMAT.HOSTED, // Default to hosted for small circles
-      }).returning()
-
-      // Select host
-      const host = this.selectHost(remainingUsers)
-      await db.insert(circleMembers).values({
-        circleId: circle.id,
-        userId: host.userId,
-        role: CIRCLE_ROLES.HOST,
-      })
-      usedUsers.add(host.userId)
-
-      // Add remaining users as participants
-      const guests = remainingUsers.filter(u => u.userId !== host.userId)
-      for (const guest of guests) {
-        await db.insert(circleMembers).values({
-          circleId: circle.id,
-          userId: guest.userId,
-          role: CIRCLE_ROLES.PARTICIPANT,
-        })
-        usedUsers.add(guest.userId)
+    // Seat whoever is still left in extra circles, as long as each reaches the event's minimum size
+    while (remainingUsers.length >= settings.minCircleSize) {
+      const members: OptInUser[] = []
+      const units = this.buildUnits(remainingUsers)
+        .sort((a, b) => this.getSeatingPriority(b) - this.getSeatingPriority(a))
+      for (const unit of units) {
+        if (members.length + unit.length <= settings.maxCircleSize && !this.isKeptApart(unit, members)) {
+          members.push(...unit)
+        }
       }
+      if (members.length < settings.minCircleSize) break
 
-      const circleWithMembers = await this.getCircleWithMembers(circle.id)
-      resultCircles.push(circleWithMembers)
-    }
+      const fitted = this.fitHostedCircle(members)
+      if (fitted.members.length < settings.minCircleSize) break
 
-    return resultCircles
+      const smallCircleCount = proposal.circles.filter(c => c.name.startsWith('Small Circle')).length
+      proposal.circles.push(this.buildHostedCircle(
+        `Small Circle ${smallCircleCount + 1}`,
+        fitted.members,
+        this.scoreCircle(fitted.members),
+        proposal.warnings,
+        fitted.host
+      ))
+      for (const member of fitted.members) {
+        usedUsers.add(member.userId)
+        remainingUsers.splice(remainingUsers.indexOf(member), 1)
+      }
+    }
   }
 
   /**
@@ -441,6 +1576,7 @@ export class MatchingService {
       id: circles.id,
       name: circles.name,
       format: circles.format,
+      compatibilityScore: circles.compatibilityScore,
     }).from(circles).where(eq(circles.eventId, eventId))
 
     const circlesWithMembers = await Promise.all(
@@ -467,7 +1603,49 @@ export class MatchingService {
       return null
     }
 
-    return await this.getCircleWithMembers(userCircle.circleId)
+    const circle = await this.getCircleWithMembers(userCircle.circleId)
+    const [{ matchingReport }] = await db.select({ matchingReport: circles.matchingReport })
+      .from(circles)
+      .where(eq(circles.id, userCircle.circleId))
+
+    // Members only see what they have in common with their circle, not the full report
+    const highlight = matchingReport?.highlights.find(entry => entry.userId === userId)
+    if (highlight) {
+      const { userId: _userId, ...matchSummary } = highlight
+      circle.matchSummary = matchSummary
+    }
+    return circle
+  }
+
+  /**
+   * The full matching report for an event (admin only): the latest committed run
+   * and each current circle's score breakdown, host choice and relaxed constraints
+   */
+  static async getMatchingReport(eventId: number) {
+    const [run] = await db.select().from(matchingReports)
+      .where(eq(matchingReports.eventId, eventId))
+      .orderBy(desc(matchingReports.createdAt))
+      .limit(1)
+    if (!run) {
+      throw new Error('No matching report for this event')
+    }
+
+    const eventCircles = await db.select({
+      id: circles.id,
+      name: circles.name,
+      format: circles.format,
+      compatibilityScore: circles.compatibilityScore,
+      report: circles.matchingReport,
+    }).from(circles).where(eq(circles.eventId, eventId))
+
+    const { circles: _proposedCircles, ...summary } = run.report
+    return {
+      eventId,
+      createdAt: run.createdAt,
+      totalScore: run.totalScore,
+      ...summary,
+      circles: eventCircles,
+    }
   }
 
   /**
@@ -483,6 +1661,396 @@ export class MatchingService {
     return !!optIn
   }
 
+  /**
+   * Where a user stands in an event's matching
+   */
+  static async getUserMatchStatus(eventId: number, userId: number): Promise<UserMatchStatus> {
+    const [optIn] = await db.select({
+      waitlistedAt: matchingPool.waitlistedAt,
+      withdrawnAt: matchingPool.withdrawnAt,
+      matchingStatus: events.matchingStatus,
+    }).from(matchingPool)
+    .innerJoin(events, eq(matchingPool.eventId, events.id))
+    .where(and(
+      eq(matchingPool.eventId, eventId),
+      eq(matchingPool.userId, userId)
+    ))
+
+    if (!optIn) {
+      return 'not_opted_in'
+    }
+    if (optIn.withdrawnAt) {
+      return 'withdrawn'
+    }
+    if (optIn.waitlistedAt) {
+      return 'waitlisted'
+    }
+    if (optIn.matchingStatus === EVENT_STATUS.MATCHING) {
+      return 'matching'
+    }
+
+    const circle = await this.getUserCircle(eventId, userId)
+    return circle ? 'matched' : 'opted_in'
+  }
+
+  /**
+   * Get users who were left unplaced by an event's matching run (admin only)
+   */
+  static async getWaitlist(eventId: number): Promise<WaitlistedUser[]> {
+    const waitlisted = await db.select({
+      userId: matchingPool.userId,
+      name: users.name,
+      email: users.email,
+      partnerId: matchingPool.partnerId,
+      waitlistedAt: matchingPool.waitlistedAt,
+    }).from(matchingPool)
+    .innerJoin(users, eq(matchingPool.userId, users.id))
+    .where(and(
+      eq(matchingPool.eventId, eventId),
+      isNotNull(matchingPool.waitlistedAt)
+    ))
+    .orderBy(matchingPool.waitlistedAt)
+
+    return waitlisted.map(user => ({ ...user, waitlistedAt: user.waitlistedAt! }))
+  }
+
+  /**
+   * Why newcomers cannot join a circle as it would then be seated: a kitchen that cannot rule out a severe
+   * allergy, a venue that cannot meet someone's access needs, or more people than a venue seats.
+   * Kitchens are the host's in a hosted circle and every course household's in a rotating one.
+   * Shared by every path that seats people after matching, so they follow the same rules as the run.
+   */
+  static async getSeatingError(
+    tx: DbTransaction,
+    eventId: number,
+    format: string,
+    seats: { userId: number; role: string }[],
+    joiningIds: number[]
+  ): Promise<string | null> {
+    const [event] = await tx.select({ date: events.date }).from(events).where(eq(events.id, eventId))
+    const members = await this.loadOptInUsers(tx, eventId, event.date, inArray(matchingPool.userId, seats.map(seat => seat.userId)))
+    const joining = (member: OptInUser) => joiningIds.includes(member.userId)
+    const name = (member: OptInUser) => member.user.name || `User ${member.userId}`
+
+    const hostId = seats.find(seat => seat.role === CIRCLE_ROLES.HOST)?.userId
+    const host = members.find(member => member.userId === hostId)
+    const kitchens = format === CIRCLE_FORMAT.ROTATING ? this.buildUnits(members) : host ? [this.getHousehold(host, members)] : []
+    for (const household of kitchens) {
+      const assessment = this.assessKitchen(household, members)
+      const cooking = household.some(joining)
+      const allergy = assessment.allergenConflicts.find(({ guest }) => cooking || joining(guest))
+      if (allergy) {
+        return `${name(household[0])}'s kitchen cannot rule out ${name(allergy.guest)}'s severe ${allergy.allergens.join(', ')} allergy`
+      }
+      const access = assessment.venueConflicts.find(({ guest }) => cooking || joining(guest))
+      if (access) {
+        return `${name(household[0])}'s venue cannot meet ${name(access.guest)}'s access needs`
+      }
+      if (assessment.seatsOver > 0) {
+        return `${name(household[0])}'s venue does not have room for everyone`
+      }
+    }
+    return null
+  }
+
+  /**
+   * Recompute a circle's compatibility score and report from its current members,
+   * inside the caller's transaction. Used after circles are edited by hand.
+   */
+  static async rescoreCircle(tx: DbTransaction, eventId: number, circleId: number): Promise<void> {
+    const [event] = await tx.select({ date: events.date }).from(events).where(eq(events.id, eventId))
+    const [circle] = await tx.select({ name: circles.name, format: circles.format }).from(circles)
+      .where(eq(circles.id, circleId))
+    const seated = await tx.select({ userId: circleMembers.userId, role: circleMembers.role }).from(circleMembers)
+      .where(eq(circleMembers.circleId, circleId))
+    if (!event || !circle || seated.length === 0) {
+      return
+    }
+
+    const members = await this.loadOptInUsers(tx, eventId, event.date, inArray(matchingPool.userId, seated.map(member => member.userId)))
+
+    const hostId = seated.find(member => member.role === CIRCLE_ROLES.HOST)?.userId
+    const host = members.find(member => member.userId === hostId) ?? null
+    const circleWarnings = this.getCircleWarnings(circle.name, circle.format, members, host)
+
+    await tx.update(circles)
+      .set({
+        compatibilityScore: this.scoreCircle(members),
+        matchingReport: this.buildCircleReport(circle.format, members, host, circleWarnings),
+      })
+      .where(eq(circles.id, circleId))
+  }
+
+  /**
+   * An event's active (not withdrawn) opt-ins that match a filter, with the saved coordinates and
+   * recent companions that scoring needs, inside the caller's transaction
+   */
+  private static async loadOptInUsers(tx: DbTransaction, eventId: number, eventDate: string, filter?: SQL): Promise<OptInUser[]> {
+    const optIns = await tx.select({
+      id: matchingPool.id,
+      userId: matchingPool.userId,
+      partnerId: matchingPool.partnerId,
+      matchAddress: matchingPool.matchAddress,
+      matchLatitude: matchingPool.matchLatitude,
+      matchLongitude: matchingPool.matchLongitude,
+      hostingAvailable: matchingPool.hostingAvailable,
+      venueOverride: matchingPool.venueOverride,
+      user: {
+        id: users.id,
+        name: users.name,
+        interests: users.interests,
+        personalityType: users.personalityType,
+        cookingExperience: users.cookingExperience,
+        dietaryRestrictions: users.dietaryRestrictions,
+        socialPreferences: users.socialPreferences,
+        dietaryNeeds: users.dietaryNeeds,
+        allergies: users.allergies,
+        cuisineCapabilities: users.cuisineCapabilities,
+        allergenRisks: users.allergenRisks,
+        venueProfile: users.venueProfile,
+        venueNeeds: users.venueNeeds,
+      }
+    }).from(matchingPool)
+    .innerJoin(users, eq(matchingPool.userId, users.id))
+    .where(and(eq(matchingPool.eventId, eventId), isNull(matchingPool.withdrawnAt), filter))
+    if (optIns.length === 0) {
+      return []
+    }
+
+    const recentCompanions = await this.getRecentCompanions(eventId, eventDate, optIns.map(optIn => optIn.userId))
+    const exclusions = await BlockService.getExclusions(optIns.map(optIn => optIn.userId), tx)
+    return optIns.map(({ matchLatitude, matchLongitude, ...optIn }) => ({
+      ...optIn,
+      recentCompanions: recentCompanions.get(optIn.userId),
+      keptApartFrom: exclusions.get(optIn.userId),
+      coordinates: matchLatitude !== null && matchLongitude !== null
+        ? { latitude: matchLatitude, longitude: matchLongitude }
+        : null,
+    }))
+  }
+
+  /**
+   * Withdraw a matched member from their circle before the event.
+   * The unplaced opt-in who fits the circle best takes the seat (waitlisted users first on a tie), except
+   * in a rotating circle where the member's partner keeps cooking their course; a withdrawing host is replaced by selectHost among the volunteers, and the circle is told in its chat.
+   * Guests the new host cannot cater for are waitlisted, and a circle whose host leaves with no volunteer
+   * to take over, or that would be left below the event's minimum, is dissolved and its members waitlisted.
+   */
+  static async withdrawFromCircle(eventId: number, userId: number): Promise<WithdrawalResult> {
+    return db.transaction(async (tx) => {
+      const [event] = await tx.select().from(events).where(eq(events.id, eventId)).for('update')
+      if (!event) {
+        throw new Error('Event not found')
+      }
+      if (new Date(`${event.date}T${event.startTime}`) <= new Date()) {
+        throw new Error('The event has already started')
+      }
+
+      const [seat] = await tx.select({
+        id: circleMembers.id,
+        circleId: circleMembers.circleId,
+        role: circleMembers.role,
+        name: users.name,
+        format: circles.format,
+      }).from(circleMembers)
+      .innerJoin(circles, eq(circleMembers.circleId, circles.id))
+      .innerJoin(users, eq(circleMembers.userId, users.id))
+      .where(and(eq(circles.eventId, eventId), eq(circleMembers.userId, userId)))
+      if (!seat) {
+        throw new Error('You are not in a circle for this event')
+      }
+
+      await tx.delete(circleMembers).where(eq(circleMembers.id, seat.id))
+      await tx.update(matchingPool)
+        .set({ withdrawnAt: new Date(), waitlistedAt: null })
+        .where(and(eq(matchingPool.eventId, eventId), eq(matchingPool.userId, userId)))
+
+      const remainingSeats = await tx.select({
+        userId: circleMembers.userId,
+        role: circleMembers.role,
+        venueAddress: circleMembers.venueAddress,
+      }).from(circleMembers).where(eq(circleMembers.circleId, seat.circleId))
+      const remaining = remainingSeats.length > 0
+        ? await this.loadOptInUsers(tx, eventId, event.date, inArray(matchingPool.userId, remainingSeats.map(m => m.userId)))
+        : []
+
+      // Everyone opted in but not seated anywhere in the event can fill the seat
+      const seatedIds = (await tx.select({ userId: circleMembers.userId }).from(circleMembers)
+        .innerJoin(circles, eq(circleMembers.circleId, circles.id))
+        .where(eq(circles.eventId, eventId))).map(m => m.userId)
+      const candidates = await this.loadOptInUsers(tx, eventId, event.date,
+        seatedIds.length > 0 ? notInArray(matchingPool.userId, seatedIds) : undefined)
+      const waitlistedIds = new Set((await tx.select({ userId: matchingPool.userId }).from(matchingPool)
+        .where(and(eq(matchingPool.eventId, eventId), isNotNull(matchingPool.waitlistedAt)))).map(m => m.userId))
+
+      const hostWithdrew = seat.role === CIRCLE_ROLES.HOST
+      // In a rotating circle, a partner left behind still cooks the course and nobody new can join their household;
+      // otherwise the course goes to a newcomer whose own home can serve it
+      const rotating = seat.format === CIRCLE_FORMAT.ROTATING
+      const partnerCooks = rotating && remainingSeats.some(m => m.role === seat.role)
+      // The newcomer eats from every course kitchen, or the host's; any volunteer may take over from a withdrawing host
+      const hostId = remainingSeats.find(m => m.role === CIRCLE_ROLES.HOST)?.userId
+      const kitchens = rotating
+        ? this.buildUnits(remaining)
+        : this.buildUnits(remaining).filter(household =>
+          household.some(m => hostWithdrew ? m.hostingAvailable : m.userId === hostId)
+        )
+      const replacement = partnerCooks ? null : this.findReplacement(remaining, candidates, waitlistedIds, seat.format, {
+        cooksCourse: rotating,
+        needsHost: hostWithdrew && !remaining.some(m => m.hostingAvailable),
+        kitchens,
+      })
+
+      if (hostWithdrew && !replacement && !remaining.some(m => m.hostingAvailable)) {
+        await this.dissolveCircle(tx, eventId, seat.circleId, remaining,
+          'your host can no longer make it and nobody else in the circle offered to host')
+        return { circleId: seat.circleId, replacement: null, newHost: null, released: [], dissolved: true }
+      }
+
+      if (replacement) {
+        await tx.insert(circleMembers).values({
+          circleId: seat.circleId,
+          userId: replacement.userId,
+          role: rotating ? seat.role : CIRCLE_ROLES.PARTICIPANT,
+          venueAddress: rotating ? replacement.matchAddress!.trim() : null,
+        })
+        await tx.update(matchingPool)
+          .set({ waitlistedAt: null })
+          .where(and(eq(matchingPool.eventId, eventId), eq(matchingPool.userId, replacement.userId)))
+        await tx.insert(emailNotifications).values({
+          userId: replacement.userId,
+          type: 'circle_assigned',
+          subject: 'A seat has opened up for you',
+          body: `Hi ${replacement.user.name || 'there'}, a guest can no longer make it and you've been given their seat. `
+            + `Check your circle to meet everyone.`,
+        })
+      }
+
+      // Only a volunteer takes over from a withdrawing host
+      const members = replacement ? [...remaining, replacement] : remaining
+      const newHost = hostWithdrew ? this.selectHost(members, members.filter(m => m.hostingAvailable)) : null
+
+      // Guests the new host cannot cook safely for or receive at their venue are waitlisted,
+      // and a circle left too small to go ahead is dissolved
+      const newHousehold = newHost ? this.getHousehold(newHost, members) : []
+      const unseatable = newHost ? this.assessKitchen(newHousehold, members) : null
+      const unseatableIds = new Set([...unseatable?.allergenConflicts ?? [], ...unseatable?.venueConflicts ?? []].map(({ guest }) => guest.userId))
+      const released = this.buildUnits(members.filter(m => !newHousehold.includes(m)))
+        .filter(unit => unit.some(guest => unseatableIds.has(guest.userId)))
+        .flat()
+      if (released.length > 0 && members.length - released.length < event.minCircleSize) {
+        await this.dissolveCircle(tx, eventId, seat.circleId, members,
+          'your host can no longer make it and the member taking over cannot host everyone safely')
+        return { circleId: seat.circleId, replacement: null, newHost: null, released: [], dissolved: true }
+      }
+
+      if (newHost) {
+        await tx.update(circleMembers)
+          .set({ role: CIRCLE_ROLES.HOST })
+          .where(and(eq(circleMembers.circleId, seat.circleId), eq(circleMembers.userId, newHost.userId)))
+      }
+      if (released.length > 0) {
+        await tx.delete(circleMembers).where(and(
+          eq(circleMembers.circleId, seat.circleId),
+          inArray(circleMembers.userId, released.map(m => m.userId))
+        ))
+        await this.waitlistMembers(tx, eventId, released, 'A change to your circle',
+          'your host can no longer make it, and the member taking over cannot cater for your allergies or access needs')
+      }
+
+      const notice = [`${seat.name || 'A member'} can no longer make it.`]
+      notice.push(replacement
+        ? `${replacement.user.name || 'A new guest'} has joined the circle in their place.`
+        : partnerCooks
+          ? 'Their partner is still cooking their course, so the circle will be one smaller.'
+          : 'Nobody was free to take their seat, so the circle will be one smaller.')
+      if (newHost) {
+        notice.push(`${newHost.user.name || 'A member'} is now hosting.`)
+      }
+      if (released.length > 0) {
+        notice.push(`${released.map(m => m.user.name || 'A member').join(', ')} could not be hosted safely and have been moved to the waitlist.`)
+      }
+      await tx.insert(chatMessages).values({
+        circleId: seat.circleId,
+        userId,
+        type: CHAT_MESSAGE_TYPE.SYSTEM,
+        message: notice.join(' '),
+      })
+
+      await this.rescoreCircle(tx, eventId, seat.circleId)
+
+      return {
+        circleId: seat.circleId,
+        replacement: replacement ? { userId: replacement.userId, name: replacement.user.name } : null,
+        newHost: newHost ? { userId: newHost.userId, name: newHost.user.name } : null,
+        released: released.map(m => ({ userId: m.userId, name: m.user.name })),
+        dissolved: false,
+      }
+    })
+  }
+
+  /**
+   * Break up a circle that cannot go ahead and put its members back on the waitlist
+   */
+  private static async dissolveCircle(tx: DbTransaction, eventId: number, circleId: number, members: OptInUser[], reason: string): Promise<void> {
+    await tx.delete(chatMessages).where(eq(chatMessages.circleId, circleId))
+    await tx.delete(circleMembers).where(eq(circleMembers.circleId, circleId))
+    await tx.delete(circles).where(eq(circles.id, circleId))
+    await this.waitlistMembers(tx, eventId, members, 'Your circle has been cancelled', `${reason}, so the circle has been cancelled`)
+  }
+
+  /**
+   * Put members taken out of their circle back on the waitlist and tell them why
+   */
+  private static async waitlistMembers(tx: DbTransaction, eventId: number, members: OptInUser[], subject: string, reason: string): Promise<void> {
+    if (members.length === 0) {
+      return
+    }
+
+    await tx.update(matchingPool)
+      .set({ waitlistedAt: new Date() })
+      .where(and(eq(matchingPool.eventId, eventId), inArray(matchingPool.userId, members.map(m => m.userId))))
+
+    await tx.insert(emailNotifications).values(members.map(member => ({
+      userId: member.userId,
+      type: 'waitlisted',
+      subject,
+      body: `Hi ${member.user.name || 'there'}, ${reason}. You're on the waitlist in case a spot opens up in another circle.`,
+    })))
+  }
+
+  /**
+   * The candidate who makes the best circle with the remaining members.
+   * Only one seat opened, so partners waiting together are left for a circle with room for both.
+   * Nobody is sent to a venue that cannot meet their access needs, fed from a kitchen that cannot rule out their
+   * severe allergies, or seated with someone they are kept apart from; a newcomer cooking a rotating course must
+   * have a home every other member can be served at and a kitchen safe for all of them.
+   */
+  private static findReplacement(
+    members: OptInUser[],
+    candidates: OptInUser[],
+    waitlistedIds: Set<number>,
+    format: string,
+    { cooksCourse, needsHost, kitchens }: { cooksCourse: boolean; needsHost: boolean; kitchens: OptInUser[][] }
+  ): OptInUser | null {
+    const ranked = candidates
+      .filter(candidate => !candidates.some(other => other.userId === candidate.partnerId))
+      .filter(candidate => !cooksCourse || (candidate.matchAddress?.trim() && this.isSafeKitchen([candidate], [...members, candidate])))
+      .filter(candidate => kitchens.every(household => this.isSafeKitchen(household, [candidate])))
+      .filter(candidate => !this.isKeptApart([candidate], members))
+      // A circle that lost its only volunteer host can only go ahead with a newcomer who will host
+      .filter(candidate => !needsHost || candidate.hostingAvailable)
+      .map(candidate => {
+        const circle = [...members, candidate]
+        return { candidate, score: this.scoreCircle(circle) + this.scoreDietaryFit(circle, format) }
+      })
+      .sort((a, b) =>
+        b.score - a.score
+        || Number(waitlistedIds.has(b.candidate.userId)) - Number(waitlistedIds.has(a.candidate.userId))
+      )
+    return ranked[0]?.candidate ?? null
+  }
+
   /**
    * Get matching pool for an event (admin only)
    */
@@ -493,6 +2061,7 @@ export class MatchingService {
       partnerId: matchingPool.partnerId,
       matchAddress: matchingPool.matchAddress,
       hostingAvailable: matchingPool.hostingAvailable,
+      venueOverride: matchingPool.venueOverride,
       user: {
         id: users.id,
         name: users.name,
@@ -501,6 +2070,12 @@ export class MatchingService {
         cookingExperience: users.cookingExperience,
         dietaryRestrictions: users.dietaryRestrictions,
         socialPreferences: users.socialPreferences,
+        dietaryNeeds: users.dietaryNeeds,
+        allergies: users.allergies,
+        cuisineCapabilities: users.cuisineCapabilities,
+        allergenRisks: users.allergenRisks,
+        venueProfile: users.venueProfile,
+        venueNeeds: users.venueNeeds,
       }
     }).from(matchingPool)
     .innerJoin(users, eq(matchingPool.userId, users.id))
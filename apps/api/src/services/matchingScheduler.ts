@@ -0,0 +1,227 @@
+import { db } from '../db/client'
+import { events, matchingPool, scheduledMatchingRuns } from '../db/schema'
+import { eq, and, lte, gte, count, desc, isNull } from 'drizzle-orm'
+import { MATCHING_CONFIG, SCHEDULER_CONFIG, SCHEDULED_RUN_STATUS, EVENT_STATUS } from '../config/constants'
+import { MatchingService } from './matching'
+import { EventSeriesService } from './eventSeries'
+import { EventLifecycleService } from './eventLifecycle'
+import { EventCompletionService } from './eventCompletion'
+
+type Event = typeof events.$inferSelect
+type ScheduledRun = typeof scheduledMatchingRuns.$inferSelect
+
+export interface UpcomingMatchingRun {
+  eventId: number
+  date: string
+  startTime: string
+  deadline: Date
+  optInCount: number
+  minOptIns: number
+}
+
+export interface MatchingScheduleOverview {
+  deadlineDays: number
+  upcoming: UpcomingMatchingRun[]
+  runs: (ScheduledRun & { date: string })[]
+}
+
+/**
+ * Runs matching for open events once their matching deadline has passed.
+ * Each event gets one scheduled run record; transient failures are retried with backoff.
+ */
+export class MatchingScheduler {
+  private static timer: NodeJS.Timeout | null = null
+  private static ticking = false
+
+  static start(): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => this.tick(), SCHEDULER_CONFIG.INTERVAL_MINUTES * 60_000)
+    // Never keep the process alive just for the scheduler
+    this.timer.unref()
+    this.tick()
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Matching closes MATCHING_DEADLINE_DAYS before the event starts
+   */
+  static getDeadline(event: Pick<Event, 'date' | 'startTime'>): Date {
+    const deadline = new Date(`${event.date}T${event.startTime}`)
+    deadline.setDate(deadline.getDate() - MATCHING_CONFIG.MATCHING_DEADLINE_DAYS)
+    return deadline
+  }
+
+  /**
+   * Process every event that is due. Ticks never overlap, and errors are logged rather than thrown.
+   * Each tick also tops up recurring series, so their occurrences exist well before their deadlines,
+   * moves events through the time-driven part of their lifecycle, and finishes any completion job
+   * that did not run when its event completed.
+   */
+  static async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return
+    this.ticking = true
+
+    try {
+      const created = await EventSeriesService.generateAll(now)
+      if (created > 0) {
+        console.log(`Generated ${created} events from recurring series`)
+      }
+    } catch (error) {
+      console.error('Series generation error:', error)
+    }
+
+    try {
+      for (const { event, run } of await this.findDueEvents(now)) {
+        await this.runForEvent(event, run, now)
+      }
+    } catch (error) {
+      console.error('Matching scheduler error:', error)
+    }
+
+    try {
+      await EventLifecycleService.advance(now)
+    } catch (error) {
+      console.error('Event lifecycle error:', error)
+    }
+
+    try {
+      await EventCompletionService.awardPending()
+    } catch (error) {
+      console.error('Completion job error:', error)
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  /**
+   * Open events past their deadline but not yet started, that have no run or a retry that is due
+   */
+  private static async findDueEvents(now: Date): Promise<{ event: Event; run: ScheduledRun | null }[]> {
+    // Coarse date filter in SQL; the exact deadline depends on each event's start time
+    const latestDate = new Date(now)
+    latestDate.setDate(latestDate.getDate() + MATCHING_CONFIG.MATCHING_DEADLINE_DAYS + 1)
+    const rows = await db.select({ event: events, run: scheduledMatchingRuns })
+      .from(events)
+      .leftJoin(scheduledMatchingRuns, eq(scheduledMatchingRuns.eventId, events.id))
+      .where(and(
+        eq(events.matchingStatus, EVENT_STATUS.OPEN),
+        gte(events.date, this.toDateString(now)),
+        lte(events.date, this.toDateString(latestDate))
+      ))
+
+    return rows.filter(({ event, run }) => {
+      const startsAt = new Date(`${event.date}T${event.startTime}`)
+      if (this.getDeadline(event) > now || startsAt <= now) return false
+      if (!run) return true
+      return run.status === SCHEDULED_RUN_STATUS.RETRYING && (!run.nextAttemptAt || run.nextAttemptAt <= now)
+    })
+  }
+
+  private static async runForEvent(event: Event, run: ScheduledRun | null, now: Date): Promise<void> {
+    const attempts = (run?.attempts ?? 0) + 1
+
+    const [{ optInCount }] = await db.select({ optInCount: count(matchingPool.id) })
+      .from(matchingPool)
+      .where(and(eq(matchingPool.eventId, event.id), isNull(matchingPool.withdrawnAt)))
+    if (optInCount < event.minOptIns) {
+      await this.recordRun(event.id, {
+        status: SCHEDULED_RUN_STATUS.SKIPPED,
+        attempts,
+        lastError: `Only ${optInCount} of the ${event.minOptIns} required opt-ins`,
+        nextAttemptAt: null,
+      })
+      return
+    }
+
+    try {
+      const circles = await MatchingService.triggerMatching(event.id)
+      await this.recordRun(event.id, { status: SCHEDULED_RUN_STATUS.SUCCEEDED, attempts, lastError: null, nextAttemptAt: null })
+      console.log(`Scheduled matching formed ${circles.length} circles for event ${event.id}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const retry = this.isTransientError(error) && attempts < SCHEDULER_CONFIG.MAX_ATTEMPTS
+      await this.recordRun(event.id, {
+        status: retry ? SCHEDULED_RUN_STATUS.RETRYING : SCHEDULED_RUN_STATUS.FAILED,
+        attempts,
+        lastError: message,
+        nextAttemptAt: retry
+          ? new Date(now.getTime() + SCHEDULER_CONFIG.RETRY_BACKOFF_MINUTES * 2 ** (attempts - 1) * 60_000)
+          : null,
+      })
+      console.error(`Scheduled matching error for event ${event.id} (attempt ${attempts}):`, error)
+    }
+  }
+
+  /**
+   * Connection and database errors carry a code (e.g. ECONNRESET, 40001) and are worth retrying,
+   * as is a manual run that is still in progress. Anything else raised by matching will fail again.
+   */
+  private static isTransientError(error: unknown): boolean {
+    if (!(error instanceof Error)) return false
+    return typeof (error as { code?: unknown }).code === 'string'
+      || error.message === 'Matching is already in progress for this event'
+  }
+
+  private static async recordRun(
+    eventId: number,
+    values: Pick<ScheduledRun, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt'>
+  ): Promise<void> {
+    await db.insert(scheduledMatchingRuns)
+      .values({ eventId, ...values })
+      .onConflictDoUpdate({
+        target: scheduledMatchingRuns.eventId,
+        set: { ...values, updatedAt: new Date() },
+      })
+  }
+
+  /**
+   * Upcoming deadlines for open events, plus the most recent scheduled runs
+   */
+  static async getOverview(now: Date = new Date(), limit = 20): Promise<MatchingScheduleOverview> {
+    const openEvents = await db.select({
+      event: events,
+      optInCount: count(matchingPool.id),
+    })
+      .from(events)
+      .leftJoin(matchingPool, and(eq(matchingPool.eventId, events.id), isNull(matchingPool.withdrawnAt)))
+      .where(and(eq(events.matchingStatus, EVENT_STATUS.OPEN), gte(events.date, this.toDateString(now))))
+      .groupBy(events.id)
+
+    const upcoming = openEvents
+      .map(({ event, optInCount }) => ({
+        eventId: event.id,
+        date: event.date,
+        startTime: event.startTime,
+        deadline: this.getDeadline(event),
+        optInCount,
+        minOptIns: event.minOptIns,
+      }))
+      .filter(entry => entry.deadline > now)
+      .sort((a, b) => a.deadline.getTime() - b.deadline.getTime())
+      .slice(0, limit)
+
+    const runs = await db.select({ run: scheduledMatchingRuns, date: events.date })
+      .from(scheduledMatchingRuns)
+      .innerJoin(events, eq(scheduledMatchingRuns.eventId, events.id))
+      .orderBy(desc(scheduledMatchingRuns.updatedAt))
+      .limit(limit)
+
+    return {
+      deadlineDays: MATCHING_CONFIG.MATCHING_DEADLINE_DAYS,
+      upcoming,
+      runs: runs.map(({ run, date }) => ({ ...run, date })),
+    }
+  }
+
+  private static toDateString(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  }
+}
@@ -0,0 +1,136 @@
+import { MATCHING_CONFIG, MATCHING_STRATEGY } from '../config/constants'
+import { CircleOptimizer, OptimizerOptions, OptimizerResult } from './circleOptimizer'
+
+export type MatchingStrategyName = typeof MATCHING_STRATEGY[keyof typeof MATCHING_STRATEGY]
+
+export interface MatchingStrategyParams {
+  maxPasses?: number // Local-search passes (optimizer)
+  seed?: number // Shuffle seed (random)
+}
+
+export type GroupingOptions<T> = Omit<OptimizerOptions<T>, 'maxPasses'>
+
+/**
+ * How units are partitioned into circles.
+ * Everything around grouping (units, formats, hosts, warnings) is shared, so strategies
+ * can be compared side by side on the same pool.
+ */
+export interface MatchingStrategy {
+  name: MatchingStrategyName
+  description: string
+  /**
+   * Fill in defaults so the recorded params reproduce the run exactly
+   */
+  resolveParams(params: MatchingStrategyParams): MatchingStrategyParams
+  formGroups<T>(units: T[][], options: GroupingOptions<T>, params: MatchingStrategyParams): OptimizerResult<T>
+}
+
+/**
+ * Greedy seeding followed by local-search swaps
+ */
+class OptimizerStrategy implements MatchingStrategy {
+  name = MATCHING_STRATEGY.OPTIMIZER
+  description = 'Maximizes total compatibility with greedy seeding and local-search swaps'
+
+  resolveParams(params: MatchingStrategyParams): MatchingStrategyParams {
+    return { maxPasses: params.maxPasses ?? MATCHING_CONFIG.OPTIMIZER_MAX_PASSES }
+  }
+
+  formGroups<T>(units: T[][], options: GroupingOptions<T>, params: MatchingStrategyParams): OptimizerResult<T> {
+    return CircleOptimizer.formGroups(units, { ...options, maxPasses: params.maxPasses })
+  }
+}
+
+/**
+ * Greedy seeding only, without the improvement passes
+ */
+class GreedyStrategy implements MatchingStrategy {
+  name = MATCHING_STRATEGY.GREEDY
+  description = 'Places each unit where it adds the most compatibility, with no later swaps'
+
+  resolveParams(): MatchingStrategyParams {
+    return {}
+  }
+
+  formGroups<T>(units: T[][], options: GroupingOptions<T>): OptimizerResult<T> {
+    return CircleOptimizer.formGroups(units, { ...options, maxPasses: 0 })
+  }
+}
+
+/**
+ * Seeded random grouping that ignores compatibility, for control groups
+ */
+class RandomStrategy implements MatchingStrategy {
+  name = MATCHING_STRATEGY.RANDOM
+  description = 'Shuffles the pool and deals it out across circles, ignoring compatibility'
+
+  resolveParams(params: MatchingStrategyParams): MatchingStrategyParams {
+    return { seed: params.seed ?? Math.floor(Math.random() * 2 ** 31) }
+  }
+
+  formGroups<T>(units: T[][], options: GroupingOptions<T>, params: MatchingStrategyParams): OptimizerResult<T> {
+    const { groupCount, groupSize, scoreGroup, unitKey } = options
+    const random = this.createRandom(params.seed ?? 0)
+
+    // Sort first so the same seed always shuffles the same pool the same way
+    const shuffled = [...units].sort((a, b) => unitKey(a) - unitKey(b))
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+    }
+
+    const groups: T[][][] = Array.from({ length: groupCount }, () => [])
+    const leftover: T[][] = []
+    for (const unit of shuffled) {
+      // Deal to the emptiest circle with room, so circles stay evenly sized
+      const group = groups
+        .filter(candidate => candidate.flat().length + unit.length <= groupSize)
+        .sort((a, b) => a.flat().length - b.flat().length)[0]
+      if (group) {
+        group.push(unit)
+      } else {
+        leftover.push(unit)
+      }
+    }
+
+    return {
+      groups: groups.map(group => {
+        const members = group.flat()
+        return { units: group, members, score: scoreGroup(members) }
+      }),
+      leftover,
+    }
+  }
+
+  /**
+   * Mulberry32, a small deterministic PRNG
+   */
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0
+      let t = state
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+  }
+}
+
+const strategies: Record<MatchingStrategyName, MatchingStrategy> = {
+  [MATCHING_STRATEGY.OPTIMIZER]: new OptimizerStrategy(),
+  [MATCHING_STRATEGY.GREEDY]: new GreedyStrategy(),
+  [MATCHING_STRATEGY.RANDOM]: new RandomStrategy(),
+}
+
+export function getMatchingStrategy(name: string): MatchingStrategy {
+  const strategy = strategies[name as MatchingStrategyName]
+  if (!strategy) {
+    throw new Error(`Unknown matching strategy: ${name}`)
+  }
+  return strategy
+}
+
+export function listMatchingStrategies(): { name: MatchingStrategyName; description: string }[] {
+  return Object.values(strategies).map(({ name, description }) => ({ name, description }))
+}
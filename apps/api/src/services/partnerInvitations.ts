@@ -0,0 +1,280 @@
+import { randomBytes } from 'crypto'
+import { db } from '../db/client'
+import { partnerInvitations, matchingPool, events, users, households, emailNotifications } from '../db/schema'
+import { eq, and, or, inArray, isNull, lte, count } from 'drizzle-orm'
+import { env } from '../env'
+import { MATCHING_CONFIG, INVITATION_STATUS, HOUSEHOLD_STATUS, EVENT_STATUS } from '../config/constants'
+import { MatchingScheduler } from './matchingScheduler'
+import type { DbTransaction } from './matching'
+
+// An invitation that cannot be sent, accepted or declined
+export class InvitationError extends Error {}
+
+export interface InvitationDetails {
+  status: string
+  inviterName: string | null
+  inviteeEmail: string
+  eventId: number
+  eventDate: string
+  eventStartTime: string
+  expiresAt: Date
+}
+
+/**
+ * Invitations for a partner to join someone's opt-in. The partner is only opted in once they accept,
+ * so until then matching sees the inviter on their own. Accepting also links the pair as a household
+ * when neither is in one yet.
+ */
+export class PartnerInvitationService {
+  /**
+   * Invite a partner by email to join the inviter's opt-in for an event
+   */
+  static async invite(
+    eventId: number,
+    inviterId: number,
+    inviteeEmail: string,
+    executor: DbTransaction | typeof db = db
+  ): Promise<typeof partnerInvitations.$inferSelect> {
+    const email = inviteeEmail.trim()
+    const [event] = await executor.select().from(events).where(eq(events.id, eventId))
+    if (!event) {
+      throw new Error('Event not found')
+    }
+    const [inviter] = await executor.select({ name: users.name, email: users.email }).from(users).where(eq(users.id, inviterId))
+    if (inviter?.email === email) {
+      throw new InvitationError('You cannot invite yourself as your partner')
+    }
+
+    const [invitee] = await executor.select({ id: users.id, name: users.name }).from(users).where(eq(users.email, email))
+
+    // Answers arriving after matching has started would be ignored, so the invitation ends at the deadline
+    const expiresAt = new Date(Date.now() + MATCHING_CONFIG.PARTNER_INVITATION_DAYS * 24 * 60 * 60_000)
+    const deadline = MatchingScheduler.getDeadline(event)
+    const [invitation] = await executor.insert(partnerInvitations).values({
+      eventId,
+      inviterId,
+      inviteeEmail: email,
+      inviteeId: invitee?.id ?? null,
+      token: randomBytes(24).toString('hex'),
+      expiresAt: deadline < expiresAt ? deadline : expiresAt,
+    }).returning()
+
+    const link = `${env.FRONTEND_URL || 'http://localhost:5173'}/invitations/${invitation.token}`
+    await executor.insert(emailNotifications).values({
+      userId: invitee?.id ?? null,
+      recipientEmail: invitee ? null : email,
+      type: 'partner_invitation',
+      subject: `${inviter?.name || 'Someone'} invited you to dinner`,
+      body: `Hi ${invitee?.name || 'there'}, ${inviter?.name || 'someone'} would like you to join them as their partner `
+        + `for the dinner on ${event.date}. Accept or decline here: ${link}`
+        + (invitee ? '' : ' You can create an account from the same link.'),
+    })
+
+    return invitation
+  }
+
+  /**
+   * What the link shows before it is answered. An unanswered invitation past its expiry reads as expired.
+   */
+  static async getByToken(token: string): Promise<InvitationDetails> {
+    const [invitation] = await db.select({
+      status: partnerInvitations.status,
+      inviterName: users.name,
+      inviteeEmail: partnerInvitations.inviteeEmail,
+      eventId: events.id,
+      eventDate: events.date,
+      eventStartTime: events.startTime,
+      expiresAt: partnerInvitations.expiresAt,
+    }).from(partnerInvitations)
+    .innerJoin(users, eq(partnerInvitations.inviterId, users.id))
+    .innerJoin(events, eq(partnerInvitations.eventId, events.id))
+    .where(eq(partnerInvitations.token, token))
+    if (!invitation) {
+      throw new Error('Invitation not found')
+    }
+
+    const expired = invitation.status === INVITATION_STATUS.PENDING && invitation.expiresAt <= new Date()
+    return { ...invitation, status: expired ? INVITATION_STATUS.EXPIRED : invitation.status }
+  }
+
+  /**
+   * Accept an invitation: opt the invitee in with the inviter, and link them as a household if neither has one
+   */
+  static async accept(token: string, userId: number): Promise<void> {
+    await this.expireLapsed(token)
+    const inviterId = await db.transaction(async (tx) => {
+      // The event is locked first, as the matching run does, so this waits for concurrent opt-ins and for a run
+      // claiming the event without the two deadlocking on the invitation
+      const [target] = await tx.select({ eventId: partnerInvitations.eventId }).from(partnerInvitations)
+        .where(eq(partnerInvitations.token, token))
+      if (!target) {
+        throw new Error('Invitation not found')
+      }
+      const [event] = await tx.select().from(events).where(eq(events.id, target.eventId)).for('update')
+      const invitation = await this.lockPending(tx, token)
+
+      const [user] = await tx.select({ email: users.email }).from(users).where(eq(users.id, userId))
+      if (invitation.inviteeId !== userId && user?.email !== invitation.inviteeEmail) {
+        throw new InvitationError('This invitation was sent to a different email address')
+      }
+
+      if (event.matchingStatus !== EVENT_STATUS.OPEN) {
+        throw new InvitationError('Matching has already run for this event')
+      }
+
+      const [inviterOptIn] = await tx.select().from(matchingPool)
+        .where(and(eq(matchingPool.eventId, invitation.eventId), eq(matchingPool.userId, invitation.inviterId)))
+      if (!inviterOptIn || inviterOptIn.partnerId) {
+        throw new InvitationError('This invitation is no longer valid')
+      }
+      const [ownOptIn] = await tx.select().from(matchingPool)
+        .where(and(eq(matchingPool.eventId, invitation.eventId), eq(matchingPool.userId, userId)))
+      if (ownOptIn?.partnerId) {
+        throw new InvitationError('You are already opted in to this event with a partner')
+      }
+      if (!ownOptIn && event.maxParticipants !== null) {
+        const [{ optInCount }] = await tx.select({ optInCount: count() }).from(matchingPool)
+          .where(and(eq(matchingPool.eventId, invitation.eventId), isNull(matchingPool.withdrawnAt)))
+        if (optInCount >= event.maxParticipants) {
+          throw new InvitationError('This event is full')
+        }
+      }
+
+      // A first invitation between two people without a household also forms one
+      const [existing] = await tx.select().from(households).where(and(
+        inArray(households.status, [HOUSEHOLD_STATUS.PENDING, HOUSEHOLD_STATUS.ACTIVE]),
+        or(
+          inArray(households.requesterId, [invitation.inviterId, userId]),
+          inArray(households.partnerId, [invitation.inviterId, userId])
+        )
+      ))
+      let householdId: number | null = null
+      if (!existing) {
+        const [household] = await tx.insert(households).values({
+          requesterId: invitation.inviterId,
+          partnerId: userId,
+          status: HOUSEHOLD_STATUS.ACTIVE,
+          confirmedAt: new Date(),
+        }).returning({ id: households.id })
+        householdId = household.id
+      } else if (existing.status === HOUSEHOLD_STATUS.ACTIVE
+        && [existing.requesterId, existing.partnerId].includes(invitation.inviterId)
+        && [existing.requesterId, existing.partnerId].includes(userId)) {
+        householdId = existing.id
+      }
+
+      if (ownOptIn) {
+        await tx.update(matchingPool)
+          .set({ partnerId: invitation.inviterId, householdId })
+          .where(eq(matchingPool.id, ownOptIn.id))
+      } else {
+        await tx.insert(matchingPool).values({
+          eventId: invitation.eventId,
+          userId,
+          partnerId: invitation.inviterId,
+          householdId,
+          matchAddress: inviterOptIn.matchAddress,
+          matchLatitude: inviterOptIn.matchLatitude,
+          matchLongitude: inviterOptIn.matchLongitude,
+          hostingAvailable: false, // Partner doesn't host by default
+        })
+      }
+      await tx.update(matchingPool)
+        .set({ partnerId: userId, householdId })
+        .where(eq(matchingPool.id, inviterOptIn.id))
+
+      await tx.update(partnerInvitations)
+        .set({ status: INVITATION_STATUS.ACCEPTED, inviteeId: userId, respondedAt: new Date() })
+        .where(eq(partnerInvitations.id, invitation.id))
+
+      return invitation.inviterId
+    })
+
+    await this.notifyInviter(inviterId, userId, 'accepted your invitation. You will be matched together.')
+  }
+
+  /**
+   * Decline an invitation. Anyone holding the link can, so no account is needed.
+   */
+  static async decline(token: string): Promise<void> {
+    await this.expireLapsed(token)
+    const invitation = await db.transaction(async (tx) => {
+      const invitation = await this.lockPending(tx, token)
+      await tx.update(partnerInvitations)
+        .set({ status: INVITATION_STATUS.DECLINED, respondedAt: new Date() })
+        .where(eq(partnerInvitations.id, invitation.id))
+      return invitation
+    })
+
+    await this.notifyInviter(invitation.inviterId, invitation.inviteeId, 'declined your invitation, so you will be matched on your own.')
+  }
+
+  /**
+   * Withdraw the inviter's unanswered invitations when they opt out of the event
+   */
+  static async cancelForOptIn(eventId: number, inviterId: number): Promise<void> {
+    await db.update(partnerInvitations)
+      .set({ status: INVITATION_STATUS.CANCELLED })
+      .where(and(
+        eq(partnerInvitations.eventId, eventId),
+        eq(partnerInvitations.inviterId, inviterId),
+        eq(partnerInvitations.status, INVITATION_STATUS.PENDING)
+      ))
+  }
+
+  /**
+   * Attach invitations sent to an email address to the account that now uses it
+   */
+  static async claimForUser(userId: number, email: string): Promise<void> {
+    await db.update(partnerInvitations)
+      .set({ inviteeId: userId })
+      .where(and(
+        eq(partnerInvitations.inviteeEmail, email),
+        eq(partnerInvitations.status, INVITATION_STATUS.PENDING),
+        isNull(partnerInvitations.inviteeId)
+      ))
+  }
+
+  /**
+   * Record that an unanswered invitation has lapsed. This runs on its own, before the answer's transaction,
+   * because refusing the answer rolls that transaction back.
+   */
+  private static async expireLapsed(token: string): Promise<void> {
+    await db.update(partnerInvitations)
+      .set({ status: INVITATION_STATUS.EXPIRED })
+      .where(and(
+        eq(partnerInvitations.token, token),
+        eq(partnerInvitations.status, INVITATION_STATUS.PENDING),
+        lte(partnerInvitations.expiresAt, new Date())
+      ))
+  }
+
+  private static async lockPending(tx: DbTransaction, token: string) {
+    const [invitation] = await tx.select().from(partnerInvitations)
+      .where(eq(partnerInvitations.token, token))
+      .for('update')
+    if (!invitation) {
+      throw new Error('Invitation not found')
+    }
+    // One that lapsed since expireLapsed ran is refused too, and recorded on the next answer or by the matching run
+    if (invitation.status === INVITATION_STATUS.EXPIRED || (invitation.status === INVITATION_STATUS.PENDING && invitation.expiresAt <= new Date())) {
+      throw new InvitationError('This invitation has expired')
+    }
+    if (invitation.status !== INVITATION_STATUS.PENDING) {
+      throw new InvitationError(`This invitation has already been ${invitation.status}`)
+    }
+    return invitation
+  }
+
+  private static async notifyInviter(inviterId: number, inviteeId: number | null, action: string): Promise<void> {
+    const [invitee] = inviteeId
+      ? await db.select({ name: users.name }).from(users).where(eq(users.id, inviteeId))
+      : []
+    await db.insert(emailNotifications).values({
+      userId: inviterId,
+      type: 'partner_opt_in',
+      subject: 'Your partner invitation was answered',
+      body: `${invitee?.name || 'Your partner'} ${action}`,
+    })
+  }
+}
@@ -1,6 +1,8 @@
 import { db } from '../db/client'
-import { userPoints, pointTransactions, userBadges, events, users, neighbourhoods, matchingPool } from '../db/schema'
-import { eq, and, desc, count, sql, gte, lte } from 'drizzle-orm'
+import { userPoints, pointTransactions, userBadges, events, users, neighbourhoods, matchingPool, eventRewards } from '../db/schema'
+import { eq, and, desc, count, countDistinct, sql, gte, lte, inArray, isNull, isNotNull } from 'drizzle-orm'
+import { CIRCLE_ROLES, ROTATING_COURSES } from '../config/constants'
+import type { DbTransaction } from './matching'
 
 export interface BadgeDefinition {
   id: string
@@ -101,10 +103,11 @@ export class RewardsService {
     points: number,
     reason: string,
     eventId?: number,
-    details?: string
+    details?: string,
+    executor: DbTransaction | typeof db = db
   ): Promise<void> {
     // Create transaction record
-    await db.insert(pointTransactions).values({
+    await executor.insert(pointTransactions).values({
       userId,
       eventId: eventId || null,
       pointsEarned: points,
@@ -113,10 +116,10 @@ export class RewardsService {
     })
 
     // Update user's total points
-    const [existingPoints] = await db.select().from(userPoints).where(eq(userPoints.userId, userId))
+    const [existingPoints] = await executor.select().from(userPoints).where(eq(userPoints.userId, userId))
     
     if (existingPoints) {
-      await db.update(userPoints)
+      await executor.update(userPoints)
         .set({
           points: existingPoints.points + points,
           totalPointsEarned: existingPoints.totalPointsEarned + points,
@@ -124,7 +127,7 @@ export class RewardsService {
         })
         .where(eq(userPoints.userId, userId))
     } else {
-      await db.insert(userPoints).values({
+      await executor.insert(userPoints).values({
         userId,
         points,
         totalPointsEarned: points,
@@ -198,13 +201,22 @@ export class RewardsService {
       .from(matchingPool)
       .where(eq(matchingPool.userId, userId))
 
+    // Get the different courses hosted at completed rotating dinners
+    const [coursesHosted] = await db.select({ count: countDistinct(eventRewards.role) })
+      .from(eventRewards)
+      .where(and(
+        eq(eventRewards.userId, userId),
+        inArray(eventRewards.role, [...ROTATING_COURSES]),
+        isNull(eventRewards.revokedAt)
+      ))
+
     // Get total points
     const [userPointsData] = await db.select().from(userPoints).where(eq(userPoints.userId, userId))
 
     return {
       eventsParticipated: eventsParticipated.count,
       eventsHosted: eventsHosted.count,
-      coursesHosted: 0, // Will be updated when circles are implemented
+      coursesHosted: coursesHosted.count,
       ratingsReceived: ratingsReceived.count,
       totalPoints: userPointsData?.totalPointsEarned || 0,
     }
@@ -282,22 +294,26 @@ export class RewardsService {
   }
 
   /**
-   * Award points for event participation
+   * Award points for event participation. Only the first award for a user and event counts;
+   * returns false when they already had points for it.
    */
-  static async awardEventParticipationPoints(userId: number, eventId: number, isHost: boolean): Promise<void> {
+  static async awardEventParticipationPoints(userId: number, eventId: number, isHost: boolean): Promise<boolean> {
     const basePoints = isHost ? 50 : 25
     const reason = isHost ? 'Hosted dinner event' : 'Participated in dinner event'
+    const role = isHost ? CIRCLE_ROLES.HOST : CIRCLE_ROLES.PARTICIPANT
     
-    await this.awardPoints(userId, basePoints, reason, eventId)
+    const awarded = await this.awardEventPointsOnce(userId, eventId, role, basePoints, reason)
     
     // Check for badges after awarding points
     await this.checkAndAwardBadges(userId)
+    return awarded
   }
 
   /**
-   * Award points for course hosting (rotating dinners)
+   * Award points for course hosting (rotating dinners). Only the first award for a user and event counts;
+   * returns false when they already had points for it.
    */
-  static async awardCourseHostingPoints(userId: number, eventId: number, course: string): Promise<void> {
+  static async awardCourseHostingPoints(userId: number, eventId: number, course: string): Promise<boolean> {
     const coursePoints = {
       starter: 30,
       main: 40,
@@ -307,10 +323,73 @@ export class RewardsService {
     const points = coursePoints[course as keyof typeof coursePoints] || 25
     const reason = `Hosted ${course} course`
     
-    await this.awardPoints(userId, points, reason, eventId, `Course: ${course}`)
+    const awarded = await this.awardEventPointsOnce(userId, eventId, course, points, reason, `Course: ${course}`)
     
     // Check for badges after awarding points
     await this.checkAndAwardBadges(userId)
+    return awarded
+  }
+
+  /**
+   * Claim the user's event reward and award its points in one transaction, so a retry after a
+   * failure awards them and a re-run after success does not
+   */
+  private static async awardEventPointsOnce(
+    userId: number,
+    eventId: number,
+    role: string,
+    points: number,
+    reason: string,
+    details?: string
+  ): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [claimed] = await tx.insert(eventRewards)
+        .values({ eventId, userId, role, pointsEarned: points })
+        .onConflictDoNothing()
+        .returning({ id: eventRewards.id })
+      if (!claimed) {
+        return false
+      }
+
+      await this.awardPoints(userId, points, reason, eventId, details, tx)
+      return true
+    })
+  }
+
+  /**
+   * Take back a user's event points after they are marked a no-show; false if there were none to take
+   */
+  static async revokeEventPoints(userId: number, eventId: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [reward] = await tx.update(eventRewards)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(eventRewards.eventId, eventId), eq(eventRewards.userId, userId), isNull(eventRewards.revokedAt)))
+        .returning()
+      if (!reward) {
+        return false
+      }
+
+      await this.awardPoints(userId, -reward.pointsEarned, 'No-show at dinner event', eventId, undefined, tx)
+      return true
+    })
+  }
+
+  /**
+   * Give back event points taken for a no-show, once the user is marked as attended after all
+   */
+  static async restoreEventPoints(userId: number, eventId: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [reward] = await tx.update(eventRewards)
+        .set({ revokedAt: null })
+        .where(and(eq(eventRewards.eventId, eventId), eq(eventRewards.userId, userId), isNotNull(eventRewards.revokedAt)))
+        .returning()
+      if (!reward) {
+        return false
+      }
+
+      await this.awardPoints(userId, reward.pointsEarned, 'Attendance confirmed at dinner event', eventId, undefined, tx)
+      return true
+    })
   }
 
   /**
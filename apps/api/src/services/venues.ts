@@ -0,0 +1,57 @@
+import { VENUE_NEEDS, SMOKING_POLICY } from '../config/constants'
+
+// Where a host receives guests. Stored on the user and overridable per opt-in.
+export interface VenueProfile {
+  maxSeats: number | null // Everyone at the table, hosts included; null when there is no limit
+  hasPets: boolean
+  stepFree: boolean // Step-free entrance, dining area and bathroom
+  smokingPolicy: string // SMOKING_POLICY
+  suitedCourses: string[] // Courses the kitchen is set up for, used to hand out rotating courses
+}
+
+export class VenueService {
+  /**
+   * The venue an opt-in hosts at: the user's profile with the opt-in's overrides on top.
+   * Null when neither describes a venue.
+   */
+  static resolve(profile: VenueProfile | null, override: Partial<VenueProfile> | null): VenueProfile | null {
+    if (!profile && !override) {
+      return null
+    }
+    return {
+      maxSeats: null,
+      hasPets: false,
+      stepFree: false,
+      smokingPolicy: SMOKING_POLICY.NONE,
+      suitedCourses: [],
+      ...profile,
+      ...override,
+    }
+  }
+
+  /**
+   * The needs a venue cannot meet. A venue nobody has described cannot be relied on for any of them.
+   */
+  static getUnmetNeeds(venue: VenueProfile | null, needs: string[] | null): string[] {
+    return (needs ?? []).filter(need => {
+      if (!venue) return true
+      switch (need) {
+        case VENUE_NEEDS.STEP_FREE:
+          return !venue.stepFree
+        case VENUE_NEEDS.PET_FREE:
+          return venue.hasPets
+        case VENUE_NEEDS.SMOKE_FREE:
+          return venue.smokingPolicy === SMOKING_POLICY.INDOORS
+        default:
+          return false
+      }
+    })
+  }
+
+  /**
+   * Members beyond the venue's seat capacity
+   */
+  static getSeatsOver(venue: VenueProfile | null, memberCount: number): number {
+    return venue?.maxSeats ? Math.max(0, memberCount - venue.maxSeats) : 0
+  }
+}
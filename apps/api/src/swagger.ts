@@ -49,15 +49,24 @@ const options = {
           properties: {
             id: { type: 'integer', example: 1 },
             title: { type: 'string', example: 'Summer Rotating Dinner' },
-            description: { type: 'string', example: 'Join us for a delightful rotating dinner experience' },
+            description: { type: 'string', nullable: true, example: 'Join us for a delightful rotating dinner experience' },
+            theme: { type: 'string', nullable: true, example: 'Diwali potluck' },
+            coverImageUrl: { type: 'string', nullable: true, example: 'https://example.com/covers/diwali.jpg' },
             date: { type: 'string', format: 'date', example: '2024-09-20' },
             startTime: { type: 'string', example: '18:00' },
             endTime: { type: 'string', example: '22:00' },
-            totalSpots: { type: 'integer', example: 12 },
-            spotsRemaining: { type: 'integer', example: 8 },
+            maxParticipants: { type: 'integer', nullable: true, example: 12 },
+            spotsRemaining: { type: 'integer', nullable: true, example: 8 },
             format: { type: 'string', enum: ['rotating', 'hosted'], example: 'rotating' },
             isWaitlist: { type: 'boolean', example: false },
-            neighbourhood: { type: 'string', example: 'Downtown District' }
+            neighbourhood: { type: 'string', nullable: true, example: 'Downtown District' },
+            seriesId: { type: 'integer', nullable: true, example: 3, description: 'The recurring series this event belongs to' },
+            matchingStatus: {
+              type: 'string',
+              enum: ['draft', 'open', 'matching', 'matched', 'in_progress', 'completed', 'cancelled', 'archived'],
+              example: 'open',
+              description: 'Where the event is in its lifecycle'
+            }
           }
         },
         Participant: {
@@ -13,6 +13,7 @@ import HowItWorks from './pages/HowItWorks'
 import Pricing from './pages/Pricing'
 import Faqs from './pages/Faqs'
 import Profile from './pages/Profile'
+import PartnerInvitation from './pages/PartnerInvitation'
 import Admin from './pages/Admin'
 import AdminUsers from './pages/admin/Users'
 import AdminEvents from './pages/admin/Events'
@@ -46,6 +47,7 @@ function App() {
               <Route path="/pricing" component={Pricing} />
               <Route path="/faqs" component={Faqs} />
               <Route path="/profile" component={Profile} />
+              <Route path="/invitations/:token" component={PartnerInvitation} />
               <Route path="/admin" component={Admin} />
               <Route path="/admin/users" component={AdminUsers} />
               <Route path="/admin/users/:id" component={AdminUserDetail} />
@@ -0,0 +1,65 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { NoSymbolIcon } from '@heroicons/react/24/outline'
+import { Button } from './ui'
+import { blocksApi } from '../lib/api'
+
+// People the user has dined with, who they can block from being matched with them again
+export default function BlockList() {
+  const queryClient = useQueryClient()
+  const { data, isLoading } = useQuery({
+    queryKey: ['profile-blocks'],
+    queryFn: () => blocksApi.getBlocks(),
+  })
+
+  const blockMutation = useMutation({
+    mutationFn: ({ userId, blocked }: { userId: number; blocked: boolean }) =>
+      blocked ? blocksApi.unblock(userId) : blocksApi.block(userId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['profile-blocks'] })
+      toast.success(result.message)
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to update blocks')
+    },
+  })
+
+  if (isLoading) {
+    return <div className="h-16 bg-muted rounded animate-pulse" />
+  }
+
+  const companions = data?.companions ?? []
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        You won't be placed in a circle with anyone you block. They are not told.
+      </p>
+      {companions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">You'll see the people you've shared a circle with here.</p>
+      ) : (
+        <div className="divide-y">
+          {companions.map((companion) => (
+            <div key={companion.userId} className="flex items-center justify-between gap-3 py-2 text-sm">
+              <div>
+                <div className="font-medium">{companion.name || `User ${companion.userId}`}</div>
+                <div className="text-muted-foreground">
+                  Last dined together {new Date(companion.lastEventDate).toLocaleDateString()}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                disabled={blockMutation.isPending}
+                onClick={() => blockMutation.mutate({ userId: companion.userId, blocked: companion.blocked })}
+                className="flex items-center gap-2"
+              >
+                <NoSymbolIcon className="w-4 h-4" />
+                {companion.blocked ? 'Unblock' : 'Block'}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
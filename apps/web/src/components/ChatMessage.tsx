@@ -4,6 +4,7 @@ interface ChatMessageProps {
   message: {
     id: number;
     message: string;
+    type?: 'user' | 'system';
     createdAt: string;
     user: {
       id: number;
@@ -22,6 +23,17 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isOwnMessage }) => {
     });
   };
 
+  // Announcements such as an organiser editing the circle
+  if (message.type === 'system') {
+    return (
+      <div className="flex justify-center mb-3">
+        <div className="max-w-md text-center text-xs text-gray-500 bg-gray-100 rounded-full px-4 py-1">
+          {message.message} · {formatTime(message.createdAt)}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'} mb-3`}>
       <div className={`max-w-xs lg:max-w-md ${isOwnMessage ? 'order-2' : 'order-1'}`}>
@@ -0,0 +1,121 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { CheckCircleIcon } from '@heroicons/react/24/outline'
+import { Card, Button, Input } from './ui'
+import { useAuth } from '../auth/AuthContext'
+import { matchingApi } from '../lib/api'
+import type { AttendanceStatus } from '../lib/api'
+
+interface CircleAttendanceProps {
+  circleId: number
+}
+
+// Check-in on the day: hosts show the code, a hosted circle's host marks who came, and members check themselves in
+export default function CircleAttendance({ circleId }: CircleAttendanceProps) {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+  const [code, setCode] = useState('')
+
+  const { data: attendance } = useQuery({
+    queryKey: ['circle-attendance', circleId],
+    queryFn: () => matchingApi.getAttendance(circleId),
+  })
+
+  const onSuccess = (result: { message: string }) => {
+    queryClient.invalidateQueries({ queryKey: ['circle-attendance', circleId] })
+    toast.success(result.message)
+  }
+
+  const markMutation = useMutation({
+    mutationFn: ({ userId, status }: { userId: number; status: AttendanceStatus }) =>
+      matchingApi.markAttendance(circleId, userId, status),
+    onSuccess,
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to mark attendance')
+    },
+  })
+
+  const checkInMutation = useMutation({
+    mutationFn: () => matchingApi.checkIn(circleId, code),
+    onSuccess: (result) => {
+      setCode('')
+      onSuccess(result)
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to check in')
+    },
+  })
+
+  if (!attendance || (!attendance.canMark && !attendance.checkInOpen)) {
+    return null
+  }
+
+  const own = attendance.members.find(member => member.userId === user?.id)
+
+  return (
+    <Card className="p-4 space-y-4">
+      <h3 className="font-semibold flex items-center gap-2">
+        <CheckCircleIcon className="w-5 h-5" />
+        Check-in
+      </h3>
+
+      {attendance.checkInCode && (
+        <div className="text-sm">
+          <span className="text-muted-foreground">Show your guests this code: </span>
+          <span className="font-mono text-lg font-semibold tracking-widest">{attendance.checkInCode}</span>
+        </div>
+      )}
+
+      {attendance.canMark ? (
+        <div className="space-y-2">
+          {attendance.members.map((member) => (
+            <div key={member.userId} className="flex flex-wrap items-center justify-between gap-2 text-sm border-b last:border-b-0 py-1">
+              <span>
+                {member.name || 'Unknown'}
+                <span className="text-muted-foreground capitalize"> · {member.role}</span>
+                {member.selfCheckedIn && <span className="text-green-700"> · checked in</span>}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant={member.attendance === 'attended' ? 'primary' : 'outline'}
+                  disabled={markMutation.isPending}
+                  onClick={() => markMutation.mutate({ userId: member.userId, status: 'attended' })}
+                >
+                  Came
+                </Button>
+                <Button
+                  variant={member.attendance === 'no_show' ? 'primary' : 'outline'}
+                  disabled={markMutation.isPending}
+                  onClick={() => markMutation.mutate({ userId: member.userId, status: 'no_show' })}
+                >
+                  No-show
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : own?.attendance === 'attended' ? (
+        <p className="text-sm text-green-700">You're checked in. Enjoy your dinner!</p>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            checkInMutation.mutate()
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="Code from your host"
+            className="font-mono"
+          />
+          <Button type="submit" disabled={!code.trim() || checkInMutation.isPending}>
+            Check in
+          </Button>
+        </form>
+      )}
+    </Card>
+  )
+}
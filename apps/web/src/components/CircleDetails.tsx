@@ -50,9 +50,28 @@ const getFormatIcon = (format: string) => {
   }
 };
 
+const formatList = (items: string[]) =>
+  items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('');
+
+// A friendly sentence on why the member was seated with this circle
+const getMatchReasons = (summary: NonNullable<Circle['matchSummary']>) => {
+  const reasons: string[] = [];
+  if (summary.sharedInterests.length > 0) {
+    reasons.push(`an interest in ${formatList(summary.sharedInterests)}`);
+  }
+  if (summary.sharedDietaryNeeds.length > 0) {
+    reasons.push(`${formatList(summary.sharedDietaryNeeds.map(need => need.replace(/_/g, '-')))} dietary preferences`);
+  }
+  if (summary.samePersonality) {
+    reasons.push('a similar personality');
+  }
+  return reasons;
+};
+
 export function CircleDetails({ circle, currentUserId }: CircleDetailsProps) {
   const currentMember = circle.members.find(member => member.userId === currentUserId);
   const otherMembers = circle.members.filter(member => member.userId !== currentUserId);
+  const matchReasons = circle.matchSummary ? getMatchReasons(circle.matchSummary) : [];
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
@@ -64,7 +83,7 @@ export function CircleDetails({ circle, currentUserId }: CircleDetailsProps) {
           </h3>
           <p className="text-sm text-gray-600 mt-1">
             {circle.format === 'rotating' 
-              ? 'Rotating Dinner - Each person hosts one course'
+              ? 'Rotating Dinner - Each household hosts one course'
               : 'Hosted Dinner - One person hosts the entire meal'
             }
           </p>
@@ -76,6 +95,13 @@ export function CircleDetails({ circle, currentUserId }: CircleDetailsProps) {
         )}
       </div>
 
+      {/* Why this circle */}
+      {matchReasons.length > 0 && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          You were matched with this circle because you share {formatList(matchReasons)}.
+        </div>
+      )}
+
       {/* Circle Members */}
       <div className="space-y-4">
         <h4 className="font-medium text-gray-900">Circle Members ({circle.members.length})</h4>
@@ -182,7 +208,7 @@ export function CircleDetails({ circle, currentUserId }: CircleDetailsProps) {
         </h5>
         {circle.format === 'rotating' ? (
           <div className="text-sm text-yellow-800 space-y-1">
-            <p>• Each person will host one course at their home</p>
+            <p>• Each household will host one course at their home</p>
             <p>• You'll rotate between homes for starter, main, and dessert</p>
             <p>• Coordinate with your circle members for timing and logistics</p>
             <p>• Consider dietary restrictions when planning your course</p>
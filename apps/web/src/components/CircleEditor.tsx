@@ -0,0 +1,226 @@
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { ArrowsRightLeftIcon, ScissorsIcon, UserPlusIcon } from '@heroicons/react/24/outline'
+import { Button } from './ui'
+import { circleEditApi } from '../lib/api'
+import type { CircleMember } from '../lib/api'
+
+type Role = CircleMember['role']
+
+interface EditableCircle {
+  id: number
+  name: string
+  format: string
+  compatibilityScore: number | null
+  members: Array<{
+    userId: number
+    role: string
+    user: { name: string | null }
+  }>
+}
+
+interface CircleEditorProps {
+  eventId: number
+  circles: EditableCircle[]
+  // Opted-in users who are not in any circle
+  unplaced: Array<{ userId: number; name: string | null }>
+  onChanged: () => void
+}
+
+const rolesByFormat: Record<string, Role[]> = {
+  hosted: ['host', 'participant'],
+  rotating: ['starter', 'main', 'dessert'],
+}
+
+const selectClassName = 'border rounded px-2 py-1 text-sm bg-background'
+
+export default function CircleEditor({ eventId, circles, unplaced, onChanged }: CircleEditorProps) {
+  // Member picked as the first half of a swap
+  const [swapUserId, setSwapUserId] = useState<number | null>(null)
+  // Members ticked to split off, per circle
+  const [splitSelection, setSplitSelection] = useState<Record<number, number[]>>({})
+  const [mergeTargets, setMergeTargets] = useState<Record<number, number>>({})
+  const [addTargets, setAddTargets] = useState<Record<number, number>>({})
+
+  const editMutation = useMutation({
+    mutationFn: (edit: () => ReturnType<typeof circleEditApi.moveMember>) => edit(),
+    onSuccess: (data) => {
+      setSwapUserId(null)
+      setSplitSelection({})
+      toast.success(data.message)
+      onChanged()
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to edit circles')
+    },
+  })
+
+  const memberName = (member: { userId: number; user: { name: string | null } }) =>
+    member.user.name || `User ${member.userId}`
+
+  const toggleSplit = (circleId: number, userId: number) => {
+    const selected = splitSelection[circleId] ?? []
+    setSplitSelection({
+      ...splitSelection,
+      [circleId]: selected.includes(userId) ? selected.filter(id => id !== userId) : [...selected, userId],
+    })
+  }
+
+  const swapCircleId = circles.find(circle => circle.members.some(m => m.userId === swapUserId))?.id
+
+  return (
+    <div className="space-y-4">
+      {swapUserId !== null && (
+        <div className="flex items-center justify-between gap-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+          <span>Pick a member of another circle to swap with.</span>
+          <Button variant="outline" onClick={() => setSwapUserId(null)}>Cancel</Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {circles.map((circle) => {
+          const otherCircles = circles.filter(other => other.id !== circle.id)
+          const selected = splitSelection[circle.id] ?? []
+          const mergeTarget = mergeTargets[circle.id]
+
+          return (
+            <div key={circle.id} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-medium">{circle.name}</div>
+                <div className="text-sm text-muted-foreground capitalize">
+                  {circle.format} · {circle.members.length} members
+                  {circle.compatibilityScore !== null && ` · score ${circle.compatibilityScore}`}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {circle.members.map((member) => (
+                  <div key={member.userId} className="flex flex-wrap items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      aria-label={`Split off ${memberName(member)}`}
+                      checked={selected.includes(member.userId)}
+                      onChange={() => toggleSplit(circle.id, member.userId)}
+                    />
+                    <span className="flex-1 min-w-[8rem]">{memberName(member)}</span>
+                    <select
+                      className={selectClassName}
+                      value={member.role}
+                      disabled={editMutation.isPending}
+                      onChange={(e) => editMutation.mutate(() =>
+                        circleEditApi.changeRole(eventId, member.userId, e.target.value as Role)
+                      )}
+                    >
+                      {(rolesByFormat[circle.format] ?? []).map((role) => (
+                        <option key={role} value={role} className="capitalize">{role}</option>
+                      ))}
+                    </select>
+                    <select
+                      className={selectClassName}
+                      value=""
+                      disabled={editMutation.isPending || otherCircles.length === 0}
+                      onChange={(e) => editMutation.mutate(() =>
+                        circleEditApi.moveMember(eventId, member.userId, Number(e.target.value))
+                      )}
+                    >
+                      <option value="">Move to…</option>
+                      {otherCircles.map((other) => (
+                        <option key={other.id} value={other.id}>{other.name}</option>
+                      ))}
+                    </select>
+                    {swapUserId === null ? (
+                      <Button
+                        variant="outline"
+                        disabled={editMutation.isPending || otherCircles.length === 0}
+                        onClick={() => setSwapUserId(member.userId)}
+                        title="Swap with a member of another circle"
+                      >
+                        <ArrowsRightLeftIcon className="w-4 h-4" />
+                      </Button>
+                    ) : swapCircleId !== circle.id && (
+                      <Button
+                        variant="outline"
+                        disabled={editMutation.isPending}
+                        onClick={() => editMutation.mutate(() =>
+                          circleEditApi.swapMembers(eventId, swapUserId, member.userId)
+                        )}
+                      >
+                        Swap here
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+                <Button
+                  variant="outline"
+                  disabled={editMutation.isPending || selected.length === 0}
+                  onClick={() => editMutation.mutate(() =>
+                    circleEditApi.splitCircle(eventId, circle.id, selected.map(userId => ({ userId })))
+                  )}
+                  className="flex items-center gap-2"
+                >
+                  <ScissorsIcon className="w-4 h-4" />
+                  Split off {selected.length > 0 ? selected.length : ''}
+                </Button>
+                <select
+                  className={selectClassName}
+                  value={mergeTarget ?? ''}
+                  onChange={(e) => setMergeTargets({ ...mergeTargets, [circle.id]: Number(e.target.value) })}
+                >
+                  <option value="">Merge into…</option>
+                  {otherCircles.filter(other => other.format === circle.format).map((other) => (
+                    <option key={other.id} value={other.id}>{other.name}</option>
+                  ))}
+                </select>
+                <Button
+                  variant="outline"
+                  disabled={editMutation.isPending || !mergeTarget}
+                  onClick={() => editMutation.mutate(() =>
+                    circleEditApi.mergeCircles(eventId, circle.id, mergeTarget)
+                  )}
+                >
+                  Merge
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {unplaced.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Not in a circle ({unplaced.length})</h3>
+          {unplaced.map((user) => (
+            <div key={user.userId} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="flex-1 min-w-[8rem]">{user.name || `User ${user.userId}`}</span>
+              <select
+                className={selectClassName}
+                value={addTargets[user.userId] ?? ''}
+                onChange={(e) => setAddTargets({ ...addTargets, [user.userId]: Number(e.target.value) })}
+              >
+                <option value="">Choose a circle…</option>
+                {circles.map((circle) => (
+                  <option key={circle.id} value={circle.id}>{circle.name}</option>
+                ))}
+              </select>
+              <Button
+                variant="outline"
+                disabled={editMutation.isPending || !addTargets[user.userId]}
+                onClick={() => editMutation.mutate(() =>
+                  circleEditApi.addMember(eventId, user.userId, addTargets[user.userId])
+                )}
+                className="flex items-center gap-2"
+              >
+                <UserPlusIcon className="w-4 h-4" />
+                Add
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -10,21 +10,41 @@ export type EventItem = {
   startTime: string
   endTime: string
   format: 'rotating' | 'hosted'
+  theme?: string | null
+  neighbourhood?: string | null
+  coverImageUrl?: string | null
+  maxParticipants?: number | null
+  spotsRemaining?: number | null
 }
 
 export function EventCard({ event }: { event: EventItem }) {
   const [open, setOpen] = useState(false)
+  const isFull = event.spotsRemaining === 0
   return (
     <Card>
       <div className="space-y-3">
-        <div className="h-32 w-full rounded-md bg-muted" />
+        {event.coverImageUrl ? (
+          <img src={event.coverImageUrl} alt="" className="h-32 w-full rounded-md object-cover" />
+        ) : (
+          <div className="h-32 w-full rounded-md bg-muted" />
+        )}
         <div className="flex items-start justify-between gap-3">
           <div>
             <h3 className="font-semibold leading-tight">{event.title}</h3>
-            <p className="text-xs text-muted-foreground">{event.date} · {event.format === 'rotating' ? 'Rotating dinner' : 'Hosted dinner'}</p>
+            <p className="text-xs text-muted-foreground">
+              {event.date} · {event.format === 'rotating' ? 'Rotating dinner' : 'Hosted dinner'}
+              {event.neighbourhood && ` · ${event.neighbourhood}`}
+            </p>
           </div>
+          {event.theme && (
+            <span className="shrink-0 rounded-full bg-muted px-2 py-0.5 text-xs">{event.theme}</span>
+          )}
         </div>
-        <Button className="w-full" onClick={() => setOpen(true)}>Register</Button>
+        {event.description && <p className="text-sm text-muted-foreground line-clamp-2">{event.description}</p>}
+        {event.maxParticipants != null && (
+          <p className="text-xs text-muted-foreground">{event.spotsRemaining} of {event.maxParticipants} spots left</p>
+        )}
+        <Button className="w-full" disabled={isFull} onClick={() => setOpen(true)}>{isFull ? 'Full' : 'Register'}</Button>
       </div>
       <RegisterDialog open={open} onOpenChange={setOpen} event={event} />
     </Card>
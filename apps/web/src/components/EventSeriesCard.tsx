@@ -0,0 +1,273 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { ArrowPathIcon } from '@heroicons/react/24/outline'
+import { Card, Button, Input, Label, Dialog } from './ui'
+import { seriesApi } from '../lib/api'
+import type { EventSeries } from '../lib/api'
+
+interface Neighbourhood {
+  id: number
+  name: string
+}
+
+const recurrenceLabels: Record<EventSeries['recurrence'], string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every two weeks',
+  monthly: 'Monthly, same date',
+  nth_weekday: 'Monthly, same weekday',
+}
+
+const seriesSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  theme: z.string().trim().max(100),
+  neighbourhoodId: z.number().int().positive().nullable(),
+  maxParticipants: z.number().int().min(2, 'Allow at least 2 participants').nullable(),
+  recurrence: z.enum(['weekly', 'biweekly', 'monthly', 'nth_weekday']),
+  nthWeek: z.number().int(),
+  firstDate: z.string().min(1, 'First date is required'),
+  lastDate: z.string(),
+  startTime: z.string().min(1, 'Start time is required'),
+  endTime: z.string().min(1, 'End time is required'),
+}).refine(values => !values.lastDate || values.lastDate >= values.firstDate, {
+  message: 'The last date cannot be before the first date',
+  path: ['lastDate'],
+})
+
+type SeriesFormValues = z.infer<typeof seriesSchema>
+
+// Empty number inputs mean no value rather than NaN
+const toNullableNumber = (value: string) => (value === '' ? null : Number(value))
+
+// Recurring series for admins: create them and end them; their occurrences show up in the events list
+export default function EventSeriesCard({ neighbourhoods }: { neighbourhoods: Neighbourhood[] }) {
+  const queryClient = useQueryClient()
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+
+  const { data: series = [], isLoading } = useQuery({
+    queryKey: ['admin-series'],
+    queryFn: () => seriesApi.adminList(),
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-series'] })
+    queryClient.invalidateQueries({ queryKey: ['admin-events'] })
+  }
+
+  const createMutation = useMutation({
+    mutationFn: (values: SeriesFormValues) => seriesApi.create({
+      ...values,
+      theme: values.theme || null,
+      nthWeek: values.recurrence === 'nth_weekday' ? values.nthWeek : null,
+      lastDate: values.lastDate || null,
+    }),
+    onSuccess: (result) => {
+      invalidate()
+      setIsCreateOpen(false)
+      toast.success(`Series created with ${result.eventsCreated} upcoming events`)
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to create series')
+    },
+  })
+
+  // Ending a series today keeps today's dinner and cancels the open ones after it
+  const endMutation = useMutation({
+    mutationFn: (seriesId: number) => seriesApi.update(seriesId, { lastDate: new Date().toLocaleDateString('en-CA') }),
+    onSuccess: (result) => {
+      invalidate()
+      toast.success(`Series ended; ${result.eventsCancelled} upcoming events cancelled`)
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to end series')
+    },
+  })
+
+  const handleEnd = (seriesId: number) => {
+    if (confirm('End this series? Its upcoming dinners that have not been matched will be cancelled and everyone opted in told.')) {
+      endMutation.mutate(seriesId)
+    }
+  }
+
+  return (
+    <Card>
+      <div className="p-4 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-lg sm:text-xl font-semibold flex items-center gap-2">
+            <ArrowPathIcon className="w-5 h-5" />
+            Recurring Series
+          </h2>
+          <Button variant="outline" onClick={() => setIsCreateOpen(true)}>
+            New Series
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-muted rounded animate-pulse" />
+        ) : series.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No recurring series running.</p>
+        ) : (
+          <div className="space-y-2">
+            {series.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-4 text-sm border-b last:border-b-0 py-2">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{entry.title}</div>
+                  <div className="text-muted-foreground">
+                    {recurrenceLabels[entry.recurrence]} from {new Date(entry.firstDate).toLocaleDateString()}
+                    {entry.lastDate && ` to ${new Date(entry.lastDate).toLocaleDateString()}`}
+                    {' · '}{entry.startTime} - {entry.endTime}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {entry.upcomingCount} upcoming, next {entry.nextDate ? new Date(entry.nextDate).toLocaleDateString() : 'none'}
+                    {' · '}{entry.optInCount} regular{entry.optInCount === 1 ? '' : 's'}
+                  </div>
+                </div>
+                <Button variant="outline" disabled={endMutation.isPending} onClick={() => handleEnd(entry.id)}>
+                  End
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog.Root open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <Dialog.Content className="max-h-[90vh] overflow-y-auto mx-4 max-w-lg">
+          <Dialog.Title>New Recurring Series</Dialog.Title>
+          <Dialog.Description>Dinners are created up to 90 days ahead and kept topped up.</Dialog.Description>
+          <SeriesForm
+            neighbourhoods={neighbourhoods}
+            onSubmit={createMutation.mutate}
+            isLoading={createMutation.isPending}
+          />
+        </Dialog.Content>
+      </Dialog.Root>
+    </Card>
+  )
+}
+
+function SeriesForm({
+  neighbourhoods,
+  onSubmit,
+  isLoading,
+}: {
+  neighbourhoods: Neighbourhood[]
+  onSubmit: (values: SeriesFormValues) => void
+  isLoading: boolean
+}) {
+  const form = useForm<SeriesFormValues>({
+    resolver: zodResolver(seriesSchema),
+    defaultValues: {
+      title: '',
+      theme: '',
+      neighbourhoodId: null,
+      maxParticipants: null,
+      recurrence: 'monthly',
+      nthWeek: 1,
+      firstDate: '',
+      lastDate: '',
+      startTime: '',
+      endTime: '',
+    },
+  })
+  const recurrence = form.watch('recurrence')
+  const errors = form.formState.errors
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div>
+        <Label>Title</Label>
+        <Input placeholder="Second Friday Supper" {...form.register('title')} />
+        {errors.title && <p className="text-red-600 text-sm mt-1">{errors.title.message}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label>Theme (optional)</Label>
+          <Input {...form.register('theme')} />
+        </div>
+        <div>
+          <Label>Neighbourhood</Label>
+          <select
+            {...form.register('neighbourhoodId', { setValueAs: toNullableNumber })}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            <option value="">Any neighbourhood</option>
+            {neighbourhoods.map((neighbourhood) => (
+              <option key={neighbourhood.id} value={neighbourhood.id}>
+                {neighbourhood.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label>Repeats</Label>
+          <select {...form.register('recurrence')} className="w-full px-3 py-2 border rounded-md">
+            {Object.entries(recurrenceLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        {recurrence === 'nth_weekday' && (
+          <div>
+            <Label>Week of the month</Label>
+            <select {...form.register('nthWeek', { valueAsNumber: true })} className="w-full px-3 py-2 border rounded-md">
+              <option value={1}>First</option>
+              <option value={2}>Second</option>
+              <option value={3}>Third</option>
+              <option value={4}>Fourth</option>
+              <option value={-1}>Last</option>
+            </select>
+            <p className="text-xs text-muted-foreground mt-1">On the first date's weekday</p>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label>First date</Label>
+          <Input type="date" {...form.register('firstDate')} />
+          {errors.firstDate && <p className="text-red-600 text-sm mt-1">{errors.firstDate.message}</p>}
+        </div>
+        <div>
+          <Label>Last date (optional)</Label>
+          <Input type="date" {...form.register('lastDate')} />
+          {errors.lastDate && <p className="text-red-600 text-sm mt-1">{errors.lastDate.message}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <Label>Start Time</Label>
+          <Input type="time" {...form.register('startTime')} />
+          {errors.startTime && <p className="text-red-600 text-sm mt-1">{errors.startTime.message}</p>}
+        </div>
+        <div>
+          <Label>End Time</Label>
+          <Input type="time" {...form.register('endTime')} />
+          {errors.endTime && <p className="text-red-600 text-sm mt-1">{errors.endTime.message}</p>}
+        </div>
+        <div>
+          <Label>Max participants</Label>
+          <Input
+            type="number"
+            min={2}
+            placeholder="No limit"
+            {...form.register('maxParticipants', { setValueAs: toNullableNumber })}
+          />
+          {errors.maxParticipants && <p className="text-red-600 text-sm mt-1">{errors.maxParticipants.message}</p>}
+        </div>
+      </div>
+
+      <Button type="submit" disabled={isLoading} className="w-full">
+        {isLoading ? 'Creating...' : 'Create Series'}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { ArrowPathIcon, CalendarIcon, ClockIcon, MapPinIcon } from '@heroicons/react/24/outline'
+import { Card, Button } from './ui'
+import { useAuth } from '../auth/AuthContext'
+import { seriesApi, householdApi } from '../lib/api'
+import type { EventSeries } from '../lib/api'
+
+const nthLabels: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' }
+
+// How often a series repeats, in words
+function describeRecurrence(series: Pick<EventSeries, 'recurrence' | 'nthWeek' | 'firstDate'>) {
+  const first = new Date(`${series.firstDate}T00:00:00`)
+  const weekday = first.toLocaleDateString('en-US', { weekday: 'long' })
+  switch (series.recurrence) {
+    case 'weekly':
+      return `Every ${weekday}`
+    case 'biweekly':
+      return `Every other ${weekday}`
+    case 'monthly':
+      return `Monthly on day ${first.getDate()}`
+    case 'nth_weekday':
+      return `The ${nthLabels[series.nthWeek ?? 1]} ${weekday} of each month`
+  }
+}
+
+// Recurring dinners on the events page, with one opt-in that covers every upcoming occurrence
+export default function EventSeriesList() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+  const [hostingAvailable, setHostingAvailable] = useState(false)
+
+  const { data: series = [] } = useQuery({
+    queryKey: ['event-series', user?.id ?? null],
+    queryFn: () => seriesApi.list(),
+  })
+
+  const { data: household } = useQuery({
+    queryKey: ['profile-household'],
+    queryFn: () => householdApi.get(),
+    enabled: !!user,
+  })
+  const withPartner = household?.household?.status === 'active'
+
+  const onSuccess = (result: { message: string }) => {
+    queryClient.invalidateQueries({ queryKey: ['event-series'] })
+    queryClient.invalidateQueries({ queryKey: ['events'] })
+    toast.success(result.message)
+  }
+
+  const optInMutation = useMutation({
+    mutationFn: (seriesId: number) => seriesApi.optIn(seriesId, { withPartner, hostingAvailable }),
+    onSuccess,
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to join the series')
+    },
+  })
+
+  const optOutMutation = useMutation({
+    mutationFn: (seriesId: number) => seriesApi.optOut(seriesId),
+    onSuccess,
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to leave the series')
+    },
+  })
+
+  if (series.length === 0) {
+    return null
+  }
+
+  const handleJoin = (seriesId: number) => {
+    if (!user) {
+      window.location.href = `/auth?returnTo=${encodeURIComponent('/events')}`
+      return
+    }
+    optInMutation.mutate(seriesId)
+  }
+
+  const handleLeave = (seriesId: number) => {
+    if (confirm('Leave this series? You will also be opted out of its upcoming dinners that have not been matched yet.')) {
+      optOutMutation.mutate(seriesId)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <ArrowPathIcon className="w-6 h-6" />
+          Regular Dinners
+        </h2>
+        <p className="text-gray-600">Join once and you're opted in to every upcoming dinner in the series.</p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {series.map((entry) => (
+          <Card key={entry.id}>
+            <div className="p-5 space-y-3">
+              <div>
+                <h3 className="text-lg font-semibold">{entry.title}</h3>
+                {entry.theme && <p className="text-sm text-muted-foreground">{entry.theme}</p>}
+              </div>
+              {entry.description && <p className="text-sm text-gray-700">{entry.description}</p>}
+
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <CalendarIcon className="w-4 h-4 text-muted-foreground" />
+                  {describeRecurrence(entry)}
+                  {entry.lastDate && `, until ${new Date(entry.lastDate).toLocaleDateString()}`}
+                </div>
+                <div className="flex items-center gap-2">
+                  <ClockIcon className="w-4 h-4 text-muted-foreground" />
+                  {entry.startTime} - {entry.endTime}
+                </div>
+                {entry.neighbourhood && (
+                  <div className="flex items-center gap-2">
+                    <MapPinIcon className="w-4 h-4 text-muted-foreground" />
+                    {entry.neighbourhood}
+                  </div>
+                )}
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                {entry.nextDate ? `Next dinner ${new Date(entry.nextDate).toLocaleDateString()}` : 'No upcoming dinners yet'}
+                {' · '}{entry.optInCount} regular{entry.optInCount === 1 ? '' : 's'}
+              </p>
+
+              {entry.isOptedIn ? (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-green-700">You're a regular</span>
+                  <Button variant="outline" disabled={optOutMutation.isPending} onClick={() => handleLeave(entry.id)}>
+                    Leave series
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-2">
+                  {user && (
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={hostingAvailable}
+                        onChange={(e) => setHostingAvailable(e.target.checked)}
+                      />
+                      I can host
+                    </label>
+                  )}
+                  <Button disabled={optInMutation.isPending} onClick={() => handleJoin(entry.id)}>
+                    Join every dinner{withPartner ? ' together' : ''}
+                  </Button>
+                </div>
+              )}
+            </div>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
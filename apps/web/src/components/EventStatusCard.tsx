@@ -0,0 +1,128 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { Card, Button } from './ui'
+import { eventStatusApi, eventStatusLabels } from '../lib/api'
+import type { EventStatus, EventStatusChange } from '../lib/api'
+
+interface EventStatusCardProps {
+  eventId: number
+  status: EventStatus
+  history: EventStatusChange[]
+  rewardsAwardedAt: string | null
+}
+
+// The moves an admin can make by hand; matching and resets cover matching and matched,
+// and the scheduler starts, completes and archives events on its own when their time comes
+const manualActions: Partial<Record<EventStatus, Array<{ to: EventStatus; label: string; confirm?: string }>>> = {
+  draft: [
+    { to: 'open', label: 'Publish' },
+    { to: 'cancelled', label: 'Cancel', confirm: 'Cancel this draft?' },
+  ],
+  open: [
+    { to: 'draft', label: 'Unpublish' },
+    { to: 'cancelled', label: 'Cancel', confirm: 'Cancel this event? Everyone opted in will be told.' },
+  ],
+  matched: [
+    { to: 'in_progress', label: 'Start now' },
+    { to: 'cancelled', label: 'Cancel', confirm: 'Cancel this event? Every circle member will be told.' },
+  ],
+  in_progress: [
+    { to: 'completed', label: 'Complete now', confirm: 'Mark this dinner as finished? Points are awarded to every circle member.' },
+  ],
+  completed: [{ to: 'archived', label: 'Archive' }],
+  cancelled: [{ to: 'archived', label: 'Archive' }],
+}
+
+// An event's lifecycle for admins: where it is, the moves available, and how it got there
+export default function EventStatusCard({ eventId, status, history, rewardsAwardedAt }: EventStatusCardProps) {
+  const queryClient = useQueryClient()
+
+  const changeMutation = useMutation({
+    mutationFn: ({ to, reason }: { to: EventStatus; reason?: string }) => eventStatusApi.change(eventId, to, reason),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-event-detail', String(eventId)] })
+      queryClient.invalidateQueries({ queryKey: ['admin-events'] })
+      toast.success(`Event is now ${eventStatusLabels[result.status].toLowerCase()}`)
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to change the event status')
+    },
+  })
+
+  const awardMutation = useMutation({
+    mutationFn: () => eventStatusApi.awardPoints(eventId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-event-detail', String(eventId)] })
+      toast.success(`Points awarded to ${result.membersAwarded} members; ${result.alreadyAwarded} already had them`)
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to award points')
+    },
+  })
+
+  const handleAction = (action: { to: EventStatus; confirm?: string }) => {
+    if (action.to === 'cancelled') {
+      const reason = prompt(`${action.confirm} Add a reason for them (optional):`)
+      if (reason !== null) {
+        changeMutation.mutate({ to: action.to, reason: reason.trim() || undefined })
+      }
+      return
+    }
+    if (!action.confirm || confirm(action.confirm)) {
+      changeMutation.mutate({ to: action.to })
+    }
+  }
+
+  return (
+    <Card>
+      <div className="p-4 sm:p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h2 className="text-lg sm:text-xl font-semibold">
+            Status: {eventStatusLabels[status]}
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {(manualActions[status] ?? []).map((action) => (
+              <Button
+                key={action.to}
+                variant="outline"
+                disabled={changeMutation.isPending}
+                onClick={() => handleAction(action)}
+              >
+                {action.label}
+              </Button>
+            ))}
+            {(status === 'completed' || status === 'archived') && (
+              <Button variant="outline" disabled={awardMutation.isPending} onClick={() => awardMutation.mutate()}>
+                {rewardsAwardedAt ? 'Re-run points' : 'Award points'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {(status === 'completed' || status === 'archived') && (
+          <p className="text-sm text-muted-foreground">
+            {rewardsAwardedAt
+              ? `Points and badges awarded ${new Date(rewardsAwardedAt).toLocaleString()}`
+              : 'Points and badges have not been awarded yet'}
+          </p>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-1 text-sm">
+            {history.map((change) => (
+              <div key={change.id} className="flex flex-wrap justify-between gap-2 border-b last:border-b-0 py-1">
+                <span>
+                  {eventStatusLabels[change.fromStatus]} → {eventStatusLabels[change.toStatus]}
+                  {change.reason && <span className="text-muted-foreground"> · {change.reason}</span>}
+                </span>
+                <span className="text-muted-foreground">
+                  {new Date(change.createdAt).toLocaleString()}{change.changedBy === null && ' · automatic'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
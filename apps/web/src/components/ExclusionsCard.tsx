@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { TrashIcon } from '@heroicons/react/24/outline'
+import { Card, Button, Input } from './ui'
+import { exclusionsApi } from '../lib/api'
+
+interface ExclusionsCardProps {
+  userId: number
+}
+
+// Admin exclusions involving one user: people matching must never seat them with
+export default function ExclusionsCard({ userId }: ExclusionsCardProps) {
+  const queryClient = useQueryClient()
+  const [otherUserId, setOtherUserId] = useState('')
+  const [reason, setReason] = useState('')
+
+  const { data: exclusions = [] } = useQuery({
+    queryKey: ['admin-exclusions'],
+    queryFn: () => exclusionsApi.list(),
+  })
+
+  const onSuccess = (result: { message: string }) => {
+    queryClient.invalidateQueries({ queryKey: ['admin-exclusions'] })
+    toast.success(result.message)
+  }
+  const onError = (error: Error) => {
+    toast.error(error?.message || 'Failed to update exclusions')
+  }
+
+  const addMutation = useMutation({
+    mutationFn: () => exclusionsApi.add(userId, Number(otherUserId), reason),
+    onSuccess: (result) => {
+      setOtherUserId('')
+      setReason('')
+      onSuccess(result)
+    },
+    onError,
+  })
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => exclusionsApi.remove(id),
+    onSuccess,
+    onError,
+  })
+
+  const userExclusions = exclusions.filter(exclusion => exclusion.user.id === userId || exclusion.otherUser.id === userId)
+
+  return (
+    <Card>
+      <div className="p-4 sm:p-6 space-y-4">
+        <h3 className="font-semibold">Kept Apart From</h3>
+        {userExclusions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No exclusions</p>
+        ) : (
+          <div className="space-y-2">
+            {userExclusions.map((exclusion) => {
+              const other = exclusion.user.id === userId ? exclusion.otherUser : exclusion.user
+              return (
+                <div key={exclusion.id} className="flex items-start justify-between gap-2 text-sm">
+                  <div>
+                    <div className="font-medium">{other.name || other.email}</div>
+                    {exclusion.reason && <div className="text-muted-foreground">{exclusion.reason}</div>}
+                  </div>
+                  <Button
+                    variant="outline"
+                    disabled={removeMutation.isPending}
+                    onClick={() => removeMutation.mutate(exclusion.id)}
+                    title="Remove exclusion"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+        <div className="space-y-2 pt-2 border-t">
+          <Input
+            type="number"
+            placeholder="Other user's ID"
+            value={otherUserId}
+            onChange={(e) => setOtherUserId(e.target.value)}
+          />
+          <Input
+            placeholder="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <Button
+            className="w-full"
+            disabled={addMutation.isPending || !otherUserId || !reason.trim()}
+            onClick={() => addMutation.mutate()}
+          >
+            Keep Apart
+          </Button>
+        </div>
+      </div>
+    </Card>
+  )
+}
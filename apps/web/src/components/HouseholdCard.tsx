@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { HomeIcon } from '@heroicons/react/24/outline'
+import { Button, Input, Label } from './ui'
+import { householdApi } from '../lib/api'
+
+// The user's partner link: request one, answer a request, or leave
+export default function HouseholdCard() {
+  const queryClient = useQueryClient()
+  const [partnerEmail, setPartnerEmail] = useState('')
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['profile-household'],
+    queryFn: () => householdApi.get(),
+  })
+
+  const householdMutation = useMutation({
+    mutationFn: (change: () => Promise<{ message: string }>) => change(),
+    onSuccess: (result) => {
+      setPartnerEmail('')
+      queryClient.invalidateQueries({ queryKey: ['profile-household'] })
+      toast.success(result.message)
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to update your household')
+    },
+  })
+
+  if (isLoading) {
+    return <div className="h-16 bg-muted rounded animate-pulse" />
+  }
+
+  const household = data?.household
+  const partnerName = household ? household.partner.name || household.partner.email : ''
+
+  if (!household) {
+    return (
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault()
+          householdMutation.mutate(() => householdApi.request(partnerEmail.trim()))
+        }}
+      >
+        <p className="text-sm text-muted-foreground">
+          Link your partner's account once and you can opt in to any dinner together. They'll be asked to confirm.
+        </p>
+        <div>
+          <Label>Partner's email</Label>
+          <Input
+            type="email"
+            placeholder="partner@example.com"
+            value={partnerEmail}
+            onChange={(e) => setPartnerEmail(e.target.value)}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={householdMutation.isPending || !partnerEmail.trim()}>
+            Send request
+          </Button>
+        </div>
+      </form>
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <div className="flex items-center gap-3">
+        <HomeIcon className="w-6 h-6 text-muted-foreground" />
+        <div className="text-sm">
+          {household.status === 'active' ? (
+            <>
+              <div className="font-medium">You share a household with {partnerName}</div>
+              <div className="text-muted-foreground">Opting in together places you in the same circle.</div>
+            </>
+          ) : household.requestedByMe ? (
+            <div className="font-medium">Waiting for {partnerName} to confirm</div>
+          ) : (
+            <div className="font-medium">{partnerName} wants to link your accounts as a household</div>
+          )}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        {household.status === 'active' ? (
+          <Button
+            variant="outline"
+            disabled={householdMutation.isPending}
+            onClick={() => {
+              if (confirm(`Leave your household with ${partnerName}? You'll each be matched on your own for upcoming dinners.`)) {
+                householdMutation.mutate(() => householdApi.leave())
+              }
+            }}
+          >
+            Leave household
+          </Button>
+        ) : (
+          <>
+            {!household.requestedByMe && (
+              <Button
+                disabled={householdMutation.isPending}
+                onClick={() => householdMutation.mutate(() => householdApi.confirm(household.id))}
+              >
+                Confirm
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              disabled={householdMutation.isPending}
+              onClick={() => householdMutation.mutate(() => householdApi.decline(household.id))}
+            >
+              {household.requestedByMe ? 'Cancel request' : 'Decline'}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { matchingApi } from '../lib/api';
+import type { ItineraryStop } from '../lib/api';
+
+interface ItineraryTimelineProps {
+  circleId: number;
+}
+
+const courseLabels: Record<ItineraryStop['course'], string> = {
+  starter: 'Starters & Welcome Drinks',
+  main: 'Main Course',
+  dessert: 'Dessert & Coffee',
+};
+
+const ItineraryTimeline: React.FC<ItineraryTimelineProps> = ({ circleId }) => {
+  const { data: itinerary, isLoading, error } = useQuery({
+    queryKey: ['circle-itinerary', circleId],
+    queryFn: () => matchingApi.getItinerary(circleId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-14 bg-gray-100 rounded animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !itinerary) {
+    return <div className="text-sm text-gray-500">Your itinerary isn't available yet.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {itinerary.stops.map((stop, i) => {
+        const leg = itinerary.walkingOrder[i];
+        const hostNames = stop.hosts.map(host => host.name || 'Unknown User').join(' & ');
+
+        return (
+          <div key={stop.course}>
+            <div className="flex gap-4">
+              <div className="w-16 text-sm font-medium text-gray-500">{stop.startTime}</div>
+              <div className="flex-1">
+                <div className="font-medium">
+                  {courseLabels[stop.course]}
+                  {stop.isYourHousehold && (
+                    <span className="ml-2 px-2 py-0.5 bg-red-100 text-red-800 rounded-full text-xs">You're hosting</span>
+                  )}
+                </div>
+                <div className="text-sm text-gray-600">{stop.address || 'Address to be confirmed'}</div>
+                <div className="text-sm text-gray-500">
+                  Hosted by {hostNames} · until {stop.endTime}
+                </div>
+              </div>
+            </div>
+            {leg && (
+              <div className="flex gap-4 mt-2">
+                <div className="w-16" />
+                <div className="flex-1 text-xs text-gray-400 border-l-2 border-dashed border-gray-200 pl-3">
+                  Walk to the {leg.toCourse} course · leave {leg.departAt}, arrive by {leg.arriveBy}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ItineraryTimeline;
@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { ExclamationTriangleIcon, EyeIcon, PlayIcon } from '@heroicons/react/24/outline'
+import { Card, Button } from './ui'
+import { matchingApi } from '../lib/api'
+import type { MatchingPreview, MatchingStrategyOption } from '../lib/api'
+
+interface MatchingPreviewPanelProps {
+  eventId: number
+  eventStrategy: string
+  onCommitted: () => void
+}
+
+export default function MatchingPreviewPanel({ eventId, eventStrategy, onCommitted }: MatchingPreviewPanelProps) {
+  const queryClient = useQueryClient()
+  const [preview, setPreview] = useState<MatchingPreview | null>(null)
+  // Empty means the event's own strategy
+  const [strategy, setStrategy] = useState<MatchingStrategyOption['name'] | ''>('')
+
+  const { data: strategiesData } = useQuery({
+    queryKey: ['matching-strategies'],
+    queryFn: () => matchingApi.getStrategies(),
+  })
+
+  const previewMutation = useMutation({
+    mutationFn: () => matchingApi.previewMatching(eventId, strategy || undefined),
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to preview matching')
+    },
+  })
+
+  const commitMutation = useMutation({
+    mutationFn: (proposalId: number) => matchingApi.triggerMatching(eventId, proposalId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-events'] })
+      setPreview(null)
+      toast.success('Matching committed successfully!')
+      onCommitted()
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to commit matching')
+    },
+  })
+
+  return (
+    <Card>
+      <div className="p-4 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg sm:text-xl font-semibold">Matching Preview</h2>
+            <p className="text-sm text-muted-foreground">
+              Run matching without saving, review the proposed circles, then commit.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={strategy}
+              onChange={(e) => setStrategy(e.target.value as MatchingStrategyOption['name'] | '')}
+              className="px-3 py-2 border rounded-md text-sm capitalize"
+              title={strategiesData?.strategies.find(option => option.name === (strategy || eventStrategy))?.description}
+            >
+              <option value="">Event default ({eventStrategy})</option>
+              {strategiesData?.strategies.map(option => (
+                <option key={option.name} value={option.name}>{option.name}</option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending || commitMutation.isPending}
+              className="flex items-center gap-2"
+            >
+              <EyeIcon className="w-4 h-4" />
+              {previewMutation.isPending ? 'Running...' : preview ? 'Re-run Preview' : 'Preview Matching'}
+            </Button>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span>Strategy: <span className="font-medium capitalize">{preview.strategy}</span></span>
+              <span>Circles: <span className="font-medium">{preview.circles.length}</span></span>
+              <span>Total score: <span className="font-medium">{preview.totalScore}</span></span>
+              <span>Unplaced: <span className="font-medium">{preview.leftoverUsers.length}</span></span>
+              <span>Repeat pairs: <span className="font-medium">{preview.circles.reduce((total, circle) => total + (circle.repeatPairs?.length || 0), 0)}</span></span>
+            </div>
+
+            {preview.warnings.length > 0 && (
+              <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 space-y-1">
+                {preview.warnings.map((warning, i) => (
+                  <div key={i} className="text-sm text-orange-700 flex items-start gap-2">
+                    <ExclamationTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {preview.circles.map((circle) => (
+                <div key={circle.name} className="border rounded-lg p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="font-medium">{circle.name}</div>
+                    <span className="text-xs px-2 py-1 bg-muted rounded capitalize">{circle.format}</span>
+                  </div>
+                  <div className="text-sm text-muted-foreground">Compatibility score: {circle.compatibilityScore}</div>
+                  <ul className="text-sm space-y-1">
+                    {circle.members.map((member) => (
+                      <li key={member.userId} className="flex justify-between">
+                        <span>{member.name || `User ${member.userId}`}</span>
+                        <span className="text-muted-foreground capitalize">{member.role}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {circle.repeatPairs?.length > 0 && (
+                    <div className="text-sm text-orange-700">
+                      Repeat pairs: {circle.repeatPairs.map(pair =>
+                        pair.names.map((name, i) => name || `User ${pair.userIds[i]}`).join(' & ')
+                      ).join(', ')}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {preview.leftoverUsers.length > 0 && (
+              <div className="text-sm">
+                <span className="text-muted-foreground">Not placed: </span>
+                {preview.leftoverUsers.map(user => user.name || `User ${user.userId}`).join(', ')}
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => commitMutation.mutate(preview.proposalId)}
+                disabled={commitMutation.isPending}
+                className="flex items-center gap-2"
+              >
+                <PlayIcon className="w-4 h-4" />
+                {commitMutation.isPending ? 'Committing...' : 'Commit This Proposal'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
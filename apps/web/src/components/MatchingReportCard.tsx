@@ -0,0 +1,109 @@
+import { useQuery } from '@tanstack/react-query'
+import { ChartBarIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { Card } from './ui'
+import { matchingApi } from '../lib/api'
+import type { ScoreBreakdown } from '../lib/api'
+
+interface MatchingReportCardProps {
+  eventId: number
+}
+
+const breakdownLabels: Array<[keyof ScoreBreakdown, string]> = [
+  ['interests', 'Interests'],
+  ['dietary', 'Dietary'],
+  ['kitchen', 'Kitchen'],
+  ['personality', 'Personality'],
+  ['cooking', 'Cooking'],
+  ['distance', 'Distance'],
+  ['repeatPairs', 'Repeat pairs'],
+]
+
+export default function MatchingReportCard({ eventId }: MatchingReportCardProps) {
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ['admin-matching-report', eventId],
+    queryFn: () => matchingApi.getReport(eventId),
+    retry: false,
+  })
+
+  // Circles matched before reports were recorded have none to show
+  if (error) return null
+
+  return (
+    <Card>
+      <div className="p-4 sm:p-6 space-y-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold flex items-center gap-2">
+            <ChartBarIcon className="w-5 h-5" />
+            Matching Report
+          </h2>
+          {report && (
+            <p className="text-sm text-muted-foreground capitalize">
+              {report.strategy} strategy · total score {report.totalScore} · run {new Date(report.createdAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+
+        {isLoading || !report ? (
+          <div className="h-16 bg-muted rounded animate-pulse" />
+        ) : (
+          <>
+            {report.warnings.length > 0 && (
+              <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg space-y-1">
+                {report.warnings.map((warning) => (
+                  <div key={warning} className="text-sm text-orange-700 flex items-start gap-1">
+                    <ExclamationTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.leftoverUsers.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Not placed: {report.leftoverUsers.map(user => user.name || `User ${user.userId}`).join(', ')}
+              </p>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-2 pr-4 font-medium">Circle</th>
+                    {breakdownLabels.map(([key, label]) => (
+                      <th key={key} className="py-2 pr-4 font-medium text-right">{label}</th>
+                    ))}
+                    <th className="py-2 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.circles.map((circle) => (
+                    <tr key={circle.id} className="border-b last:border-b-0 align-top">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium">{circle.name}</div>
+                        <div className="text-muted-foreground capitalize">{circle.format}</div>
+                        {circle.report?.hostReason && (
+                          <div className="text-muted-foreground">{circle.report.hostReason}</div>
+                        )}
+                        {circle.report?.relaxedConstraints.map((constraint) => (
+                          <div key={constraint} className="text-orange-700">{constraint}</div>
+                        ))}
+                      </td>
+                      {breakdownLabels.map(([key]) => (
+                        <td key={key} className="py-2 pr-4 text-right tabular-nums">
+                          {circle.report ? circle.report.scoreBreakdown[key] : '—'}
+                        </td>
+                      ))}
+                      <td className="py-2 text-right font-medium tabular-nums">
+                        {circle.report?.scoreBreakdown.total ?? circle.compatibilityScore ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  )
+}
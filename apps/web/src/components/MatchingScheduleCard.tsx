@@ -0,0 +1,110 @@
+import { useQuery } from '@tanstack/react-query'
+import { CalendarDaysIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { Card } from './ui'
+import { api } from '../lib/api'
+
+interface MatchingScheduleOverview {
+  deadlineDays: number
+  upcoming: Array<{
+    eventId: number
+    date: string
+    startTime: string
+    deadline: string
+    optInCount: number
+    minOptIns: number
+  }>
+  runs: Array<{
+    id: number
+    eventId: number
+    date: string
+    status: 'retrying' | 'succeeded' | 'skipped' | 'failed'
+    attempts: number
+    lastError: string | null
+    nextAttemptAt: string | null
+    updatedAt: string
+  }>
+}
+
+const statusStyles: Record<MatchingScheduleOverview['runs'][number]['status'], string> = {
+  succeeded: 'bg-green-100 text-green-800',
+  retrying: 'bg-yellow-100 text-yellow-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+}
+
+export default function MatchingScheduleCard() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin-matching-schedule'],
+    queryFn: () => api<MatchingScheduleOverview>('/api/admin/matching-schedule'),
+    refetchInterval: 60_000,
+  })
+
+  return (
+    <Card>
+      <div className="p-4 sm:p-6 space-y-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold flex items-center gap-2">
+            <CalendarDaysIcon className="w-5 h-5" />
+            Scheduled Matching
+          </h2>
+          {data && (
+            <p className="text-sm text-muted-foreground">
+              Matching runs automatically {data.deadlineDays} days before each event starts.
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-muted rounded animate-pulse" />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <h3 className="font-medium text-sm">Upcoming</h3>
+              {data?.upcoming.length ? (
+                data.upcoming.map((entry) => (
+                  <div key={entry.eventId} className="flex items-center justify-between text-sm border-b last:border-b-0 py-2">
+                    <div>
+                      <div className="font-medium">Event on {new Date(entry.date).toLocaleDateString()}</div>
+                      <div className="text-muted-foreground">Runs {new Date(entry.deadline).toLocaleString()}</div>
+                    </div>
+                    <div className={entry.optInCount < entry.minOptIns ? 'text-orange-600' : 'text-muted-foreground'}>
+                      {entry.optInCount}/{entry.minOptIns} opt-ins
+                    </div>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No upcoming deadlines.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium text-sm">Recent runs</h3>
+              {data?.runs.length ? (
+                data.runs.map((run) => (
+                  <div key={run.id} className="text-sm border-b last:border-b-0 py-2 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Event on {new Date(run.date).toLocaleDateString()}</span>
+                      <span className={`text-xs px-2 py-1 rounded capitalize ${statusStyles[run.status]}`}>{run.status}</span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {run.attempts} attempt{run.attempts === 1 ? '' : 's'}, last {new Date(run.updatedAt).toLocaleString()}
+                      {run.nextAttemptAt && `, next ${new Date(run.nextAttemptAt).toLocaleString()}`}
+                    </div>
+                    {run.lastError && run.status !== 'succeeded' && (
+                      <div className="text-orange-700 flex items-start gap-1">
+                        <ExclamationTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        {run.lastError}
+                      </div>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No scheduled runs yet.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -2,8 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { Dialog } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { Button, Input } from './ui';
-import { matchingApi } from '../lib/api';
-import type { OptInRequest } from '../lib/api';
+import { matchingApi, householdApi } from '../lib/api';
+import type { OptInRequest, Household } from '../lib/api';
 import { toast } from 'sonner';
 
 interface OptInDialogProps {
@@ -23,15 +23,20 @@ export function OptInDialog({ isOpen, onClose, eventId, eventDate, eventStartTim
   const [formData, setFormData] = useState<OptInRequest>({
     hostingAvailable: false,
   });
-  const [partnerEmail, setPartnerEmail] = useState('');
+  const [household, setHousehold] = useState<Household | null>(null);
 
-  // Reset form when dialog opens
+  // Reset form when dialog opens; a confirmed household opts in together by default
   useEffect(() => {
     if (isOpen) {
       setFormData({
         hostingAvailable: false,
       });
-      setPartnerEmail('');
+      householdApi.get()
+        .then(({ household }) => {
+          setHousehold(household);
+          setFormData(prev => ({ ...prev, withPartner: household?.status === 'active' }));
+        })
+        .catch(() => setHousehold(null));
     }
   }, [isOpen]);
 
@@ -43,11 +48,14 @@ export function OptInDialog({ isOpen, onClose, eventId, eventDate, eventStartTim
     try {
       const submitData: OptInRequest = {
         ...formData,
-        partnerEmail: partnerEmail.trim() || undefined,
+        matchAddress: formData.matchAddress?.trim() || undefined,
+        partnerEmail: formData.partnerEmail?.trim() || undefined,
       };
 
-      await matchingApi.optIn(eventId, submitData);
-      toast.success('Successfully opted in for matching!');
+      const result = await matchingApi.optIn(eventId, submitData);
+      toast.success(result.invitation
+        ? `Opted in! We've emailed ${result.invitation.inviteeEmail} an invitation to join you.`
+        : 'Successfully opted in for matching!');
       onSuccess();
       onClose();
     } catch (error: any) {
@@ -132,17 +140,48 @@ export function OptInDialog({ isOpen, onClose, eventId, eventDate, eventStartTim
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Partner (Optional)
               </label>
-              <div className="space-y-2">
-                <Input
-                  type="email"
-                  placeholder="Enter partner's email address..."
-                  value={partnerEmail}
-                  onChange={(e) => setPartnerEmail(e.target.value)}
-                />
-                <p className="text-xs text-gray-500">
-                  Enter your partner's email address. If they don't have an account, we'll create a guest account and invite them to sign up.
-                </p>
-              </div>
+              {household?.status === 'active' ? (
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={!!formData.withPartner}
+                    onChange={(e) => setFormData(prev => ({ ...prev, withPartner: e.target.checked }))}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">
+                    Opt in together with {household.partner.name || household.partner.email}
+                  </span>
+                </label>
+              ) : (
+                <>
+                  <Input
+                    type="email"
+                    placeholder="partner@example.com"
+                    value={formData.partnerEmail || ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, partnerEmail: e.target.value }))}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    We'll email them an invitation; they join you once they accept, before matching starts.
+                    {household && ` Your household with ${household.partner.name || household.partner.email} is still waiting to be confirmed.`}
+                  </p>
+                </>
+              )}
+            </div>
+
+            {/* Match Address */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Address (Optional)
+              </label>
+              <Input
+                type="text"
+                placeholder="Where you'd host..."
+                value={formData.matchAddress || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, matchAddress: e.target.value }))}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Couples need an address to be placed in a rotating dinner, where your household serves one course at home
+              </p>
             </div>
 
             {/* Hosting Availability */}
@@ -163,6 +202,28 @@ export function OptInDialog({ isOpen, onClose, eventId, eventDate, eventStartTim
               </p>
             </div>
 
+            {/* Venue differences for this event only; the rest comes from the profile */}
+            {formData.hostingAvailable && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Seats for this dinner (Optional)
+                </label>
+                <Input
+                  type="number"
+                  min={2}
+                  placeholder="As in your profile"
+                  value={formData.venueOverride?.maxSeats ?? ''}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    venueOverride: e.target.value ? { ...prev.venueOverride, maxSeats: Number(e.target.value) } : undefined,
+                  }))}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Including yourself. Your venue details are kept in your profile
+                </p>
+              </div>
+            )}
+
 
 
             {/* Submit Button */}
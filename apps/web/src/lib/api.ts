@@ -54,28 +54,128 @@ export async function api<T>(path: string, options: RequestInit = {}): Promise<T
   return res.json();
 }
 
+// Paging details returned alongside admin lists
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+// Where a host receives guests
+export interface VenueProfile {
+  maxSeats: number | null;
+  hasPets: boolean;
+  stepFree: boolean;
+  smokingPolicy: 'none' | 'outdoors' | 'indoors';
+  suitedCourses: Array<'starter' | 'main' | 'dessert'>;
+}
+
+// The signed-in user's own profile
+export interface Profile {
+  id: number;
+  username: string;
+  email: string;
+  name: string | null;
+  phone: string | null;
+  address: string | null;
+  neighbourhood: string | null;
+  bio: string | null;
+  dietaryRestrictions: string | null;
+  dietaryNeeds: string[] | null;
+  allergies: { allergen: string; severity: 'mild' | 'severe' }[] | null;
+  cuisineCapabilities: string[] | null; // Dietary needs this user can cook for when hosting
+  allergenRisks: string[] | null; // Allergens this user cannot keep out of their kitchen
+  venueProfile: VenueProfile | null;
+  venueNeeds: string[] | null;
+  interests: string[] | null;
+  personalityType: 'extrovert' | 'introvert' | 'ambivert' | null;
+  cookingExperience: string | null;
+  preferredGroupSize: 'small' | 'medium' | 'large' | null;
+  socialPreferences: string[] | null;
+}
+
 // Types for matching system
 export interface OptInRequest {
-  partnerEmail?: string;
+  withPartner?: boolean;
+  partnerEmail?: string; // Invite someone without a household link; they join once they accept
   matchAddress?: string;
   hostingAvailable: boolean;
+  venueOverride?: Partial<VenueProfile>;
+}
+
+// A user's entry in an event's matching pool
+export interface OptIn {
+  id: number;
+  eventId: number;
+  userId: number;
+  partnerId: number | null;
+  householdId: number | null;
+  matchAddress: string | null;
+  matchLatitude: number | null;
+  matchLongitude: number | null;
+  hostingAvailable: boolean;
+  venueOverride: Partial<VenueProfile> | null;
+  waitlistedAt: string | null;
+  withdrawnAt: string | null;
+  createdAt: string;
+}
+
+// Where an event is in its lifecycle, from draft to archived
+export type EventStatus = 'draft' | 'open' | 'matching' | 'matched' | 'in_progress' | 'completed' | 'cancelled' | 'archived';
+
+export const eventStatusLabels: Record<EventStatus, string> = {
+  draft: 'Draft',
+  open: 'Open',
+  matching: 'Matching',
+  matched: 'Matched',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  archived: 'Archived',
+};
+
+export interface EventStatusChange {
+  id: number;
+  eventId: number;
+  fromStatus: EventStatus;
+  toStatus: EventStatus;
+  changedBy: number | null; // Null when the scheduler or matching made the change
+  reason: string | null;
+  createdAt: string;
 }
 
 export interface MatchingStatus {
   eventId: number;
-  matchingStatus: 'open' | 'matching' | 'closed';
+  matchingStatus: EventStatus;
   matchingTriggeredAt: string | null;
   matchingCompletedAt: string | null;
   isOptedIn: boolean;
+  status: 'not_opted_in' | 'opted_in' | 'matching' | 'matched' | 'waitlisted' | 'withdrawn';
   userCircle: Circle | null;
   poolCount?: number;
 }
 
+export interface WaitlistedUser {
+  userId: number;
+  name: string | null;
+  email: string;
+  partnerId: number | null;
+  waitlistedAt: string;
+}
+
 export interface Circle {
   id: number;
   name: string;
   format: 'rotating' | 'hosted';
+  compatibilityScore: number | null;
   members: CircleMember[];
+  // What the viewing member has in common with the rest of their circle
+  matchSummary?: {
+    sharedInterests: string[];
+    sharedDietaryNeeds: string[];
+    samePersonality: boolean;
+  };
 }
 
 export interface CircleMember {
@@ -93,6 +193,133 @@ export interface CircleMember {
   };
 }
 
+export interface ProposedCircle {
+  name: string;
+  format: 'rotating' | 'hosted';
+  compatibilityScore: number;
+  members: Array<{
+    userId: number;
+    name: string | null;
+    role: CircleMember['role'];
+    venueAddress: string | null;
+  }>;
+  repeatPairs: Array<{
+    userIds: [number, number];
+    names: [string | null, string | null];
+  }>;
+  report: CircleReport;
+}
+
+export interface MatchingStrategyParams {
+  maxPasses?: number;
+  seed?: number;
+}
+
+export interface MatchingStrategyOption {
+  name: 'optimizer' | 'greedy' | 'random';
+  description: string;
+}
+
+export interface MatchingPreview {
+  proposalId: number;
+  eventId: number;
+  totalScore: number;
+  strategy: MatchingStrategyOption['name'];
+  strategyParams: MatchingStrategyParams;
+  circles: ProposedCircle[];
+  leftoverUsers: Array<{ userId: number; name: string | null }>;
+  warnings: string[];
+}
+
+export interface ScoreBreakdown {
+  interests: number;
+  dietary: number;
+  kitchen: number;
+  personality: number;
+  cooking: number;
+  distance: number;
+  repeatPairs: number;
+  total: number;
+}
+
+export interface CircleReport {
+  scoreBreakdown: ScoreBreakdown;
+  hostReason: string | null;
+  relaxedConstraints: string[];
+}
+
+export interface MatchingReport {
+  eventId: number;
+  createdAt: string;
+  totalScore: number;
+  strategy: MatchingStrategyOption['name'];
+  strategyParams: MatchingStrategyParams;
+  leftoverUsers: Array<{ userId: number; name: string | null }>;
+  warnings: string[];
+  circles: Array<{
+    id: number;
+    name: string;
+    format: 'rotating' | 'hosted';
+    compatibilityScore: number | null;
+    report: CircleReport | null;
+  }>;
+}
+
+export interface ItineraryStop {
+  order: number;
+  course: 'starter' | 'main' | 'dessert';
+  startTime: string;
+  endTime: string;
+  hosts: Array<{ userId: number; name: string | null }>;
+  address: string | null;
+  isYourHousehold: boolean;
+}
+
+export interface ItineraryLeg {
+  fromCourse: string;
+  toCourse: string;
+  from: string | null;
+  to: string | null;
+  departAt: string;
+  arriveBy: string;
+}
+
+export interface Itinerary {
+  circleId: number;
+  circleName: string;
+  eventId: number;
+  date: string;
+  stops: ItineraryStop[];
+  walkingOrder: ItineraryLeg[];
+}
+
+export type AttendanceStatus = 'attended' | 'no_show';
+
+export interface CircleAttendance {
+  circleId: number;
+  eventId: number;
+  isHost: boolean;
+  canMark: boolean; // Hosts mark attendance from the day of the dinner until it is archived
+  checkInOpen: boolean; // Self check-in runs on the day, until the dinner completes
+  checkInCode: string | null; // Only sent to hosts, while check-in is open
+  members: {
+    userId: number;
+    name: string | null;
+    role: CircleMember['role'];
+    attendance: AttendanceStatus | null;
+    selfCheckedIn: boolean;
+  }[];
+}
+
+// How reliably a user turns up, over the past dinners they were seated at
+export interface Reliability {
+  attended: number;
+  noShows: number;
+  unmarked: number;
+  score: number | null; // Percentage of marked dinners attended; null until one is marked
+  recentNoShows: { eventId: number; title: string; date: string }[];
+}
+
 export interface MatchingPoolMember {
   id: number;
   userId: number;
@@ -125,7 +352,7 @@ export interface MatchingPoolMember {
 export const matchingApi = {
   // Opt in to matching for an event
   optIn: (eventId: number, data: OptInRequest) =>
-    api<{ message: string; optIn: any }>(`/api/matching/opt-in/${eventId}`, {
+    api<{ message: string; optIn: OptIn; invitation: { status: string; inviteeEmail: string; expiresAt: string } | null }>(`/api/matching/opt-in/${eventId}`, {
       method: 'POST',
       body: JSON.stringify(data),
     }),
@@ -136,14 +363,61 @@ export const matchingApi = {
       method: 'POST',
     }),
 
+  // Give up a seat in a circle after matching; the circle gets a replacement if one is free
+  withdraw: (eventId: number) =>
+    api<{
+      message: string;
+      circleId: number;
+      replacement: { userId: number; name: string | null } | null;
+      newHost: { userId: number; name: string | null } | null;
+      released: { userId: number; name: string | null }[];
+      dissolved: boolean;
+    }>(`/api/matching/withdraw/${eventId}`, {
+      method: 'POST',
+    }),
+
   // Get matching status for an event
   getStatus: (eventId: number) =>
     api<MatchingStatus>(`/api/matching/status/${eventId}`),
 
-  // Trigger matching for an event (admin only)
-  triggerMatching: (eventId: number) =>
+  // List the available matching strategies (admin only)
+  getStrategies: () =>
+    api<{ strategies: MatchingStrategyOption[] }>('/api/matching/strategies'),
+
+  // Preview matching for an event without saving it, optionally with another strategy (admin only)
+  previewMatching: (eventId: number, strategy?: MatchingStrategyOption['name'], params?: MatchingStrategyParams) =>
+    api<MatchingPreview>(`/api/matching/preview/${eventId}`, {
+      method: 'POST',
+      body: JSON.stringify({ strategy, params }),
+    }),
+
+  // Trigger matching for an event, optionally committing a previewed proposal (admin only)
+  triggerMatching: (eventId: number, proposalId?: number) =>
     api<{ message: string; circles: Circle[] }>(`/api/matching/trigger/${eventId}`, {
       method: 'POST',
+      body: JSON.stringify({ proposalId }),
+    }),
+
+  // Reset matching for an event so it can be re-run (admin only)
+  resetMatching: (eventId: number, reason: string) =>
+    api<{ message: string; circlesRemoved: number }>(`/api/matching/reset/${eventId}`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    }),
+
+  // Get the report explaining how an event's circles were formed (admin only)
+  getReport: (eventId: number) =>
+    api<MatchingReport>(`/api/matching/report/${eventId}`),
+
+  // Get users left unplaced by matching (admin only)
+  getWaitlist: (eventId: number) =>
+    api<{ eventId: number; waitlist: WaitlistedUser[] }>(`/api/matching/waitlist/${eventId}`),
+
+  // Place a waitlisted user in a hosted circle (admin only)
+  placeWaitlistedUser: (eventId: number, userId: number, circleId: number) =>
+    api<{ message: string; circle: Circle }>(`/api/matching/waitlist/${eventId}/place`, {
+      method: 'POST',
+      body: JSON.stringify({ userId, circleId }),
     }),
 
   // Get matching results for an event
@@ -153,6 +427,279 @@ export const matchingApi = {
   // Get matching pool for an event (admin only)
   getPool: (eventId: number) =>
     api<{ eventId: number; pool: MatchingPoolMember[] }>(`/api/matching/pool/${eventId}`),
+
+  // Get the rotating dinner itinerary for a circle (members only)
+  getItinerary: (circleId: number) =>
+    api<Itinerary>(`/api/matching/circles/${circleId}/itinerary`),
+
+  // Get who has been marked as attending a circle's dinner (members only)
+  getAttendance: (circleId: number) =>
+    api<CircleAttendance>(`/api/matching/circles/${circleId}/attendance`),
+
+  // Mark whether a circle member came (circle hosts only)
+  markAttendance: (circleId: number, userId: number, status: AttendanceStatus) =>
+    api<{ message: string }>(`/api/matching/circles/${circleId}/attendance/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status }),
+    }),
+
+  // Check in with the code the host shows on the day
+  checkIn: (circleId: number, code: string) =>
+    api<{ message: string }>(`/api/matching/circles/${circleId}/check-in`, {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    }),
+};
+
+// Manual circle edits after matching (admin only). Each returns the event's circles after the edit.
+type CircleEditResult = { message: string; circles: Circle[] };
+
+export const circleEditApi = {
+  // Move a member to another circle
+  moveMember: (eventId: number, userId: number, circleId: number, role?: CircleMember['role']) =>
+    api<CircleEditResult>(`/api/admin/events/${eventId}/circles/move`, {
+      method: 'POST',
+      body: JSON.stringify({ userId, circleId, role }),
+    }),
+
+  // Swap two members of different circles
+  swapMembers: (eventId: number, userId: number, otherUserId: number) =>
+    api<CircleEditResult>(`/api/admin/events/${eventId}/circles/swap`, {
+      method: 'POST',
+      body: JSON.stringify({ userId, otherUserId }),
+    }),
+
+  // Change a member's role within their circle
+  changeRole: (eventId: number, userId: number, role: CircleMember['role']) =>
+    api<CircleEditResult>(`/api/admin/events/${eventId}/circles/role`, {
+      method: 'POST',
+      body: JSON.stringify({ userId, role }),
+    }),
+
+  // Seat an opted-in user who is not in a circle yet
+  addMember: (eventId: number, userId: number, circleId: number, role?: CircleMember['role']) =>
+    api<CircleEditResult>(`/api/admin/events/${eventId}/circles/add`, {
+      method: 'POST',
+      body: JSON.stringify({ userId, circleId, role }),
+    }),
+
+  // Move some of a circle's members into a new circle
+  splitCircle: (eventId: number, circleId: number, members: Array<{ userId: number; role?: CircleMember['role'] }>, name?: string) =>
+    api<CircleEditResult>(`/api/admin/events/${eventId}/circles/split`, {
+      method: 'POST',
+      body: JSON.stringify({ circleId, members, name }),
+    }),
+
+  // Move every member of one circle into another and remove it
+  mergeCircles: (eventId: number, circleId: number, intoCircleId: number) =>
+    api<CircleEditResult>(`/api/admin/events/${eventId}/circles/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ circleId, intoCircleId }),
+    }),
+};
+
+export interface BlockedUser {
+  userId: number;
+  name: string | null;
+  eventId: number | null;
+  createdAt: string;
+}
+
+// Someone the user has shared a circle with
+export interface PastCompanion {
+  userId: number;
+  name: string | null;
+  lastEventId: number;
+  lastEventDate: string;
+  blocked: boolean;
+}
+
+// A pair of users an admin keeps out of the same circle
+export interface Exclusion {
+  id: number;
+  user: { id: number; name: string | null; email: string };
+  otherUser: { id: number; name: string | null; email: string };
+  reason: string | null;
+  createdBy: number;
+  createdAt: string;
+}
+
+// Two accounts linked as partners, seen from the user's side
+export interface Household {
+  id: number;
+  status: 'pending' | 'active';
+  requestedByMe: boolean;
+  partner: { id: number; name: string | null; email: string };
+  confirmedAt: string | null;
+  createdAt: string;
+}
+
+// The user's household link, reused for every event
+export const householdApi = {
+  get: () =>
+    api<{ household: Household | null }>('/api/profile/household'),
+
+  // Ask another account to confirm a household
+  request: (partnerEmail: string) =>
+    api<{ message: string; household: Household }>('/api/profile/household', {
+      method: 'POST',
+      body: JSON.stringify({ partnerEmail }),
+    }),
+
+  confirm: (householdId: number) =>
+    api<{ message: string; household: Household }>(`/api/profile/household/${householdId}/confirm`, { method: 'POST' }),
+
+  // Decline a request, or cancel one the user made
+  decline: (householdId: number) =>
+    api<{ message: string }>(`/api/profile/household/${householdId}/decline`, { method: 'POST' }),
+
+  leave: () =>
+    api<{ message: string }>('/api/profile/household', { method: 'DELETE' }),
+};
+
+// A partner invitation as shown from its emailed link
+export interface PartnerInvitation {
+  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+  inviterName: string | null;
+  inviteeEmail: string;
+  eventId: number;
+  eventDate: string;
+  eventStartTime: string;
+  expiresAt: string;
+}
+
+// Answering a partner invitation; only accepting needs an account
+export const invitationsApi = {
+  get: (token: string) =>
+    api<PartnerInvitation>(`/api/matching/invitations/${token}`),
+
+  accept: (token: string) =>
+    api<{ message: string }>(`/api/matching/invitations/${token}/accept`, { method: 'POST' }),
+
+  decline: (token: string) =>
+    api<{ message: string }>(`/api/matching/invitations/${token}/decline`, { method: 'POST' }),
+};
+
+// A recurring dinner; its occurrences appear as ordinary events
+export interface EventSeries {
+  id: number;
+  title: string;
+  description: string | null;
+  theme: string | null;
+  neighbourhood: string | null;
+  coverImageUrl: string | null;
+  recurrence: 'weekly' | 'biweekly' | 'monthly' | 'nth_weekday';
+  nthWeek: number | null; // 1-4, or -1 for the last, of the first date's weekday
+  firstDate: string;
+  lastDate: string | null;
+  startTime: string;
+  endTime: string;
+  nextDate: string | null;
+  upcomingCount: number;
+  optInCount: number;
+  isOptedIn: boolean;
+}
+
+export interface SeriesOptInRequest {
+  withPartner?: boolean;
+  matchAddress?: string;
+  hostingAvailable: boolean;
+}
+
+export interface EventSeriesRequest {
+  title: string;
+  description?: string | null;
+  theme?: string | null;
+  neighbourhoodId?: number | null;
+  maxParticipants?: number | null;
+  recurrence: EventSeries['recurrence'];
+  nthWeek?: number | null;
+  firstDate: string;
+  lastDate?: string | null;
+  startTime: string;
+  endTime: string;
+}
+
+// Recurring series: opting in to every occurrence, and managing series (admin only)
+export const seriesApi = {
+  list: () =>
+    api<EventSeries[]>('/api/events/series'),
+
+  optIn: (seriesId: number, data: SeriesOptInRequest) =>
+    api<{ message: string; eventsJoined: number; eventsFull: number }>(`/api/matching/series/${seriesId}/opt-in`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  optOut: (seriesId: number) =>
+    api<{ message: string; eventsLeft: number }>(`/api/matching/series/${seriesId}/opt-out`, { method: 'POST' }),
+
+  adminList: () =>
+    api<Array<Omit<EventSeries, 'isOptedIn'> & { maxParticipants: number | null }>>('/api/admin/series'),
+
+  create: (data: EventSeriesRequest) =>
+    api<{ message: string; eventsCreated: number }>('/api/admin/series', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (seriesId: number, data: Partial<Omit<EventSeriesRequest, 'recurrence' | 'nthWeek' | 'firstDate'>>) =>
+    api<{ eventsUpdated: number; eventsCancelled: number }>(`/api/admin/series/${seriesId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  cancelEvent: (eventId: number, reason?: string) =>
+    api<{ message: string }>(`/api/admin/events/${eventId}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    }),
+};
+
+// Moving events through their lifecycle (admin only)
+export const eventStatusApi = {
+  change: (eventId: number, status: EventStatus, reason?: string) =>
+    api<{ status: EventStatus; statusHistory: EventStatusChange[] }>(`/api/admin/events/${eventId}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status, reason }),
+    }),
+
+  // Re-run the completion job; members who already have points are skipped
+  awardPoints: (eventId: number) =>
+    api<{ membersAwarded: number; alreadyAwarded: number; noShows: number }>(`/api/admin/events/${eventId}/award-points`, {
+      method: 'POST',
+    }),
+};
+
+// Blocks the user places on people they have dined with
+export const blocksApi = {
+  // Get blocked users and everyone the user could block
+  getBlocks: () =>
+    api<{ blocks: BlockedUser[]; companions: PastCompanion[] }>('/api/profile/blocks'),
+
+  block: (userId: number, eventId?: number) =>
+    api<{ message: string }>('/api/profile/blocks', {
+      method: 'POST',
+      body: JSON.stringify({ userId, eventId }),
+    }),
+
+  unblock: (userId: number) =>
+    api<{ message: string }>(`/api/profile/blocks/${userId}`, { method: 'DELETE' }),
+};
+
+// Admin exclusions between pairs of users (admin only)
+export const exclusionsApi = {
+  list: () =>
+    api<Exclusion[]>('/api/admin/exclusions'),
+
+  add: (userId: number, otherUserId: number, reason: string) =>
+    api<{ message: string }>('/api/admin/exclusions', {
+      method: 'POST',
+      body: JSON.stringify({ userId, otherUserId, reason }),
+    }),
+
+  remove: (id: number) =>
+    api<{ message: string }>(`/api/admin/exclusions/${id}`, { method: 'DELETE' }),
 };
 
 // Events API functions
@@ -16,6 +16,8 @@ import {
   HeartIcon
 } from '@heroicons/react/24/outline'
 import CircleChat from '../components/CircleChat'
+import ItineraryTimeline from '../components/ItineraryTimeline'
+import CircleAttendance from '../components/CircleAttendance'
 
 export default function Dashboard() {
   const [location, setLocation] = useLocation()
@@ -157,37 +159,17 @@ export default function Dashboard() {
                        </div>
                      </Card>
 
+                     {/* Check-in, shown on the day */}
+                     <div className="mb-6">
+                       <CircleAttendance circleId={event.circle.id} />
+                     </div>
+
                      {/* Evening Schedule */}
                      <div>
                        <h3 className="text-lg font-bold text-gray-900 mb-4">YOUR EVENING SCHEDULE</h3>
                        <div className="space-y-4">
                          {event.circle.format === 'rotating' ? (
-                           <>
-                             <div className="flex gap-4">
-                               <div className="w-16 text-sm font-medium text-gray-500">6:00 PM</div>
-                               <div className="flex-1">
-                                 <div className="font-medium">Starters & Welcome Drinks</div>
-                                 <div className="text-sm text-gray-600">Location TBD</div>
-                                 <div className="text-sm text-gray-500">Arrive and enjoy appetizers</div>
-                               </div>
-                             </div>
-                             <div className="flex gap-4">
-                               <div className="w-16 text-sm font-medium text-gray-500">7:30 PM</div>
-                               <div className="flex-1">
-                                 <div className="font-medium">Main Course</div>
-                                 <div className="text-sm text-gray-600">Location TBD</div>
-                                 <div className="text-sm text-gray-500">Enjoy the main course</div>
-                               </div>
-                             </div>
-                             <div className="flex gap-4">
-                               <div className="w-16 text-sm font-medium text-gray-500">9:00 PM</div>
-                               <div className="flex-1">
-                                 <div className="font-medium">Dessert & Coffee</div>
-                                 <div className="text-sm text-gray-600">Location TBD</div>
-                                 <div className="text-sm text-gray-500">Relax and enjoy dessert</div>
-                               </div>
-                             </div>
-                           </>
+                           <ItineraryTimeline circleId={event.circle.id} />
                          ) : (
                            <>
                              <div className="flex gap-4">
@@ -238,10 +220,14 @@ export default function Dashboard() {
                             day: 'numeric'
                           })} Dinner
                         </h4>
-                        <p className="text-orange-700">You've opted in and we're working on matching you with other participants!</p>
+                        <p className="text-orange-700">
+                          {event.waitlisted
+                            ? "Matching is done, but we couldn't fit you into a circle this time."
+                            : "You've opted in and we're working on matching you with other participants!"}
+                        </p>
                       </div>
                       <span className="px-3 py-1 bg-orange-100 text-orange-800 rounded-full text-sm font-medium">
-                        Matching in Progress
+                        {event.waitlisted ? 'Waitlisted' : 'Matching in Progress'}
                       </span>
                     </div>
 
@@ -272,7 +258,9 @@ export default function Dashboard() {
                          <div className="flex-1">
                            <div className="font-medium text-orange-900">Matching Status</div>
                            <div className="text-sm text-orange-700">
-                             We're working on matching you with other participants. You'll be notified once your circle is ready!
+                             {event.waitlisted
+                               ? "You're on the waitlist and we'll let you know if a spot opens up. You'll also get priority when you opt in to the next dinner."
+                               : "We're working on matching you with other participants. You'll be notified once your circle is ready!"}
                            </div>
                          </div>
                        </div>
@@ -554,6 +542,11 @@ export default function Dashboard() {
                      )}
                    </div>
 
+                   {/* Hosts can still mark who came after the dinner */}
+                   <div className="mb-4">
+                     <CircleAttendance circleId={event.circle.id} />
+                   </div>
+
                    {/* Circle Members */}
                    <div>
                      <h4 className="font-semibold text-gray-900 mb-3">Dinner Companions</h4>
@@ -19,12 +19,14 @@ import { useState } from 'react'
 interface EventDetails {
   id: number
   title: string
-  description: string
+  description: string | null
+  theme: string | null
+  coverImageUrl: string | null
   date: string
   startTime: string
   endTime: string
   format: 'rotating' | 'hosted'
-  neighbourhood: string
+  neighbourhood: string | null
   coursePreference?: string
   isHost: boolean
   registeredAt: string
@@ -146,7 +148,7 @@ export default function EventDetails() {
           </Button>
           <div className="min-w-0">
             <h1 className="text-xl sm:text-2xl font-bold break-words">{event.title}</h1>
-            <p className="text-muted-foreground">Event Details</p>
+            <p className="text-muted-foreground">{event.theme || 'Event Details'}</p>
           </div>
         </div>
 
@@ -162,7 +164,10 @@ export default function EventDetails() {
               </div>
               
               <div className="space-y-4">
-                <p className="text-muted-foreground break-words">{event.description}</p>
+                {event.coverImageUrl && (
+                  <img src={event.coverImageUrl} alt="" className="h-48 w-full rounded-md object-cover" />
+                )}
+                {event.description && <p className="text-muted-foreground break-words">{event.description}</p>}
                 
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <div className="flex items-center gap-2 min-w-0">
@@ -177,7 +182,7 @@ export default function EventDetails() {
                   
                   <div className="flex items-center gap-2 min-w-0">
                     <MapPinIcon className="w-4 h-4 text-muted-foreground shrink-0" />
-                    <span className="truncate">{event.neighbourhood}</span>
+                    <span className="truncate">{event.neighbourhood || 'Neighbourhood to be announced'}</span>
                   </div>
                   
                   <div className="flex items-center gap-2 min-w-0">
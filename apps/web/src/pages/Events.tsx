@@ -2,12 +2,13 @@ import { useState, useEffect } from 'react'
 import { Card, Button } from '../components/ui'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api, matchingApi } from '../lib/api'
-import type { MatchingStatus } from '../lib/api'
+import type { MatchingStatus, EventStatus } from '../lib/api'
 import { toast } from 'sonner'
 
 import { useAuth } from '../auth/AuthContext'
 import { OptInDialog } from '../components/OptInDialog'
 import { CircleDetails } from '../components/CircleDetails'
+import EventSeriesList from '../components/EventSeriesList'
 import { 
   CheckCircleIcon, 
   XCircleIcon 
@@ -16,15 +17,17 @@ import {
 interface Event {
   id: number
   title: string
-  description: string
+  description: string | null
+  theme: string | null
+  coverImageUrl: string | null
   date: string
   startTime: string
   endTime: string
-  totalSpots: number
-  spotsRemaining: number
+  maxParticipants: number | null
+  spotsRemaining: number | null
   format: 'matching'
-  neighbourhood: string
-  matchingStatus: 'open' | 'matching' | 'closed'
+  neighbourhood: string | null
+  matchingStatus: EventStatus
   optInCount: number
   circleCount: number
   createdAt: string
@@ -71,6 +74,27 @@ export default function Events() {
     },
   })
 
+  const withdrawMutation = useMutation({
+    mutationFn: (eventId: number) => matchingApi.withdraw(eventId),
+    onSuccess: (data, eventId) => {
+      queryClient.invalidateQueries({ queryKey: ['events'] })
+      queryClient.invalidateQueries({ queryKey: ['user-events'] })
+      setOptedInEvents(prev => {
+        const newSet = new Set(prev)
+        newSet.delete(eventId)
+        return newSet
+      })
+      toast.success(data.dissolved
+        ? 'You have withdrawn; nobody else could host, so your circle has been cancelled'
+        : data.replacement
+          ? 'You have withdrawn and your seat has been passed on'
+          : 'You have withdrawn from your circle')
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to withdraw')
+    },
+  })
+
   const handleOptIn = (event: Event) => {
     if (!user) {
       // User is not logged in, redirect to auth page with return URL
@@ -94,6 +118,12 @@ export default function Events() {
     }
   }
 
+  const handleWithdraw = (eventId: number) => {
+    if (confirm('Are you sure you can no longer make it? Your seat will be offered to someone else and your circle will be told.')) {
+      withdrawMutation.mutate(eventId)
+    }
+  }
+
   const handleOptInSuccess = () => {
     queryClient.invalidateQueries({ queryKey: ['events'] })
     queryClient.invalidateQueries({ queryKey: ['user-events'] })
@@ -213,7 +243,8 @@ export default function Events() {
           </div>
         </div>
 
-        
+        {/* Recurring Series */}
+        <EventSeriesList />
 
         {/* Events List */}
         {isLoading ? (
@@ -238,15 +269,34 @@ export default function Events() {
               const isOptedIn = optedInEvents.has(event.id)
               const isParticipating = userParticipatingEventIds.has(event.id)
               const isInvolved = isOptedIn || isParticipating
+              const isFull = event.spotsRemaining === 0
               
               return (
                 <Card key={event.id} className="p-4">
-                  <div className="flex items-center justify-between">
+                  <div className="flex items-center justify-between gap-4">
+                    {event.coverImageUrl && (
+                      <img src={event.coverImageUrl} alt="" className="hidden sm:block h-16 w-24 shrink-0 rounded-md object-cover" />
+                    )}
                                          <div className="flex-1">
-                       <div className="flex items-center gap-4">
+                       <div className="flex items-center gap-2 mb-1">
+                         <h3 className="font-semibold text-gray-900">{event.title}</h3>
+                         {event.theme && (
+                           <span className="px-2 py-0.5 bg-red-50 text-red-700 rounded-full text-xs font-medium">{event.theme}</span>
+                         )}
+                       </div>
+                       {event.description && (
+                         <p className="text-sm text-gray-600 mb-1 line-clamp-2">{event.description}</p>
+                       )}
+                       <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
                          <span className="text-sm text-gray-600">
                            {formatEventDate(event.date)} • {formatEventTime(event.startTime, event.endTime)}
+                           {event.neighbourhood && ` • ${event.neighbourhood}`}
                          </span>
+                         {event.maxParticipants !== null && !isInvolved && (
+                           <span className="text-sm text-gray-500">
+                             {isFull ? 'Full' : `${event.spotsRemaining} of ${event.maxParticipants} spots left`}
+                           </span>
+                         )}
                          {isInvolved && (
                            <div className="flex items-center gap-2 text-green-600">
                              <CheckCircleIcon className="w-4 h-4" />
@@ -261,16 +311,28 @@ export default function Events() {
                     <div className="flex gap-2">
                       {isInvolved ? (
                         <>
-                          <Button
-                            variant="outline"
-                            onClick={() => handleOptOut(event.id)}
-                            disabled={optOutMutation.isPending}
-                            className="text-sm px-3 py-1"
-                          >
-                            <XCircleIcon className="w-4 h-4 mr-1" />
-                            Opt Out
-                          </Button>
-                          {event.matchingStatus === 'closed' && isParticipating && (
+                          {event.matchingStatus === 'matched' && isParticipating ? (
+                            <Button
+                              variant="outline"
+                              onClick={() => handleWithdraw(event.id)}
+                              disabled={withdrawMutation.isPending}
+                              className="text-sm px-3 py-1"
+                            >
+                              <XCircleIcon className="w-4 h-4 mr-1" />
+                              Can't Make It
+                            </Button>
+                          ) : event.matchingStatus === 'open' && (
+                            <Button
+                              variant="outline"
+                              onClick={() => handleOptOut(event.id)}
+                              disabled={optOutMutation.isPending}
+                              className="text-sm px-3 py-1"
+                            >
+                              <XCircleIcon className="w-4 h-4 mr-1" />
+                              Opt Out
+                            </Button>
+                          )}
+                          {(event.matchingStatus === 'matched' || event.matchingStatus === 'in_progress') && isParticipating && (
                             <Button
                               variant="outline"
                               onClick={() => getMatchingStatus(event.id)}
@@ -283,7 +345,7 @@ export default function Events() {
                       ) : (
                         <Button
                           onClick={() => handleOptIn(event)}
-                          disabled={event.matchingStatus !== 'open'}
+                          disabled={event.matchingStatus !== 'open' || isFull}
                           className={optedInEvents.has(event.id) 
                             ? "bg-green-600 hover:bg-green-700" 
                             : "bg-red-600 hover:bg-red-700"
@@ -0,0 +1,145 @@
+import { useRoute, useLocation } from 'wouter'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { CalendarIcon, ClockIcon, EnvelopeIcon } from '@heroicons/react/24/outline'
+import { Card, Button } from '../components/ui'
+import { useAuth } from '../auth/AuthContext'
+import { invitationsApi } from '../lib/api'
+
+// Errors come back as the response body; show its message rather than the raw JSON
+function getErrorMessage(error: Error, fallback: string) {
+  try {
+    return JSON.parse(error.message).error || fallback
+  } catch {
+    return error.message || fallback
+  }
+}
+
+// Where a partner invitation link lands: accept with an account, or decline without one
+export default function PartnerInvitation() {
+  const [, params] = useRoute('/invitations/:token')
+  const [, setLocation] = useLocation()
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+  const token = params?.token ?? ''
+
+  const { data: invitation, isLoading, error } = useQuery({
+    queryKey: ['partner-invitation', token],
+    queryFn: () => invitationsApi.get(token),
+    enabled: !!token,
+    retry: false,
+  })
+
+  const acceptMutation = useMutation({
+    mutationFn: () => invitationsApi.accept(token),
+    onSuccess: (result) => {
+      toast.success(result.message)
+      setLocation('/circles')
+    },
+    onError: (error: Error) => {
+      toast.error(getErrorMessage(error, 'Failed to accept the invitation'))
+    },
+  })
+
+  const declineMutation = useMutation({
+    mutationFn: () => invitationsApi.decline(token),
+    onSuccess: (result) => {
+      toast.success(result.message)
+      queryClient.invalidateQueries({ queryKey: ['partner-invitation', token] })
+    },
+    onError: (error: Error) => {
+      toast.error(getErrorMessage(error, 'Failed to decline the invitation'))
+    },
+  })
+
+  if (isLoading) {
+    return (
+      <div className="container max-w-lg py-10 px-4">
+        <div className="h-48 bg-muted rounded animate-pulse" />
+      </div>
+    )
+  }
+
+  if (error || !invitation) {
+    return (
+      <div className="container max-w-lg py-10 px-4 text-center">
+        <p className="text-muted-foreground">This invitation link is not valid.</p>
+      </div>
+    )
+  }
+
+  const returnTo = `/invitations/${token}`
+  const isPending = invitation.status === 'pending'
+
+  return (
+    <div className="container max-w-lg py-10 px-4">
+      <Card>
+        <div className="p-6 space-y-5">
+          <div>
+            <h1 className="text-2xl font-bold">You're invited to dinner</h1>
+            <p className="text-muted-foreground mt-1">
+              {invitation.inviterName || 'Someone'} would like you to join them as their partner. You'll be matched into the same circle.
+            </p>
+          </div>
+
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center gap-2">
+              <CalendarIcon className="w-4 h-4 text-muted-foreground" />
+              {new Date(invitation.eventDate).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+            </div>
+            <div className="flex items-center gap-2">
+              <ClockIcon className="w-4 h-4 text-muted-foreground" />
+              {invitation.eventStartTime}
+            </div>
+            <div className="flex items-center gap-2">
+              <EnvelopeIcon className="w-4 h-4 text-muted-foreground" />
+              Sent to {invitation.inviteeEmail}
+            </div>
+          </div>
+
+          {isPending ? (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Answer by {new Date(invitation.expiresAt).toLocaleString()}. After that {invitation.inviterName || 'they'} will be matched on their own.
+              </p>
+              <div className="flex gap-3">
+                {user ? (
+                  <Button
+                    className="flex-1"
+                    disabled={acceptMutation.isPending || declineMutation.isPending}
+                    onClick={() => acceptMutation.mutate()}
+                  >
+                    Accept
+                  </Button>
+                ) : (
+                  <Button
+                    className="flex-1"
+                    onClick={() => (location.href = `/auth?form=signup&returnTo=${encodeURIComponent(returnTo)}`)}
+                  >
+                    Sign up to accept
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  disabled={acceptMutation.isPending || declineMutation.isPending}
+                  onClick={() => declineMutation.mutate()}
+                >
+                  Decline
+                </Button>
+              </div>
+              {!user && (
+                <p className="text-xs text-muted-foreground">
+                  Already have an account?{' '}
+                  <a className="underline" href={`/auth?returnTo=${encodeURIComponent(returnTo)}`}>Log in</a>
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm font-medium">This invitation has been {invitation.status}.</p>
+          )}
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -1,12 +1,16 @@
+import { useEffect } from 'react'
 import { Tabs, Card, Input, Label, Button } from '../components/ui'
 import PageHeader from '../components/PageHeader'
 import { useForm } from 'react-hook-form'
 import { z } from 'zod'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { api } from '../lib/api'
+import type { Profile as ProfileData } from '../lib/api'
 import { toast } from 'sonner'
 import { useLocation } from 'wouter'
 import AuthGuard from '../components/AuthGuard'
+import BlockList from '../components/BlockList'
+import HouseholdCard from '../components/HouseholdCard'
 
 const detailsSchema = z.object({
   name: z.string().min(2).max(200),
@@ -14,8 +18,49 @@ const detailsSchema = z.object({
   address: z.string().optional(),
   bio: z.string().optional(),
 })
+const dietaryNeedOptions = [
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'pescatarian', label: 'Pescatarian' },
+  { value: 'gluten_free', label: 'Gluten-free' },
+  { value: 'dairy_free', label: 'Dairy-free' },
+  { value: 'halal', label: 'Halal' },
+  { value: 'kosher', label: 'Kosher' },
+]
+const allergenOptions = [
+  { value: 'tree_nuts', label: 'Tree nuts' },
+  { value: 'peanuts', label: 'Peanuts' },
+  { value: 'shellfish', label: 'Shellfish' },
+  { value: 'fish', label: 'Fish' },
+  { value: 'eggs', label: 'Eggs' },
+  { value: 'dairy', label: 'Dairy' },
+  { value: 'gluten', label: 'Gluten' },
+  { value: 'soy', label: 'Soy' },
+  { value: 'sesame', label: 'Sesame' },
+]
+const venueNeedOptions = [
+  { value: 'step_free', label: 'Step-free access' },
+  { value: 'pet_free', label: 'No pets' },
+  { value: 'smoke_free', label: 'No smoking indoors' },
+]
+const courseOptions = [
+  { value: 'starter', label: 'Starter' },
+  { value: 'main', label: 'Main' },
+  { value: 'dessert', label: 'Dessert' },
+]
+
 const prefsSchema = z.object({
   dietaryRestrictions: z.string().optional(),
+  dietaryNeeds: z.array(z.string()),
+  allergySeverity: z.record(z.string(), z.enum(['', 'mild', 'severe'])),
+  cuisineCapabilities: z.array(z.string()),
+  allergenRisks: z.array(z.string()),
+  venueNeeds: z.array(z.string()),
+  venueMaxSeats: z.string().optional(),
+  venueHasPets: z.boolean(),
+  venueStepFree: z.boolean(),
+  venueSmokingPolicy: z.enum(['none', 'outdoors', 'indoors']),
+  venueSuitedCourses: z.array(z.string()),
   interests: z.string().optional(),
   personalityType: z.enum(['extrovert', 'introvert', 'ambivert']).optional(),
   preferredGroupSize: z.enum(['small', 'medium', 'large']).optional(),
@@ -25,22 +70,72 @@ export default function Profile() {
   const [location, setLocation] = useLocation()
   const isOnboarding = location.includes('onboarding=true')
   const detailsForm = useForm<z.infer<typeof detailsSchema>>({ resolver: zodResolver(detailsSchema) })
-  const prefsForm = useForm<z.infer<typeof prefsSchema>>({ resolver: zodResolver(prefsSchema) })
+  const prefsForm = useForm<z.infer<typeof prefsSchema>>({
+    resolver: zodResolver(prefsSchema),
+    defaultValues: {
+      dietaryNeeds: [],
+      allergySeverity: {},
+      cuisineCapabilities: [],
+      allergenRisks: [],
+      venueNeeds: [],
+      venueHasPets: false,
+      venueStepFree: false,
+      venueSmokingPolicy: 'none',
+      venueSuitedCourses: [],
+    },
+  })
 
-  async function load() {
-    try {
-      const data = await api<any>('/api/profile')
-      detailsForm.reset({ name: data.name ?? '', phone: data.phone ?? '', address: data.address ?? '', bio: data.bio ?? '' })
-      prefsForm.reset({
-        dietaryRestrictions: data.dietaryRestrictions ?? '',
-        interests: (data.interests ?? []).join(', '),
-        personalityType: data.personalityType ?? undefined,
-        preferredGroupSize: data.preferredGroupSize ?? undefined,
-      })
-    } catch {}
+  // Load once; the checkbox groups re-render on every toggle and must not be reset by a refetch
+  useEffect(() => {
+    async function load() {
+      try {
+        const data = await api<ProfileData>('/api/profile')
+        detailsForm.reset({ name: data.name ?? '', phone: data.phone ?? '', address: data.address ?? '', bio: data.bio ?? '' })
+        prefsForm.reset({
+          dietaryRestrictions: data.dietaryRestrictions ?? '',
+          dietaryNeeds: data.dietaryNeeds ?? [],
+          allergySeverity: Object.fromEntries((data.allergies ?? []).map(allergy => [allergy.allergen, allergy.severity])),
+          cuisineCapabilities: data.cuisineCapabilities ?? [],
+          allergenRisks: data.allergenRisks ?? [],
+          venueNeeds: data.venueNeeds ?? [],
+          venueMaxSeats: data.venueProfile?.maxSeats?.toString() ?? '',
+          venueHasPets: data.venueProfile?.hasPets ?? false,
+          venueStepFree: data.venueProfile?.stepFree ?? false,
+          venueSmokingPolicy: data.venueProfile?.smokingPolicy ?? 'none',
+          venueSuitedCourses: data.venueProfile?.suitedCourses ?? [],
+          interests: (data.interests ?? []).join(', '),
+          personalityType: data.personalityType ?? undefined,
+          preferredGroupSize: data.preferredGroupSize ?? undefined,
+        })
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to load your profile')
+      }
+    }
+
+    load()
+  }, [detailsForm, prefsForm])
+
+  type OptionField = 'dietaryNeeds' | 'cuisineCapabilities' | 'allergenRisks' | 'venueNeeds' | 'venueSuitedCourses'
+
+  const toggleOption = (field: OptionField, value: string) => {
+    const current = prefsForm.getValues(field) ?? []
+    prefsForm.setValue(field, current.includes(value) ? current.filter(v => v !== value) : [...current, value])
   }
 
-  load()
+  const renderCheckboxGroup = (field: OptionField, options: { value: string; label: string }[]) => (
+    <div className="flex flex-wrap gap-3 mt-1">
+      {options.map(option => (
+        <label key={option.value} className="flex items-center gap-1.5 text-sm">
+          <input
+            type="checkbox"
+            checked={(prefsForm.watch(field) ?? []).includes(option.value)}
+            onChange={() => toggleOption(field, option.value)}
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  )
 
   const saveDetails = detailsForm.handleSubmit(async (values) => {
     try {
@@ -59,6 +154,20 @@ export default function Profile() {
         method: 'PUT',
         body: JSON.stringify({
           dietaryRestrictions: values.dietaryRestrictions,
+          dietaryNeeds: values.dietaryNeeds,
+          allergies: Object.entries(values.allergySeverity)
+            .filter(([, severity]) => severity)
+            .map(([allergen, severity]) => ({ allergen, severity })),
+          cuisineCapabilities: values.cuisineCapabilities,
+          allergenRisks: values.allergenRisks,
+          venueNeeds: values.venueNeeds,
+          venueProfile: {
+            maxSeats: values.venueMaxSeats ? Number(values.venueMaxSeats) : null,
+            hasPets: values.venueHasPets,
+            stepFree: values.venueStepFree,
+            smokingPolicy: values.venueSmokingPolicy,
+            suitedCourses: values.venueSuitedCourses,
+          },
           interests: values.interests ? values.interests.split(',').map(s => s.trim()).filter(Boolean) : [],
           personalityType: values.personalityType,
           preferredGroupSize: values.preferredGroupSize,
@@ -82,6 +191,8 @@ export default function Profile() {
         <Tabs.List className="flex gap-2">
           <Tabs.Trigger className="btn btn-outline" value="details">Details</Tabs.Trigger>
           <Tabs.Trigger className="btn btn-outline" value="preferences">Preferences</Tabs.Trigger>
+          <Tabs.Trigger className="btn btn-outline" value="household">Household</Tabs.Trigger>
+          <Tabs.Trigger className="btn btn-outline" value="blocked">Blocked people</Tabs.Trigger>
         </Tabs.List>
         <Tabs.Content value="details">
           <Card>
@@ -111,9 +222,28 @@ export default function Profile() {
         <Tabs.Content value="preferences">
           <Card>
             <form onSubmit={savePrefs} className="grid md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <Label>Dietary needs</Label>
+                {renderCheckboxGroup('dietaryNeeds', dietaryNeedOptions)}
+              </div>
+              <div className="md:col-span-2">
+                <Label>Allergies</Label>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-1">
+                  {allergenOptions.map(option => (
+                    <div key={option.value} className="flex items-center justify-between gap-2 text-sm">
+                      <span>{option.label}</span>
+                      <select {...prefsForm.register(`allergySeverity.${option.value}`)} className="px-2 py-1 border rounded-md">
+                        <option value="">None</option>
+                        <option value="mild">Mild</option>
+                        <option value="severe">Severe</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
               <div>
-                <Label>Dietary restrictions</Label>
-                <Input placeholder="e.g. vegetarian, nut allergy" {...prefsForm.register('dietaryRestrictions')} />
+                <Label>Dietary notes</Label>
+                <Input placeholder="Anything else hosts should know" {...prefsForm.register('dietaryRestrictions')} />
               </div>
               <div>
                 <Label>Interests</Label>
@@ -127,12 +257,60 @@ export default function Profile() {
                 <Label>Preferred group size</Label>
                 <Input placeholder="small / medium / large" {...prefsForm.register('preferredGroupSize')} />
               </div>
+              <div className="md:col-span-2">
+                <Label>When hosting, I can cook</Label>
+                {renderCheckboxGroup('cuisineCapabilities', dietaryNeedOptions)}
+              </div>
+              <div className="md:col-span-2">
+                <Label>When hosting, I can't guarantee my kitchen is free of</Label>
+                {renderCheckboxGroup('allergenRisks', allergenOptions)}
+              </div>
+              <div className="md:col-span-2">
+                <Label>As a guest, I need a venue with</Label>
+                {renderCheckboxGroup('venueNeeds', venueNeedOptions)}
+              </div>
+              <div>
+                <Label>When hosting, I can seat (including myself)</Label>
+                <Input type="number" min={2} placeholder="No limit" {...prefsForm.register('venueMaxSeats')} />
+              </div>
+              <div>
+                <Label>Smoking at my place</Label>
+                <select {...prefsForm.register('venueSmokingPolicy')} className="w-full px-3 py-2 border rounded-md">
+                  <option value="none">Nobody smokes</option>
+                  <option value="outdoors">Outdoors only</option>
+                  <option value="indoors">Indoors</option>
+                </select>
+              </div>
+              <div className="md:col-span-2 flex flex-wrap gap-4 text-sm">
+                <label className="flex items-center gap-1.5">
+                  <input type="checkbox" {...prefsForm.register('venueStepFree')} />
+                  My place has step-free access
+                </label>
+                <label className="flex items-center gap-1.5">
+                  <input type="checkbox" {...prefsForm.register('venueHasPets')} />
+                  There are pets at my place
+                </label>
+              </div>
+              <div className="md:col-span-2">
+                <Label>My kitchen is best suited to</Label>
+                {renderCheckboxGroup('venueSuitedCourses', courseOptions)}
+              </div>
               <div className="md:col-span-2 flex justify-end">
                 <Button type="submit">Save preferences</Button>
               </div>
             </form>
           </Card>
         </Tabs.Content>
+        <Tabs.Content value="household">
+          <Card>
+            <HouseholdCard />
+          </Card>
+        </Tabs.Content>
+        <Tabs.Content value="blocked">
+          <Card>
+            <BlockList />
+          </Card>
+        </Tabs.Content>
       </Tabs.Root>
         </div>
       </div>
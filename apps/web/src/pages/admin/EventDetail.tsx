@@ -1,11 +1,16 @@
 import { useState } from 'react'
 import { Card, Button, Input, Label, Dialog } from '../../components/ui'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { api } from '../../lib/api'
+import { api, matchingApi, eventStatusLabels } from '../../lib/api'
+import type { EventStatus, EventStatusChange } from '../../lib/api'
 import { toast } from 'sonner'
 import AdminGuard from '../../components/AdminGuard'
+import MatchingPreviewPanel from '../../components/MatchingPreviewPanel'
+import MatchingReportCard from '../../components/MatchingReportCard'
+import CircleEditor from '../../components/CircleEditor'
+import EventStatusCard from '../../components/EventStatusCard'
 import { useLocation, useRoute } from 'wouter'
-import { ArrowLeftIcon, CheckIcon, CalendarIcon, ClockIcon, UsersIcon, MapPinIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { ArrowLeftIcon, ArrowPathIcon, CheckIcon, CalendarIcon, ClockIcon, UsersIcon, MapPinIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline'
 import { useForm } from 'react-hook-form'
 import { z } from 'zod'
 import { zodResolver } from '@hookform/resolvers/zod'
@@ -13,17 +18,25 @@ import { zodResolver } from '@hookform/resolvers/zod'
 interface EventDetail {
   id: number
   title: string
-  description: string
+  description: string | null
+  theme: string | null
+  coverImageUrl: string | null
   date: string
   startTime: string
   endTime: string
-  totalSpots: number
-  spotsRemaining: number
+  maxParticipants: number | null
+  spotsRemaining: number | null
   format: string
-  neighbourhood: string
+  neighbourhoodId: number | null
+  neighbourhood: string | null
   createdAt: string
-  updatedAt: string
-  participants: Array<{
+  matchingStatus: EventStatus
+  rewardsAwardedAt: string | null
+  statusHistory: EventStatusChange[]
+  matchingCompletedAt: string | null
+  matchingStrategy: string
+  matchingStrategyParams: Record<string, number> | null
+  optIns: Array<{
     id: number
     userId: number
     user: {
@@ -37,9 +50,25 @@ interface EventDetail {
       username: string
       email: string
     }
-    coursePreference?: string
+    matchAddress: string | null
+    hostingAvailable: boolean
+    waitlistedAt: string | null
     createdAt: string
   }>
+  circles: Array<{
+    id: number
+    name: string
+    format: string
+    compatibilityScore: number | null
+    members: Array<{
+      id: number
+      userId: number
+      role: string
+      user: {
+        name: string | null
+      }
+    }>
+  }>
 }
 
 interface Neighbourhood {
@@ -51,14 +80,15 @@ interface Neighbourhood {
 }
 
 const eventSchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().min(1, 'Description is required'),
-  neighbourhoodId: z.number().min(1, 'Neighbourhood is required'),
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().trim().max(5000),
+  theme: z.string().trim().max(100),
+  coverImageUrl: z.string().trim().url('Enter a full image URL').or(z.literal('')),
+  neighbourhoodId: z.number().int().positive().nullable(),
   date: z.string().min(1, 'Date is required'),
   startTime: z.string().min(1, 'Start time is required'),
   endTime: z.string().min(1, 'End time is required'),
-  totalSpots: z.number().min(1, 'Total spots must be at least 1'),
-  format: z.enum(['rotating', 'hosted']),
+  maxParticipants: z.number().int().min(2, 'Allow at least 2 participants').nullable(),
 })
 
 export default function AdminEventDetail() {
@@ -67,6 +97,9 @@ export default function AdminEventDetail() {
   const queryClient = useQueryClient()
   const [isPencilIconing, setIsPencilIconing] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+  const [isResetDialogOpen, setIsResetDialogOpen] = useState(false)
+  const [resetReason, setResetReason] = useState('')
+  const [placementCircleIds, setPlacementCircleIds] = useState<Record<number, number>>({})
 
   // Extract event ID from URL params
   const eventId = params?.id
@@ -77,6 +110,12 @@ export default function AdminEventDetail() {
     enabled: !!eventId,
   })
 
+  const { data: waitlistData } = useQuery({
+    queryKey: ['admin-event-waitlist', eventId],
+    queryFn: () => matchingApi.getWaitlist(Number(eventId)),
+    enabled: !!eventId,
+  })
+
   const { data: neighbourhoods } = useQuery({
     queryKey: ['admin-neighbourhoods'],
     queryFn: () => api<Neighbourhood[]>('/api/admin/neighbourhoods'),
@@ -84,7 +123,16 @@ export default function AdminEventDetail() {
 
   const updateEventMutation = useMutation({
     mutationFn: (data: z.infer<typeof eventSchema>) =>
-      api(`/api/admin/events/${eventId}`, { method: 'PUT', body: JSON.stringify(data) }),
+      api(`/api/admin/events/${eventId}`, {
+        method: 'PUT',
+        // Blank optional text is stored as no value
+        body: JSON.stringify({
+          ...data,
+          description: data.description || null,
+          theme: data.theme || null,
+          coverImageUrl: data.coverImageUrl || null,
+        }),
+      }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['admin-event-detail', eventId] })
       queryClient.invalidateQueries({ queryKey: ['admin-events'] })
@@ -108,6 +156,34 @@ export default function AdminEventDetail() {
     },
   })
 
+  const resetMatchingMutation = useMutation({
+    mutationFn: () => matchingApi.resetMatching(Number(eventId), resetReason.trim()),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-event-detail', eventId] })
+      queryClient.invalidateQueries({ queryKey: ['admin-event-waitlist', eventId] })
+      queryClient.invalidateQueries({ queryKey: ['admin-events'] })
+      setIsResetDialogOpen(false)
+      setResetReason('')
+      toast.success(`Matching reset, ${data.circlesRemoved} circle(s) removed`)
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to reset matching')
+    },
+  })
+
+  const placeWaitlistedUserMutation = useMutation({
+    mutationFn: ({ userId, circleId }: { userId: number; circleId: number }) =>
+      matchingApi.placeWaitlistedUser(Number(eventId), userId, circleId),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-event-detail', eventId] })
+      queryClient.invalidateQueries({ queryKey: ['admin-event-waitlist', eventId] })
+      toast.success(`Placed in ${data.circle.name}`)
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to place user')
+    },
+  })
+
   const handleDeleteEvent = () => {
     deleteEventMutation.mutate()
   }
@@ -199,11 +275,22 @@ export default function AdminEventDetail() {
                     />
                   ) : (
                     <div className="space-y-4">
+                      {event.coverImageUrl && (
+                        <img src={event.coverImageUrl} alt="" className="h-40 w-full rounded-md object-cover" />
+                      )}
+
                       <div>
                         <label className="text-sm font-medium text-muted-foreground">Description</label>
-                        <p className="text-base mt-1">{event.description}</p>
+                        <p className="text-base mt-1">{event.description || 'No description'}</p>
                       </div>
 
+                      {event.theme && (
+                        <div>
+                          <label className="text-sm font-medium text-muted-foreground">Theme</label>
+                          <p className="text-base font-medium mt-1">{event.theme}</p>
+                        </div>
+                      )}
+
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <div>
                           <label className="text-sm font-medium text-muted-foreground flex items-center gap-1">
@@ -227,7 +314,9 @@ export default function AdminEventDetail() {
                             <UsersIcon className="w-4 h-4" />
                             Spots
                           </label>
-                          <p className="text-base font-medium mt-1">{event.spotsRemaining}/{event.totalSpots}</p>
+                          <p className="text-base font-medium mt-1">
+                            {event.maxParticipants === null ? 'No limit' : `${event.spotsRemaining}/${event.maxParticipants}`}
+                          </p>
                         </div>
                         <div>
                           <label className="text-sm font-medium text-muted-foreground">Format</label>
@@ -240,7 +329,7 @@ export default function AdminEventDetail() {
                           <MapPinIcon className="w-4 h-4" />
                           Neighbourhood
                         </label>
-                        <p className="text-base font-medium mt-1">{event.neighbourhood}</p>
+                        <p className="text-base font-medium mt-1">{event.neighbourhood || 'Any neighbourhood'}</p>
                       </div>
 
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -249,8 +338,19 @@ export default function AdminEventDetail() {
                           <p className="text-sm mt-1">{new Date(event.createdAt).toLocaleDateString()}</p>
                         </div>
                         <div>
-                          <label className="text-sm font-medium text-muted-foreground">Last Updated</label>
-                          <p className="text-sm mt-1">{new Date(event.updatedAt).toLocaleDateString()}</p>
+                          <label className="text-sm font-medium text-muted-foreground">Status</label>
+                          <p className="text-sm mt-1">{eventStatusLabels[event.matchingStatus]}</p>
+                        </div>
+                        <div>
+                          <label className="text-sm font-medium text-muted-foreground">Strategy</label>
+                          <p className="text-sm mt-1 capitalize">
+                            {event.matchingStrategy}
+                            {event.matchingStrategyParams && Object.keys(event.matchingStrategyParams).length > 0 && (
+                              <span className="text-muted-foreground normal-case">
+                                {' '}({Object.entries(event.matchingStrategyParams).map(([key, value]) => `${key}: ${value}`).join(', ')})
+                              </span>
+                            )}
+                          </p>
                         </div>
                       </div>
                     </div>
@@ -258,14 +358,118 @@ export default function AdminEventDetail() {
                 </div>
               </Card>
 
+              <EventStatusCard
+                eventId={event.id}
+                status={event.matchingStatus}
+                history={event.statusHistory}
+                rewardsAwardedAt={event.rewardsAwardedAt}
+              />
+
+              {/* Matching */}
+              {event.matchingStatus === 'open' && event.circles.length === 0 && (
+                <MatchingPreviewPanel
+                  eventId={event.id}
+                  eventStrategy={event.matchingStrategy}
+                  onCommitted={() => {
+                    queryClient.invalidateQueries({ queryKey: ['admin-event-detail', eventId] })
+                    queryClient.invalidateQueries({ queryKey: ['admin-event-waitlist', eventId] })
+                  }}
+                />
+              )}
+
+              {event.circles.length > 0 && <MatchingReportCard eventId={Number(eventId)} />}
+
+              {/* Circles */}
+              {(event.circles.length > 0 || event.matchingStatus === 'matching') && (
+                <Card>
+                  <div className="p-4 sm:p-6 space-y-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <h2 className="text-lg sm:text-xl font-semibold">Circles ({event.circles.length})</h2>
+                      {(event.matchingStatus === 'matching' || event.matchingStatus === 'matched') && (
+                        <Button
+                          variant="outline"
+                          onClick={() => setIsResetDialogOpen(true)}
+                          className="flex items-center gap-2"
+                        >
+                          <ArrowPathIcon className="w-4 h-4" />
+                          Reset Matching
+                        </Button>
+                      )}
+                    </div>
+                    {event.matchingStatus === 'matched' ? (
+                      <CircleEditor
+                        eventId={Number(eventId)}
+                        circles={event.circles}
+                        unplaced={event.optIns
+                          .filter(optIn => !optIn.waitlistedAt && !event.circles.some(circle =>
+                            circle.members.some(member => member.userId === optIn.userId)
+                          ))
+                          .map(optIn => ({ userId: optIn.userId, name: optIn.user.name }))}
+                        onChanged={() => {
+                          queryClient.invalidateQueries({ queryKey: ['admin-event-detail', eventId] })
+                          queryClient.invalidateQueries({ queryKey: ['admin-matching-report', Number(eventId)] })
+                        }}
+                      />
+                    ) : (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {event.circles.map((circle) => (
+                          <div key={circle.id} className="border rounded-lg p-4 flex items-center justify-between">
+                            <div className="font-medium">{circle.name}</div>
+                            <div className="text-sm text-muted-foreground capitalize">
+                              {circle.format} · {circle.members.length} members
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {waitlistData && waitlistData.waitlist.length > 0 && (
+                      <div className="space-y-3 pt-2">
+                        <h3 className="font-semibold">Waitlist ({waitlistData.waitlist.length})</h3>
+                        {waitlistData.waitlist.map((waitlisted) => (
+                          <div key={waitlisted.userId} className="border rounded-lg p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                            <div className="min-w-0 flex-1">
+                              <div className="font-medium">{waitlisted.name || `User ${waitlisted.userId}`}</div>
+                              <div className="text-sm text-muted-foreground">{waitlisted.email}</div>
+                            </div>
+                            <select
+                              value={placementCircleIds[waitlisted.userId] ?? ''}
+                              onChange={(e) => setPlacementCircleIds(prev => ({ ...prev, [waitlisted.userId]: Number(e.target.value) }))}
+                              className="px-3 py-2 border rounded-md text-sm"
+                            >
+                              <option value="">Select a circle</option>
+                              {event.circles.filter(circle => circle.format === 'hosted').map((circle) => (
+                                <option key={circle.id} value={circle.id}>
+                                  {circle.name} ({circle.members.length})
+                                </option>
+                              ))}
+                            </select>
+                            <Button
+                              variant="outline"
+                              disabled={!placementCircleIds[waitlisted.userId] || placeWaitlistedUserMutation.isPending}
+                              onClick={() => placeWaitlistedUserMutation.mutate({
+                                userId: waitlisted.userId,
+                                circleId: placementCircleIds[waitlisted.userId],
+                              })}
+                            >
+                              Place
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </Card>
+              )}
+
               {/* Participants */}
               <Card>
                 <div className="p-4 sm:p-6 space-y-4">
-                  <h2 className="text-lg sm:text-xl font-semibold">Participants ({event.participants.length})</h2>
+                  <h2 className="text-lg sm:text-xl font-semibold">Participants ({event.optIns.length})</h2>
                   
-                  {event.participants.length > 0 ? (
+                  {event.optIns.length > 0 ? (
                     <div className="space-y-3">
-                      {event.participants.map((participant) => (
+                      {event.optIns.map((participant) => (
                         <div key={participant.id} className="border rounded-lg p-4 space-y-2">
                           <div className="flex items-start justify-between">
                             <div className="min-w-0 flex-1">
@@ -284,12 +488,20 @@ export default function AdminEventDetail() {
                             </div>
                           )}
                           
-                          {participant.coursePreference && (
+                          {participant.matchAddress && (
                             <div className="text-sm">
-                              <span className="text-muted-foreground">Course Preference: </span>
-                              <span className="font-medium">{participant.coursePreference}</span>
+                              <span className="text-muted-foreground">Address: </span>
+                              <span className="font-medium">{participant.matchAddress}</span>
                             </div>
                           )}
+
+                          {participant.waitlistedAt && (
+                            <div className="text-sm text-orange-700">Waitlisted</div>
+                          )}
+
+                          {participant.hostingAvailable && (
+                            <div className="text-sm text-muted-foreground">Available to host</div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -310,23 +522,27 @@ export default function AdminEventDetail() {
                   <h3 className="font-semibold">Event Statistics</h3>
                   <div className="space-y-3">
                     <div className="flex justify-between items-center">
-                      <span className="text-sm text-muted-foreground">Total Spots</span>
-                      <span className="font-medium">{event.totalSpots}</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-muted-foreground">Spots Remaining</span>
-                      <span className="font-medium">{event.spotsRemaining}</span>
+                      <span className="text-sm text-muted-foreground">Max Participants</span>
+                      <span className="font-medium">{event.maxParticipants ?? 'No limit'}</span>
                     </div>
                     <div className="flex justify-between items-center">
                       <span className="text-sm text-muted-foreground">Participants</span>
-                      <span className="font-medium">{event.participants.length}</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-muted-foreground">Fill Rate</span>
-                      <span className="font-medium">
-                        {Math.round(((event.totalSpots - event.spotsRemaining) / event.totalSpots) * 100)}%
-                      </span>
+                      <span className="font-medium">{event.optIns.length}</span>
                     </div>
+                    {event.maxParticipants !== null && (
+                      <>
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-muted-foreground">Spots Remaining</span>
+                          <span className="font-medium">{event.spotsRemaining}</span>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-muted-foreground">Fill Rate</span>
+                          <span className="font-medium">
+                            {Math.round((event.optIns.length / event.maxParticipants) * 100)}%
+                          </span>
+                        </div>
+                      </>
+                    )}
                   </div>
                 </div>
               </Card>
@@ -351,6 +567,40 @@ export default function AdminEventDetail() {
           </div>
         )}
 
+        {/* Reset Matching Dialog */}
+        <Dialog.Root open={isResetDialogOpen} onOpenChange={setIsResetDialogOpen}>
+          <Dialog.Content className="max-w-md mx-4">
+            <Dialog.Title>Reset Matching</Dialog.Title>
+            <Dialog.Description>
+              This removes all circles and circle chat for "{event?.title}" and reopens the event for matching. Opt-ins are kept.
+            </Dialog.Description>
+            <div className="pt-4">
+              <Label>Reason</Label>
+              <Input
+                value={resetReason}
+                onChange={(e) => setResetReason(e.target.value)}
+                placeholder="e.g. Late opt-ins need to be matched"
+              />
+            </div>
+            <div className="flex gap-2 pt-4">
+              <Button 
+                variant="outline" 
+                onClick={() => setIsResetDialogOpen(false)}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button 
+                onClick={() => resetMatchingMutation.mutate()}
+                disabled={!resetReason.trim() || resetMatchingMutation.isPending}
+                className="flex-1"
+              >
+                {resetMatchingMutation.isPending ? 'Resetting...' : 'Reset Matching'}
+              </Button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Root>
+
         {/* Delete Confirmation Dialog */}
         <Dialog.Root open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
           <Dialog.Content className="max-w-md mx-4">
@@ -398,13 +648,14 @@ function PencilIconEventForm({
     resolver: zodResolver(eventSchema),
     defaultValues: {
       title: event.title,
-      description: event.description,
+      description: event.description ?? '',
+      theme: event.theme ?? '',
+      coverImageUrl: event.coverImageUrl ?? '',
       date: event.date,
       startTime: event.startTime,
       endTime: event.endTime,
-      totalSpots: event.totalSpots,
-      format: event.format as 'rotating' | 'hosted',
-      neighbourhoodId: neighbourhoods.find(n => n.name === event.neighbourhood)?.id || 0,
+      maxParticipants: event.maxParticipants,
+      neighbourhoodId: event.neighbourhoodId,
     },
   })
 
@@ -436,10 +687,15 @@ function PencilIconEventForm({
         </div>
 
         <div>
-          <Label>Total Spots</Label>
-          <Input type="number" {...form.register('totalSpots', { valueAsNumber: true })} />
-          {form.formState.errors.totalSpots && (
-            <p className="text-red-600 text-sm mt-1">{form.formState.errors.totalSpots.message}</p>
+          <Label>Max Participants</Label>
+          <Input
+            type="number"
+            min={2}
+            placeholder="No limit"
+            {...form.register('maxParticipants', { setValueAs: (value: string) => (value === '' ? null : Number(value)) })}
+          />
+          {form.formState.errors.maxParticipants && (
+            <p className="text-red-600 text-sm mt-1">{form.formState.errors.maxParticipants.message}</p>
           )}
         </div>
       </div>
@@ -462,24 +718,31 @@ function PencilIconEventForm({
         </div>
       </div>
 
-      <div>
-        <Label>Format</Label>
-        <select {...form.register('format')} className="w-full px-3 py-2 border rounded-md">
-          <option value="rotating">Rotating</option>
-          <option value="hosted">Hosted</option>
-        </select>
-        {form.formState.errors.format && (
-          <p className="text-red-600 text-sm mt-1">{form.formState.errors.format.message}</p>
-        )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label>Theme</Label>
+          <Input placeholder="e.g. Diwali potluck" {...form.register('theme')} />
+          {form.formState.errors.theme && (
+            <p className="text-red-600 text-sm mt-1">{form.formState.errors.theme.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label>Cover Image URL</Label>
+          <Input type="url" placeholder="https://" {...form.register('coverImageUrl')} />
+          {form.formState.errors.coverImageUrl && (
+            <p className="text-red-600 text-sm mt-1">{form.formState.errors.coverImageUrl.message}</p>
+          )}
+        </div>
       </div>
 
       <div>
         <Label>Neighbourhood</Label>
         <select 
-          {...form.register('neighbourhoodId', { valueAsNumber: true })} 
+          {...form.register('neighbourhoodId', { setValueAs: (value: string) => (value === '' ? null : Number(value)) })} 
           className="w-full px-3 py-2 border rounded-md"
         >
-          <option value="">Select a neighbourhood</option>
+          <option value="">Any neighbourhood</option>
           {neighbourhoods?.map((neighbourhood) => (
             <option key={neighbourhood.id} value={neighbourhood.id}>
               {neighbourhood.name}
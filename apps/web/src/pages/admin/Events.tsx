@@ -1,9 +1,12 @@
 import { useState } from 'react'
 import { Card, Button, Input, Label, Dialog } from '../../components/ui'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { api, matchingApi } from '../../lib/api'
+import { api, matchingApi, seriesApi, eventStatusLabels } from '../../lib/api'
+import type { EventStatus, Pagination } from '../../lib/api'
 import { toast } from 'sonner'
 import AdminGuard from '../../components/AdminGuard'
+import MatchingScheduleCard from '../../components/MatchingScheduleCard'
+import EventSeriesCard from '../../components/EventSeriesCard'
 import { useLocation } from 'wouter'
 import { useForm } from 'react-hook-form'
 import { z } from 'zod'
@@ -16,47 +19,112 @@ import {
 
 interface Event {
   id: number
+  title: string
+  description: string | null
+  theme: string | null
+  neighbourhoodId: number | null
+  neighbourhood: string | null
+  maxParticipants: number | null
+  coverImageUrl: string | null
   date: string
   startTime: string
   endTime: string
-  matchingStatus: string
+  matchingStatus: EventStatus
   matchingTriggeredAt: string | null
   matchingCompletedAt: string | null
+  matchingStrategy: 'optimizer' | 'greedy' | 'random'
+  minCircleSize: number
+  maxCircleSize: number
+  circleFormats: 'mixed' | 'rotating_only' | 'hosted_only'
+  minOptIns: number
+  seriesId: number | null
+  seriesDetached: boolean
+  cancelledAt: string | null
   createdAt: string
   optInCount: number
   circleCount: number
 }
 
-// Neighbourhood interface removed - no longer needed for simplified event creation
+interface Neighbourhood {
+  id: number
+  name: string
+}
 
 const eventSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().trim().max(5000),
+  theme: z.string().trim().max(100),
+  neighbourhoodId: z.number().int().positive().nullable(),
+  maxParticipants: z.number().int().min(2, 'Allow at least 2 participants').nullable(),
+  coverImageUrl: z.string().trim().url('Enter a full image URL').or(z.literal('')),
   date: z.string().min(1, 'Date is required'),
   startTime: z.string().min(1, 'Start time is required'),
   endTime: z.string().min(1, 'End time is required'),
 })
 
+type EventFormValues = z.infer<typeof eventSchema>
+
+// Blank optional text is stored as no value
+const toEventRequest = (values: EventFormValues) => ({
+  ...values,
+  description: values.description || null,
+  theme: values.theme || null,
+  coverImageUrl: values.coverImageUrl || null,
+})
+
+// Empty number inputs mean no value rather than NaN
+const toNullableNumber = (value: string) => (value === '' ? null : Number(value))
+
+const matchingSettingsSchema = z.object({
+  minCircleSize: z.number().int().min(2).max(20),
+  maxCircleSize: z.number().int().min(2).max(20),
+  circleFormats: z.enum(['mixed', 'rotating_only', 'hosted_only']),
+  minOptIns: z.number().int().min(2),
+  matchingStrategy: z.enum(['optimizer', 'greedy', 'random']),
+}).refine(values => values.minCircleSize <= values.maxCircleSize, {
+  message: 'Maximum must be at least the minimum',
+  path: ['maxCircleSize'],
+})
+
+// Statuses an admin can still cancel from; the lifecycle refuses the rest
+const cancellableStatuses: EventStatus[] = ['draft', 'open', 'matched']
+
+const circleFormatLabels: Record<Event['circleFormats'], string> = {
+  mixed: 'Rotating and hosted',
+  rotating_only: 'Rotating only',
+  hosted_only: 'Hosted only',
+}
+
 export default function AdminEvents() {
   const [, setLocation] = useLocation()
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [isMatchingDialogOpen, setIsMatchingDialogOpen] = useState(false)
   const [selectedEventForMatching, setSelectedEventForMatching] = useState<Event | null>(null)
+  const [selectedEventForSettings, setSelectedEventForSettings] = useState<Event | null>(null)
+  const [selectedEventForEdit, setSelectedEventForEdit] = useState<Event | null>(null)
   const [page, setPage] = useState(1)
+  const [statusFilter, setStatusFilter] = useState<EventStatus | ''>('')
   const queryClient = useQueryClient()
 
   const { data, isLoading, error } = useQuery({
-    queryKey: ['admin-events', page],
-    queryFn: () => api<{ events: Event[], pagination: any }>(`/api/admin/events?page=${page}`),
+    queryKey: ['admin-events', page, statusFilter],
+    queryFn: () => api<{ events: Event[], pagination: Pagination }>(
+      `/api/admin/events?page=${page}${statusFilter ? `&status=${statusFilter}` : ''}`
+    ),
   })
 
-  // No longer need neighbourhoods for simplified event creation
+  const { data: neighbourhoods = [] } = useQuery({
+    queryKey: ['admin-neighbourhoods'],
+    queryFn: () => api<Neighbourhood[]>('/api/admin/neighbourhoods'),
+  })
 
   const createEventMutation = useMutation({
-    mutationFn: (data: z.infer<typeof eventSchema>) =>
-      api('/api/admin/events', { method: 'POST', body: JSON.stringify(data) }),
-    onSuccess: () => {
+    mutationFn: ({ data, status }: { data: EventFormValues; status: EventStatus }) =>
+      api('/api/admin/events', { method: 'POST', body: JSON.stringify({ ...toEventRequest(data), status }) }),
+    onSuccess: (_, { status }) => {
       queryClient.invalidateQueries({ queryKey: ['admin-events'] })
       setIsCreateDialogOpen(false)
-      toast.success('Event created successfully')
+      toast.success(status === 'draft' ? 'Draft saved; publish it when it is ready' : 'Event created successfully')
     },
     onError: (error: any) => {
       toast.error(error?.message || 'Failed to create event')
@@ -75,6 +143,44 @@ export default function AdminEvents() {
     },
   })
 
+  const cancelEventMutation = useMutation({
+    mutationFn: ({ eventId, reason }: { eventId: number; reason?: string }) => seriesApi.cancelEvent(eventId, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-events'] })
+      queryClient.invalidateQueries({ queryKey: ['admin-series'] })
+      toast.success('Event cancelled and everyone with a seat notified')
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to cancel event')
+    },
+  })
+
+  const updateEventMutation = useMutation({
+    mutationFn: ({ eventId, data }: { eventId: number; data: EventFormValues }) =>
+      api(`/api/admin/events/${eventId}`, { method: 'PUT', body: JSON.stringify(toEventRequest(data)) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-events'] })
+      setSelectedEventForEdit(null)
+      toast.success('Event updated successfully')
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to update event')
+    },
+  })
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: ({ eventId, settings }: { eventId: number; settings: z.infer<typeof matchingSettingsSchema> }) =>
+      api(`/api/admin/events/${eventId}`, { method: 'PUT', body: JSON.stringify(settings) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-events'] })
+      setSelectedEventForSettings(null)
+      toast.success('Matching settings saved')
+    },
+    onError: (error: Error) => {
+      toast.error(error?.message || 'Failed to save matching settings')
+    },
+  })
+
   const triggerMatchingMutation = useMutation({
     mutationFn: (eventId: number) => matchingApi.triggerMatching(eventId),
     onSuccess: () => {
@@ -120,6 +226,14 @@ export default function AdminEvents() {
     }
   }
 
+  // Cancelling keeps the event, so a series won't generate it again
+  const handleCancelEvent = (eventId: number) => {
+    const reason = prompt('Cancel this event? Everyone with a seat will be told. Add a reason for them (optional):')
+    if (reason !== null) {
+      cancelEventMutation.mutate({ eventId, reason: reason.trim() || undefined })
+    }
+  }
+
   if (error) {
     return <div className="container py-10">Error loading events: {error.message}</div>
   }
@@ -154,6 +268,9 @@ export default function AdminEvents() {
                     <h2 className="text-lg font-semibold text-blue-900">Next Upcoming Event</h2>
                   </div>
                   <div className="space-y-2 text-sm">
+                    <div className="font-semibold text-blue-900">
+                      {nextEvent.title}{nextEvent.theme && ` · ${nextEvent.theme}`}
+                    </div>
                     <div className="flex items-center gap-4">
                       <span className="font-medium">
                         {new Date(nextEvent.date).toLocaleDateString('en-US', {
@@ -168,24 +285,25 @@ export default function AdminEvents() {
                       </span>
                     </div>
                     <div className="flex items-center gap-4 text-blue-700">
-                      <span>Opt-ins: {nextEvent.optInCount}</span>
-                      <span>Status: {nextEvent.matchingStatus}</span>
+                      <span>Opt-ins: {nextEvent.optInCount}{nextEvent.maxParticipants !== null && ` of ${nextEvent.maxParticipants}`}</span>
+                      <span>Status: {eventStatusLabels[nextEvent.matchingStatus]}</span>
+                      <span>Circles of {nextEvent.minCircleSize}-{nextEvent.maxCircleSize}, {circleFormatLabels[nextEvent.circleFormats].toLowerCase()}</span>
                     </div>
                   </div>
                 </div>
                 <div className="flex flex-col gap-2">
                   <Button
                     onClick={() => handleTriggerMatching(nextEvent)}
-                    disabled={nextEvent.optInCount < 6 || triggerMatchingMutation.isPending}
+                    disabled={nextEvent.optInCount < nextEvent.minOptIns || triggerMatchingMutation.isPending}
                     className="bg-blue-600 hover:bg-blue-700 text-white"
                   >
                     <PlayIcon className="w-4 h-4 mr-2" />
                     {triggerMatchingMutation.isPending ? 'Triggering...' : 'Trigger Matching'}
                   </Button>
-                  {nextEvent.optInCount < 6 && (
+                  {nextEvent.optInCount < nextEvent.minOptIns && (
                     <div className="text-xs text-orange-600 flex items-center gap-1">
                       <ExclamationTriangleIcon className="w-3 h-3" />
-                      Need at least 6 opt-ins
+                      Need at least {nextEvent.minOptIns} opt-ins
                     </div>
                   )}
                 </div>
@@ -195,8 +313,29 @@ export default function AdminEvents() {
         )
       })()}
 
+      <MatchingScheduleCard />
+
+      <EventSeriesCard neighbourhoods={neighbourhoods} />
+
       <Card>
         <div className="p-4 sm:p-6 space-y-4">
+          <div className="flex items-center justify-end gap-2">
+            <Label>Status</Label>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as EventStatus | '')
+                setPage(1)
+              }}
+              className="px-3 py-2 border rounded-md text-sm"
+            >
+              <option value="">All statuses</option>
+              {Object.entries(eventStatusLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
           {isLoading ? (
             <div className="space-y-3">
               {[...Array(5)].map((_, i) => (
@@ -207,7 +346,7 @@ export default function AdminEvents() {
             <div className="space-y-4">
               {/* Desktop Table Headers - Hidden on Mobile */}
               <div className="hidden lg:grid grid-cols-6 gap-4 font-medium text-sm text-muted-foreground">
-                <div>Date</div>
+                <div>Event</div>
                 <div>Time</div>
                 <div>Status</div>
                 <div>Opt-ins</div>
@@ -219,18 +358,34 @@ export default function AdminEvents() {
                 <div key={event.id}>
                   {/* Desktop Layout */}
                   <div className="hidden lg:grid grid-cols-6 gap-4 items-center py-3 border-b last:border-b-0">
-                    <div className="text-sm">{new Date(event.date).toLocaleDateString()}</div>
+                    <div className="text-sm min-w-0">
+                      <div className="font-medium truncate">{event.title}</div>
+                      <div className="text-muted-foreground">
+                        {event.seriesId !== null && (event.seriesDetached ? 'Series, edited · ' : 'Series · ')}{new Date(event.date).toLocaleDateString()}{event.neighbourhood && ` · ${event.neighbourhood}`}
+                      </div>
+                    </div>
                     <div className="text-sm">{event.startTime} - {event.endTime}</div>
-                    <div className="text-sm capitalize">{event.matchingStatus}</div>
-                    <div className="text-sm">{event.optInCount}</div>
+                    <div className="text-sm">{eventStatusLabels[event.matchingStatus]}</div>
+                    <div className="text-sm">{event.optInCount}{event.maxParticipants !== null && ` / ${event.maxParticipants}`}</div>
                     <div className="text-sm">{event.circleCount}</div>
-                                         <div className="flex gap-2">
+                                         <div className="flex flex-wrap gap-2">
                        <Button variant="outline"  onClick={() => setLocation(`/admin/events/${event.id}`)}>
+                         View
+                       </Button>
+                       <Button variant="outline" onClick={() => setSelectedEventForEdit(event)}>
                          Edit
                        </Button>
-                       <Button variant="outline"  onClick={() => handleDeleteEvent(event.id)}>
-                         Delete
+                       <Button variant="outline" disabled={event.matchingStatus !== 'draft' && event.matchingStatus !== 'open'} onClick={() => setSelectedEventForSettings(event)}>
+                         Settings
                        </Button>
+                       <Button variant="outline" disabled={!cancellableStatuses.includes(event.matchingStatus)} onClick={() => handleCancelEvent(event.id)}>
+                         Cancel
+                       </Button>
+                       {!event.seriesId && (
+                         <Button variant="outline"  onClick={() => handleDeleteEvent(event.id)}>
+                           Delete
+                         </Button>
+                       )}
                      </div>
                   </div>
 
@@ -238,18 +393,20 @@ export default function AdminEvents() {
                   <div className="lg:hidden border rounded-lg p-4 space-y-3">
                     <div className="flex items-start justify-between">
                       <div className="min-w-0 flex-1">
-                        <div className="font-medium text-base truncate">{new Date(event.date).toLocaleDateString()}</div>
-                        <div className="text-sm text-muted-foreground">{event.startTime} - {event.endTime}</div>
+                        <div className="font-medium text-base truncate">{event.title}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {new Date(event.date).toLocaleDateString()} · {event.startTime} - {event.endTime}
+                        </div>
                       </div>
                       <div className="ml-2 shrink-0">
-                        <span className="text-xs px-2 py-1 bg-muted rounded capitalize">{event.matchingStatus}</span>
+                        <span className="text-xs px-2 py-1 bg-muted rounded">{eventStatusLabels[event.matchingStatus]}</span>
                       </div>
                     </div>
                     
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
                         <span className="text-muted-foreground">Opt-ins:</span>
-                        <div className="font-medium">{event.optInCount}</div>
+                        <div className="font-medium">{event.optInCount}{event.maxParticipants !== null && ` / ${event.maxParticipants}`}</div>
                       </div>
                       <div>
                         <span className="text-muted-foreground">Circles:</span>
@@ -259,11 +416,22 @@ export default function AdminEvents() {
                     
                                          <div className="flex gap-2 pt-2">
                        <Button variant="outline"  className="flex-1" onClick={() => setLocation(`/admin/events/${event.id}`)}>
+                         View
+                       </Button>
+                       <Button variant="outline" className="flex-1" onClick={() => setSelectedEventForEdit(event)}>
                          Edit
                        </Button>
-                       <Button variant="outline"  className="flex-1" onClick={() => handleDeleteEvent(event.id)}>
-                         Delete
+                       <Button variant="outline" className="flex-1" disabled={event.matchingStatus !== 'draft' && event.matchingStatus !== 'open'} onClick={() => setSelectedEventForSettings(event)}>
+                         Settings
                        </Button>
+                       <Button variant="outline" className="flex-1" disabled={!cancellableStatuses.includes(event.matchingStatus)} onClick={() => handleCancelEvent(event.id)}>
+                         Cancel
+                       </Button>
+                       {!event.seriesId && (
+                         <Button variant="outline"  className="flex-1" onClick={() => handleDeleteEvent(event.id)}>
+                           Delete
+                         </Button>
+                       )}
                      </div>
                   </div>
                 </div>
@@ -311,13 +479,46 @@ export default function AdminEvents() {
         <Dialog.Content className="max-h-[90vh] overflow-y-auto mx-4 max-w-lg">
           <Dialog.Title>Create New Event</Dialog.Title>
           <Dialog.Description>Fill in the details for the new dinner event.</Dialog.Description>
-          <CreateEventForm 
-            onSubmit={createEventMutation.mutate} 
+          <EventForm 
+            neighbourhoods={neighbourhoods}
+            onSubmit={(data, status) => createEventMutation.mutate({ data, status })}
             isLoading={createEventMutation.isPending}
           />
         </Dialog.Content>
       </Dialog.Root>
 
+      <Dialog.Root open={!!selectedEventForEdit} onOpenChange={(open) => !open && setSelectedEventForEdit(null)}>
+        <Dialog.Content className="max-h-[90vh] overflow-y-auto mx-4 max-w-lg">
+          <Dialog.Title>Edit Event</Dialog.Title>
+          <Dialog.Description>
+            Update what participants see about this event.
+            {!!selectedEventForEdit?.seriesId && ' Saving detaches it from its series, so later series changes leave it alone.'}
+          </Dialog.Description>
+          {selectedEventForEdit && (
+            <EventForm
+              event={selectedEventForEdit}
+              neighbourhoods={neighbourhoods}
+              onSubmit={(data) => updateEventMutation.mutate({ eventId: selectedEventForEdit.id, data })}
+              isLoading={updateEventMutation.isPending}
+            />
+          )}
+        </Dialog.Content>
+      </Dialog.Root>
+
+      <Dialog.Root open={!!selectedEventForSettings} onOpenChange={(open) => !open && setSelectedEventForSettings(null)}>
+        <Dialog.Content className="max-h-[90vh] overflow-y-auto mx-4 max-w-lg">
+          <Dialog.Title>Matching Settings</Dialog.Title>
+          <Dialog.Description>Choose how circles are formed for this event.</Dialog.Description>
+          {selectedEventForSettings && (
+            <MatchingSettingsForm
+              event={selectedEventForSettings}
+              onSubmit={(settings) => updateSettingsMutation.mutate({ eventId: selectedEventForSettings.id, settings })}
+              isLoading={updateSettingsMutation.isPending}
+            />
+          )}
+        </Dialog.Content>
+      </Dialog.Root>
+
             {/* Matching Confirmation Dialog */}
       <Dialog.Root open={isMatchingDialogOpen} onOpenChange={setIsMatchingDialogOpen}>
         <Dialog.Portal>
@@ -375,8 +576,8 @@ export default function AdminEvents() {
                       </div>
                       <div className="flex items-center gap-2">
                         <span className="text-blue-700 font-medium">Status:</span>
-                        <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs font-medium capitalize">
-                          {selectedEventForMatching.matchingStatus}
+                        <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs font-medium">
+                          {eventStatusLabels[selectedEventForMatching.matchingStatus]}
                         </span>
                       </div>
                     </div>
@@ -401,7 +602,9 @@ export default function AdminEvents() {
                       </div>
                       <div className="flex items-start gap-2">
                         <div className="w-2 h-2 bg-orange-500 rounded-full mt-2 flex-shrink-0"></div>
-                        <span className="text-orange-700 text-sm">Users will be grouped into circles of 6</span>
+                        <span className="text-orange-700 text-sm">
+                          Users will be grouped into circles of {selectedEventForMatching?.minCircleSize}-{selectedEventForMatching?.maxCircleSize}
+                        </span>
                       </div>
                       <div className="flex items-start gap-2">
                         <div className="w-2 h-2 bg-orange-500 rounded-full mt-2 flex-shrink-0"></div>
@@ -457,19 +660,79 @@ export default function AdminEvents() {
   )
 }
 
-function CreateEventForm({ 
+function EventForm({ 
+  event,
+  neighbourhoods,
   onSubmit, 
   isLoading
 }: { 
-  onSubmit: (data: z.infer<typeof eventSchema>) => void, 
+  event?: Event,
+  neighbourhoods: Neighbourhood[],
+  onSubmit: (data: EventFormValues, status: EventStatus) => void, 
   isLoading: boolean
 }) {
-  const form = useForm<z.infer<typeof eventSchema>>({
+  const form = useForm<EventFormValues>({
     resolver: zodResolver(eventSchema),
+    defaultValues: {
+      title: event?.title ?? '',
+      description: event?.description ?? '',
+      theme: event?.theme ?? '',
+      neighbourhoodId: event?.neighbourhoodId ?? null,
+      maxParticipants: event?.maxParticipants ?? null,
+      coverImageUrl: event?.coverImageUrl ?? '',
+      date: event?.date ?? '',
+      startTime: event?.startTime ?? '',
+      endTime: event?.endTime ?? '',
+    },
   })
 
   return (
-    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+    <form onSubmit={form.handleSubmit((data) => onSubmit(data, 'open'))} className="space-y-4">
+      <div>
+        <Label>Title</Label>
+        <Input placeholder="Neighbourhood Dinner" {...form.register('title')} />
+        {form.formState.errors.title && (
+          <p className="text-red-600 text-sm mt-1">{form.formState.errors.title.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label>Description</Label>
+        <textarea
+          rows={3}
+          className="w-full px-3 py-2 border rounded-md text-sm"
+          {...form.register('description')}
+        />
+        {form.formState.errors.description && (
+          <p className="text-red-600 text-sm mt-1">{form.formState.errors.description.message}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label>Theme (optional)</Label>
+          <Input placeholder="e.g. Diwali potluck" {...form.register('theme')} />
+          {form.formState.errors.theme && (
+            <p className="text-red-600 text-sm mt-1">{form.formState.errors.theme.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label>Neighbourhood</Label>
+          <select
+            {...form.register('neighbourhoodId', { setValueAs: toNullableNumber })}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            <option value="">Any neighbourhood</option>
+            {neighbourhoods.map((neighbourhood) => (
+              <option key={neighbourhood.id} value={neighbourhood.id}>
+                {neighbourhood.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
         <div>
           <Label>Date</Label>
@@ -479,6 +742,21 @@ function CreateEventForm({
           )}
         </div>
 
+        <div>
+          <Label>Max participants</Label>
+          <Input
+            type="number"
+            min={2}
+            placeholder="No limit"
+            {...form.register('maxParticipants', { setValueAs: toNullableNumber })}
+          />
+          {form.formState.errors.maxParticipants && (
+            <p className="text-red-600 text-sm mt-1">{form.formState.errors.maxParticipants.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
         <div>
           <Label>Start Time</Label>
           <Input type="time" {...form.register('startTime')} />
@@ -486,13 +764,21 @@ function CreateEventForm({
             <p className="text-red-600 text-sm mt-1">{form.formState.errors.startTime.message}</p>
           )}
         </div>
+
+        <div>
+          <Label>End Time</Label>
+          <Input type="time" {...form.register('endTime')} />
+          {form.formState.errors.endTime && (
+            <p className="text-red-600 text-sm mt-1">{form.formState.errors.endTime.message}</p>
+          )}
+        </div>
       </div>
 
       <div>
-        <Label>End Time</Label>
-        <Input type="time" {...form.register('endTime')} />
-        {form.formState.errors.endTime && (
-          <p className="text-red-600 text-sm mt-1">{form.formState.errors.endTime.message}</p>
+        <Label>Cover image URL (optional)</Label>
+        <Input type="url" placeholder="https://" {...form.register('coverImageUrl')} />
+        {form.formState.errors.coverImageUrl && (
+          <p className="text-red-600 text-sm mt-1">{form.formState.errors.coverImageUrl.message}</p>
         )}
       </div>
 
@@ -500,8 +786,97 @@ function CreateEventForm({
         <Button type="button" variant="outline" onClick={() => form.reset()} className="w-full sm:w-auto">
           Reset
         </Button>
+        {!event && (
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isLoading}
+            onClick={form.handleSubmit((data) => onSubmit(data, 'draft'))}
+            className="w-full sm:w-auto"
+          >
+            Save as Draft
+          </Button>
+        )}
+        <Button type="submit" disabled={isLoading} className="w-full sm:w-auto">
+          {isLoading ? 'Saving...' : event ? 'Save Event' : 'Create Event'}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+function MatchingSettingsForm({
+  event,
+  onSubmit,
+  isLoading
+}: {
+  event: Event,
+  onSubmit: (data: z.infer<typeof matchingSettingsSchema>) => void,
+  isLoading: boolean
+}) {
+  const form = useForm<z.infer<typeof matchingSettingsSchema>>({
+    resolver: zodResolver(matchingSettingsSchema),
+    defaultValues: {
+      minCircleSize: event.minCircleSize,
+      maxCircleSize: event.maxCircleSize,
+      circleFormats: event.circleFormats,
+      minOptIns: event.minOptIns,
+      matchingStrategy: event.matchingStrategy,
+    },
+  })
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label>Minimum circle size</Label>
+          <Input type="number" min={2} max={20} {...form.register('minCircleSize', { valueAsNumber: true })} />
+          {form.formState.errors.minCircleSize && (
+            <p className="text-red-600 text-sm mt-1">{form.formState.errors.minCircleSize.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label>Maximum circle size</Label>
+          <Input type="number" min={2} max={20} {...form.register('maxCircleSize', { valueAsNumber: true })} />
+          {form.formState.errors.maxCircleSize && (
+            <p className="text-red-600 text-sm mt-1">{form.formState.errors.maxCircleSize.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <Label>Circle formats</Label>
+        <select {...form.register('circleFormats')} className="w-full px-3 py-2 border rounded-md">
+          {Object.entries(circleFormatLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-muted-foreground mt-1">Rotating circles always seat three households of two.</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label>Minimum opt-ins</Label>
+          <Input type="number" min={2} {...form.register('minOptIns', { valueAsNumber: true })} />
+          {form.formState.errors.minOptIns && (
+            <p className="text-red-600 text-sm mt-1">{form.formState.errors.minOptIns.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label>Matching strategy</Label>
+          <select {...form.register('matchingStrategy')} className="w-full px-3 py-2 border rounded-md capitalize">
+            <option value="optimizer">Optimizer</option>
+            <option value="greedy">Greedy</option>
+            <option value="random">Random</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row justify-end gap-2">
         <Button type="submit" disabled={isLoading} className="w-full sm:w-auto">
-          {isLoading ? 'Creating...' : 'Create Event'}
+          {isLoading ? 'Saving...' : 'Save Settings'}
         </Button>
       </div>
     </form>
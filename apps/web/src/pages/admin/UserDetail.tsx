@@ -2,8 +2,10 @@ import { useState } from 'react'
 import { Card, Button, Input, DropdownMenu } from '../../components/ui'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '../../lib/api'
+import type { Reliability } from '../../lib/api'
 import { toast } from 'sonner'
 import AdminGuard from '../../components/AdminGuard'
+import ExclusionsCard from '../../components/ExclusionsCard'
 import { useLocation, useRoute } from 'wouter'
 import { ArrowLeftIcon, CheckIcon, UserIcon, EnvelopeIcon, MapPinIcon, CalendarIcon, ShieldCheckIcon } from '@heroicons/react/24/outline'
 
@@ -19,6 +21,7 @@ interface UserDetail {
   eventsParticipated: number
   totalPoints: number
   badgesEarned: number
+  reliability: Reliability
 }
 
 export default function AdminUserDetail() {
@@ -279,6 +282,46 @@ export default function AdminUserDetail() {
                 </div>
               </Card>
 
+              <Card>
+                <div className="p-4 sm:p-6 space-y-4">
+                  <h3 className="font-semibold">Attendance</h3>
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Reliability</span>
+                      <span className="font-medium">
+                        {user.reliability.score === null ? 'No dinners marked' : `${user.reliability.score}%`}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Attended</span>
+                      <span className="font-medium">{user.reliability.attended}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">No-shows</span>
+                      <span className="font-medium">{user.reliability.noShows}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Not marked</span>
+                      <span className="font-medium">{user.reliability.unmarked}</span>
+                    </div>
+                  </div>
+                  {user.reliability.recentNoShows.length > 0 && (
+                    <div className="space-y-1 text-sm">
+                      <div className="text-muted-foreground">Recent no-shows</div>
+                      {user.reliability.recentNoShows.map((noShow) => (
+                        <button
+                          key={noShow.eventId}
+                          onClick={() => setLocation(`/admin/events/${noShow.eventId}`)}
+                          className="block text-left hover:underline"
+                        >
+                          {noShow.title} · {new Date(noShow.date).toLocaleDateString()}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </Card>
+
               <Card>
                 <div className="p-4 sm:p-6 space-y-4">
                   <h3 className="font-semibold">Quick Actions</h3>
@@ -295,6 +338,8 @@ export default function AdminUserDetail() {
                   </div>
                 </div>
               </Card>
+
+              <ExclusionsCard userId={user.id} />
             </div>
           </div>
         )}